@@ -0,0 +1,77 @@
+import { mockRequest, mockResponse } from './helpers'
+import cartHandler from '../cart'
+import cartItemsHandler from '../cartItems'
+import cartItemHandler from '../cartItem'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue(null) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/carts', () => ({
+  ...jest.requireActual('../../src/services/carts'),
+  findCart: jest.fn(),
+  findOrCreateCart: jest.fn(),
+  recalculateCart: jest.fn(),
+  withCartAvailability: jest.fn(),
+  checkCartLine: jest.fn()
+}))
+
+const { prisma } = jest.requireMock('@freedompress/core')
+const carts = jest.requireMock('../../src/services/carts')
+
+describe('cart routes', () => {
+  const cart = {
+    id: 'cart1',
+    items: [
+      { id: 'item1', productId: 'p1', variantId: null, quantity: 1 },
+      { id: 'item2', productId: 'p2', variantId: null, quantity: 2 }
+    ]
+  }
+
+  beforeEach(() => {
+    prisma.cartItem = { delete: jest.fn(), deleteMany: jest.fn(), update: jest.fn(), create: jest.fn() }
+    carts.findCart.mockResolvedValue(cart)
+    carts.recalculateCart.mockResolvedValue({ ...cart, items: [cart.items[1]] })
+    carts.withCartAvailability.mockImplementation(async (updated: unknown) => updated)
+  })
+
+  it('removes only the addressed item on DELETE /cart/items/[id]', async () => {
+    const res = mockResponse()
+    await cartItemHandler(mockRequest('DELETE', { id: 'item1' }), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(prisma.cartItem.delete).toHaveBeenCalledWith({ where: { id: 'item1' } })
+    expect(prisma.cartItem.deleteMany).not.toHaveBeenCalled()
+    expect(res.body.data.items).toEqual([cart.items[1]])
+  })
+
+  it('answers 404 for an item outside the cart without touching it', async () => {
+    const res = mockResponse()
+    await cartItemHandler(mockRequest('DELETE', { id: 'other' }), res)
+
+    expect(res.statusCode).toBe(404)
+    expect(prisma.cartItem.delete).not.toHaveBeenCalled()
+  })
+
+  it('clears the whole cart only on DELETE /cart', async () => {
+    const res = mockResponse()
+    await cartHandler(mockRequest('DELETE'), res)
+
+    expect(prisma.cartItem.deleteMany).toHaveBeenCalledWith({ where: { cartId: 'cart1' } })
+    expect(prisma.cartItem.delete).not.toHaveBeenCalled()
+  })
+
+  it('serves each cart method on its own route', async () => {
+    const statusOf = async (handler: typeof cartHandler, method: string) => {
+      const res = mockResponse()
+      await handler(mockRequest(method, { id: 'item1' }, {}), res)
+      return res.statusCode
+    }
+
+    expect(await statusOf(cartItemsHandler, 'POST')).not.toBe(405)
+    expect(await statusOf(cartItemsHandler, 'DELETE')).toBe(405)
+    expect(await statusOf(cartItemHandler, 'PUT')).not.toBe(405)
+    expect(await statusOf(cartItemHandler, 'POST')).toBe(405)
+    expect(await statusOf(cartHandler, 'POST')).toBe(405)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { mockRequest, mockResponse } from './helpers'
+import { updateCategory } from '../categories'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue({ user: { id: 'u1' } }) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/catalogCache', () => ({ invalidateCatalog: jest.fn() }))
+
+const { prisma } = jest.requireMock('@freedompress/core')
+
+describe('updateCategory', () => {
+  beforeEach(() => {
+    prisma.user = { findUnique: jest.fn().mockResolvedValue({ id: 'u1', role: 'admin' }) }
+    prisma.category = {
+      findUnique: jest.fn().mockResolvedValue({ id: 'c1', name: 'Clothing', slug: 'clothing', parentId: null }),
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([
+        { id: 'c1', name: 'Clothing', slug: 'clothing', parentId: null, sortOrder: 0 },
+        { id: 'c2', name: 'Shoes', slug: 'shoes', parentId: 'c1', sortOrder: 0 },
+        { id: 'c3', name: 'Running', slug: 'running', parentId: 'c2', sortOrder: 0 },
+        { id: 'c4', name: 'Accessories', slug: 'accessories', parentId: null, sortOrder: 1 }
+      ]),
+      update: jest.fn().mockResolvedValue({ id: 'c1', name: 'Clothing', slug: 'clothing' })
+    }
+  })
+
+  it('refuses to move a category under its own descendant', async () => {
+    const res = mockResponse()
+    await updateCategory(mockRequest('PUT', { id: 'c1' }, { parentId: 'c3' }), res)
+
+    expect(res.statusCode).toBe(400)
+    expect(res.body.error).toBe('A category cannot be moved under itself or one of its descendants')
+    expect(prisma.category.update).not.toHaveBeenCalled()
+  })
+
+  it('moves a category under another branch', async () => {
+    const res = mockResponse()
+    await updateCategory(mockRequest('PUT', { id: 'c1' }, { parentId: 'c4' }), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(prisma.category.update.mock.calls[0][0].data).toMatchObject({ parentId: 'c4' })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { mockRequest, mockResponse } from './helpers'
+import checkoutHandler from '../checkout'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue(null) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/carts', () => ({ CART_SESSION_COOKIE: 'shop_cart', findCart: jest.fn() }))
+jest.mock('../../src/services/orders', () => ({ placeOrder: jest.fn() }))
+
+const { findCart } = jest.requireMock('../../src/services/carts')
+const { placeOrder } = jest.requireMock('../../src/services/orders')
+
+describe('checkout route', () => {
+  const address = {
+    firstName: 'Ada',
+    lastName: 'Shopper',
+    address1: '1 Main St',
+    city: 'Springfield',
+    state: 'IL',
+    country: 'US',
+    zipCode: '62701'
+  }
+  const body = {
+    email: 'shopper@example.com',
+    shippingAddress: address,
+    billingAddress: address,
+    paymentMethod: 'card'
+  }
+  const cart = { id: 'cart1', discountAmount: 0, items: [{ productId: 'p1', variantId: null, quantity: 2 }] }
+
+  beforeEach(() => {
+    placeOrder.mockReset()
+    findCart.mockResolvedValue(cart)
+  })
+
+  it('places a pending order from the cart', async () => {
+    placeOrder.mockResolvedValue({ order: { id: 'o1' }, shortages: [] })
+    const res = mockResponse()
+    await checkoutHandler(mockRequest('POST', {}, body), res)
+
+    expect(res.statusCode).toBe(201)
+    expect(res.body.data).toEqual({ id: 'o1' })
+    expect(placeOrder).toHaveBeenCalledWith(cart, body, undefined)
+  })
+
+  it('lists the short items with 409', async () => {
+    placeOrder.mockResolvedValue({
+      order: null,
+      shortages: [{ productId: 'p1', variantId: null, requested: 2, available: 1 }]
+    })
+    const res = mockResponse()
+    await checkoutHandler(mockRequest('POST', {}, body), res)
+
+    expect(res.statusCode).toBe(409)
+    expect(res.body.errors).toEqual(['p1: 1 available, 2 requested'])
+  })
+
+  it('refuses an empty cart', async () => {
+    findCart.mockResolvedValue({ ...cart, items: [] })
+    const res = mockResponse()
+    await checkoutHandler(mockRequest('POST', {}, body), res)
+
+    expect(res.statusCode).toBe(400)
+    expect(placeOrder).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
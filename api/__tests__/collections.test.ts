@@ -0,0 +1,53 @@
+import { mockRequest, mockResponse } from './helpers'
+import collectionsHandler from '../collections'
+import collectionHandler from '../collection'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue(null) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/catalogCache', () => ({ invalidateCatalog: jest.fn() }))
+jest.mock('../../src/services/collections', () => ({ invalidateCollectionVisibility: jest.fn() }))
+
+const { prisma } = jest.requireMock('@freedompress/core')
+
+describe('collection routes', () => {
+  beforeEach(() => {
+    prisma.collection = {
+      findMany: jest.fn().mockResolvedValue([]),
+      findFirst: jest.fn().mockResolvedValue({ id: 'col1', name: 'Summer', _count: { products: 3 } }),
+      create: jest.fn()
+    }
+  })
+
+  it('returns one collection on GET /collections/[id]', async () => {
+    const res = mockResponse()
+    await collectionHandler(mockRequest('GET', { id: 'col1' }), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(res.body.data).toEqual({ id: 'col1', name: 'Summer', productCount: 3 })
+    expect(prisma.collection.findMany).not.toHaveBeenCalled()
+  })
+
+  it('only finds published collections for customers', async () => {
+    prisma.collection.findFirst.mockResolvedValue(null)
+    const res = mockResponse()
+    await collectionHandler(mockRequest('GET', { id: 'col1' }), res)
+
+    expect(prisma.collection.findFirst.mock.calls[0][0].where).toMatchObject({
+      AND: [{ id: 'col1' }, { AND: [{ published: true }, expect.anything()] }]
+    })
+    expect(res.statusCode).toBe(404)
+  })
+
+  it('creates collections on the root route only', async () => {
+    const byId = mockResponse()
+    await collectionHandler(mockRequest('POST', { id: 'col1' }, { name: 'Winter' }), byId)
+    const root = mockResponse()
+    await collectionsHandler(mockRequest('PUT', { id: 'col1' }, { name: 'Winter' }), root)
+
+    expect(byId.statusCode).toBe(405)
+    expect(root.statusCode).toBe(405)
+    expect(prisma.collection.create).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
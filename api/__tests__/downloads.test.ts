@@ -0,0 +1,44 @@
+import { mockRequest, mockResponse } from './helpers'
+import orderDownloadsHandler from '../orderDownloads'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue({ user: { id: 'u1' } }) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/downloads', () => ({
+  issueDownloadLinks: jest.fn().mockResolvedValue([{ id: 'link1', url: '/api/shop/downloads/link1?expires=1&signature=abc' }])
+}))
+
+const { prisma } = jest.requireMock('@freedompress/core')
+const { issueDownloadLinks } = jest.requireMock('../../src/services/downloads')
+
+describe('order downloads route', () => {
+  beforeEach(() => {
+    issueDownloadLinks.mockClear()
+    prisma.user = { findUnique: jest.fn().mockResolvedValue({ id: 'u1', role: 'customer' }) }
+    prisma.order = { findUnique: jest.fn().mockResolvedValue({ id: 'o1', userId: 'u1', paymentStatus: 'PAID' }) }
+  })
+
+  it("returns signed links for the customer's paid order", async () => {
+    const res = mockResponse()
+    await orderDownloadsHandler(mockRequest('GET', { id: 'o1' }), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(issueDownloadLinks).toHaveBeenCalledWith('o1')
+    expect(res.body.data).toEqual([{ id: 'link1', url: '/api/shop/downloads/link1?expires=1&signature=abc' }])
+  })
+
+  it("hides other customers' orders and waits for payment", async () => {
+    prisma.order.findUnique.mockResolvedValueOnce({ id: 'o1', userId: 'u2', paymentStatus: 'PAID' })
+    const other = mockResponse()
+    await orderDownloadsHandler(mockRequest('GET', { id: 'o1' }), other)
+
+    prisma.order.findUnique.mockResolvedValueOnce({ id: 'o1', userId: 'u1', paymentStatus: 'PENDING' })
+    const unpaid = mockResponse()
+    await orderDownloadsHandler(mockRequest('GET', { id: 'o1' }), unpaid)
+
+    expect(other.statusCode).toBe(404)
+    expect(unpaid.statusCode).toBe(400)
+    expect(issueDownloadLinks).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
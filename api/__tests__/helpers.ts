@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+
+type Handler = (req: NextApiRequest, res: NextApiResponse) => unknown
+
+// Stand-in for @freedompress/core, which the host app provides. Handlers
+// dispatch by method like the real createApiHandler, and models are set
+// on `prisma` by each test.
+export function mockCore() {
+  return {
+    prisma: {} as Record<string, any>,
+    createApiHandler: (handlers: Record<string, Handler>) => (req: NextApiRequest, res: NextApiResponse) => {
+      const handler = handlers[req.method as string]
+      if (!handler) {
+        res.setHeader('Allow', Object.keys(handlers).join(', '))
+        return res.status(405).json({ success: false, error: 'Method not allowed' })
+      }
+      return handler(req, res)
+    },
+    successResponse: (res: NextApiResponse, data: unknown, status: number = 200) =>
+      res.status(status).json({ success: true, data }),
+    errorResponse: (res: NextApiResponse, error: string, status: number = 400, errors?: string[]) =>
+      res.status(status).json({ success: false, error, errors })
+  }
+}
+
+export interface MockResponse {
+  statusCode: number
+  body: any
+  headers: Record<string, unknown>
+}
+
+export function mockRequest(method: string, query: Record<string, string> = {}, body?: unknown): NextApiRequest {
+  return { method, query, body, headers: {}, cookies: {} } as unknown as NextApiRequest
+}
+
+export function mockResponse(): NextApiResponse & MockResponse {
+  const res: any = { statusCode: 200, body: undefined, headers: {} }
+  res.status = (code: number) => {
+    res.statusCode = code
+    return res
+  }
+  res.json = (body: unknown) => {
+    res.body = body
+    return res
+  }
+  res.setHeader = (name: string, value: unknown) => {
+    res.headers[name.toLowerCase()] = value
+    return res
+  }
+  res.send = (body: unknown) => {
+    res.body = body
+    return res
+  }
+  res.end = () => res
+  return res
+}
\ No newline at end of file
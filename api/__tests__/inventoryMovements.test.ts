@@ -0,0 +1,34 @@
+import { mockRequest, mockResponse } from './helpers'
+import movementsHandler from '../inventoryMovements'
+import adjustmentsHandler from '../inventoryAdjustments'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue(null) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/inventory', () => ({ adjustInventory: jest.fn() }))
+
+const { adjustInventory } = jest.requireMock('../../src/services/inventory')
+
+describe('inventory routes', () => {
+  it('only lists the ledger on /inventory/movements', async () => {
+    const post = mockResponse()
+    await movementsHandler(mockRequest('POST', {}, { productId: 'p1', quantity: 5 }), post)
+    const get = mockResponse()
+    await movementsHandler(mockRequest('GET'), get)
+
+    expect(post.statusCode).toBe(405)
+    expect(adjustInventory).not.toHaveBeenCalled()
+    expect(get.statusCode).toBe(401)
+  })
+
+  it('only takes adjustments on /inventory/adjustments', async () => {
+    const get = mockResponse()
+    await adjustmentsHandler(mockRequest('GET'), get)
+    const post = mockResponse()
+    await adjustmentsHandler(mockRequest('POST', {}, { productId: 'p1', quantity: 5 }), post)
+
+    expect(get.statusCode).toBe(405)
+    expect(post.statusCode).toBe(401)
+  })
+})
\ No newline at end of file
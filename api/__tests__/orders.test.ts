@@ -0,0 +1,55 @@
+import { mockRequest, mockResponse } from './helpers'
+import ordersHandler from '../orders'
+import orderCancelHandler from '../orderCancel'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue({ user: { id: 'u1' } }) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/orders', () => ({ cancelOrder: jest.fn().mockResolvedValue(2) }))
+
+const { prisma } = jest.requireMock('@freedompress/core')
+const orders = jest.requireMock('../../src/services/orders')
+
+describe('order routes', () => {
+  beforeEach(() => {
+    orders.cancelOrder.mockClear()
+    prisma.user = { findUnique: jest.fn().mockResolvedValue({ id: 'u1', role: 'customer' }) }
+    prisma.order = {
+      findUnique: jest.fn().mockResolvedValue({ id: 'o1', userId: 'u1', status: 'PENDING', paymentStatus: 'PENDING' })
+    }
+  })
+
+  it('does not cancel orders on POST /orders', async () => {
+    const res = mockResponse()
+    await ordersHandler(mockRequest('POST', { id: 'o1' }), res)
+
+    expect(res.statusCode).toBe(405)
+    expect(orders.cancelOrder).not.toHaveBeenCalled()
+  })
+
+  it('cancels the addressed order on POST /orders/[id]/cancel', async () => {
+    const res = mockResponse()
+    await orderCancelHandler(mockRequest('POST', { id: 'o1' }), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(orders.cancelOrder).toHaveBeenCalledWith('o1')
+    expect(res.body.data).toEqual({ id: 'o1', status: 'CANCELLED', releasedReservations: 2 })
+  })
+
+  it('does not list orders on GET /orders/[id]/cancel', async () => {
+    const res = mockResponse()
+    await orderCancelHandler(mockRequest('GET', { id: 'o1' }), res)
+
+    expect(res.statusCode).toBe(405)
+  })
+
+  it("hides other customers' orders", async () => {
+    prisma.order.findUnique.mockResolvedValue({ id: 'o1', userId: 'u2', status: 'PENDING', paymentStatus: 'PENDING' })
+    const res = mockResponse()
+    await orderCancelHandler(mockRequest('POST', { id: 'o1' }), res)
+
+    expect(res.statusCode).toBe(404)
+    expect(orders.cancelOrder).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
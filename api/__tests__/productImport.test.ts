@@ -0,0 +1,92 @@
+import { mockRequest, mockResponse } from './helpers'
+import importHandler from '../productImport'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue({ user: { id: 'admin1' } }) }), { virtual: true })
+jest.mock('slugify', () => jest.fn((text: string) => text.toLowerCase()), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({
+  withSecurity: jest.fn().mockResolvedValue(true),
+  sanitizeInput: (data: unknown) => data
+}))
+jest.mock('../../src/services/productSearch', () => ({ indexProduct: jest.fn() }))
+jest.mock('../../src/services/productRevisions', () => ({ recordProductRevision: jest.fn() }))
+jest.mock('../../src/services/smartCollections', () => ({ syncProductCollections: jest.fn() }))
+jest.mock('../../src/services/slugHistory', () => ({ recordSlugChange: jest.fn() }))
+jest.mock('../../src/services/catalogCache', () => ({ invalidateCatalog: jest.fn() }))
+jest.mock('../../src/services/inventory', () => ({ syncStockTotals: jest.fn() }))
+jest.mock('../../src/services/inventoryMovements', () => ({
+  captureStock: jest.fn().mockResolvedValue(new Map()),
+  recordStockChanges: jest.fn()
+}))
+jest.mock('../../src/services/bundles', () => ({
+  findBundlesUsingVariants: jest.fn().mockResolvedValue([]),
+  syncBundlesContaining: jest.fn()
+}))
+jest.mock('../variants', () => ({ buildVariantCreateData: jest.fn(), buildVariantUpdateData: jest.fn() }))
+
+const { prisma } = jest.requireMock('@freedompress/core')
+const { syncBundlesContaining } = jest.requireMock('../../src/services/bundles')
+
+describe('product import', () => {
+  beforeEach(() => {
+    syncBundlesContaining.mockClear()
+    prisma.user = { findUnique: jest.fn().mockResolvedValue({ id: 'admin1', role: 'admin' }) }
+    prisma.product = {
+      findUnique: jest.fn(async ({ where }: { where: { sku?: string; slug?: string } }) =>
+        where.sku === 'MUG' || where.slug === 'mug'
+          ? { id: 'p1', sku: 'MUG', name: 'Mug', slug: 'mug', description: 'Stored copy', price: 12, deletedAt: null, variants: [] }
+          : null
+      ),
+      create: jest.fn().mockResolvedValue({ id: 'p2' }),
+      update: jest.fn()
+    }
+  })
+
+  it('reports rows that are not objects without failing the batch', async () => {
+    const res = mockResponse()
+    await importHandler(mockRequest('POST', {}, {
+      format: 'json',
+      data: [null, { sku: 'MUG', name: 'Mug', description: 'A mug', price: 12 }]
+    }), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(res.body.data.rows).toEqual([
+      { row: 1, action: 'error', errors: ['Row must be an object of product fields'] },
+      expect.objectContaining({ row: 2, action: 'update', productId: 'p1' })
+    ])
+  })
+
+  it('keeps the stored name and description when their cells are empty', async () => {
+    const res = mockResponse()
+    await importHandler(mockRequest('POST', {}, { format: 'csv', data: 'sku,name,description,quantity\nMUG,,,4' }), res)
+
+    expect(res.body.data.rows[0]).toMatchObject({ action: 'update', errors: [] })
+    const { data } = prisma.product.update.mock.calls[0][0]
+    expect(data.name).toBeUndefined()
+    expect(data.description).toBeUndefined()
+    expect(data.quantity).toBe(4)
+  })
+
+  it('still requires a description for new products', async () => {
+    const res = mockResponse()
+    await importHandler(mockRequest('POST', {}, { format: 'csv', data: 'sku,name,price\nCUP,Cup,8' }), res)
+
+    expect(res.body.data.rows[0]).toMatchObject({ action: 'error', errors: ['Product description is required'] })
+    expect(prisma.product.create).not.toHaveBeenCalled()
+  })
+
+  it('upserts products without a SKU by slug', async () => {
+    const res = mockResponse()
+    await importHandler(mockRequest('POST', {}, { format: 'csv', data: 'sku,slug,price\n,mug,14' }), res)
+
+    expect(prisma.product.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { slug: 'mug' } }))
+    expect(res.body.data.rows[0]).toMatchObject({ action: 'update', productId: 'p1' })
+  })
+
+  it('refreshes bundles after imported stock changes', async () => {
+    const res = mockResponse()
+    await importHandler(mockRequest('POST', {}, { format: 'csv', data: 'sku,quantity\nMUG,4' }), res)
+
+    expect(syncBundlesContaining).toHaveBeenCalledWith('p1')
+  })
+})
\ No newline at end of file
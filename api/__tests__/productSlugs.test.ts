@@ -0,0 +1,63 @@
+import { mockRequest, mockResponse } from './helpers'
+import { getProductBySlug } from '../products'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('next-auth/react', () => ({ getSession: jest.fn().mockResolvedValue(null) }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+
+const { prisma } = jest.requireMock('@freedompress/core')
+
+describe('GET /products/[slug] for a retired slug', () => {
+  beforeEach(() => {
+    prisma.product = { findUnique: jest.fn().mockResolvedValue(null) }
+    prisma.productSlugHistory = {
+      findUnique: jest.fn().mockResolvedValue({
+        slug: 'old-mug',
+        product: { id: 'p1', slug: 'new-mug', status: 'ACTIVE', deletedAt: null, publishAt: null, unpublishAt: null }
+      })
+    }
+  })
+
+  it('redirects to the current slug', async () => {
+    const res = mockResponse()
+    await getProductBySlug(mockRequest('GET', { slug: 'old-mug' }), res)
+
+    expect(prisma.productSlugHistory.findUnique.mock.calls[0][0].where).toEqual({ slug: 'old-mug' })
+    expect(res.statusCode).toBe(200)
+    expect(res.body.data).toEqual({
+      redirect: true,
+      statusCode: 301,
+      slug: 'new-mug',
+      location: '/shop/product/new-mug'
+    })
+  })
+
+  it('does not reveal where an archived or draft product moved', async () => {
+    prisma.productSlugHistory.findUnique.mockResolvedValueOnce({
+      slug: 'old-mug',
+      product: { id: 'p1', slug: 'new-mug', status: 'ACTIVE', deletedAt: new Date(), publishAt: null, unpublishAt: null }
+    })
+    const archived = mockResponse()
+    await getProductBySlug(mockRequest('GET', { slug: 'old-mug' }), archived)
+
+    prisma.productSlugHistory.findUnique.mockResolvedValueOnce({
+      slug: 'old-mug',
+      product: { id: 'p1', slug: 'new-mug', status: 'DRAFT', deletedAt: null, publishAt: null, unpublishAt: null }
+    })
+    const draft = mockResponse()
+    await getProductBySlug(mockRequest('GET', { slug: 'old-mug' }), draft)
+
+    expect(archived.statusCode).toBe(404)
+    expect(draft.statusCode).toBe(404)
+    expect(draft.body.data).toBeUndefined()
+  })
+
+  it('answers 404 for a slug that was never used', async () => {
+    prisma.productSlugHistory.findUnique.mockResolvedValue(null)
+    const res = mockResponse()
+    await getProductBySlug(mockRequest('GET', { slug: 'never-used' }), res)
+
+    expect(res.statusCode).toBe(404)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { mockRequest, mockResponse } from './helpers'
+import sitemapIndexHandler from '../sitemaps'
+import sitemapPageHandler from '../sitemapPages'
+
+jest.mock('@freedompress/core', () => require('./helpers').mockCore(), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../../src/middleware/security', () => ({ withSecurity: jest.fn().mockResolvedValue(true) }))
+jest.mock('../../src/services/settings', () => ({ getStorefrontUrl: jest.fn().mockResolvedValue('https://shop.test') }))
+jest.mock('../../src/services/sitemaps', () => ({
+  getSitemapSectionStats: jest.fn().mockResolvedValue({ total: 1, lastModified: null }),
+  loadSitemapEntries: jest.fn().mockResolvedValue([{ loc: 'https://shop.test/shop/product/mug' }])
+}))
+
+describe('sitemap routes', () => {
+  it('lists sitemap pages on the index route', async () => {
+    const res = mockResponse()
+    await sitemapIndexHandler(mockRequest('GET'), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(res.body).toContain('<sitemapindex')
+    expect(res.body).toContain('/api/shop/sitemap/products/1')
+  })
+
+  it('serves product URLs on the page route', async () => {
+    const res = mockResponse()
+    await sitemapPageHandler(mockRequest('GET', { section: 'products', page: '1' }), res)
+
+    expect(res.statusCode).toBe(200)
+    expect(res.body).toContain('<urlset')
+    expect(res.body).toContain('<loc>https://shop.test/shop/product/mug</loc>')
+  })
+
+  it('answers 404 past the last page', async () => {
+    const res = mockResponse()
+    await sitemapPageHandler(mockRequest('GET', { section: 'products', page: '2' }), res)
+
+    expect(res.statusCode).toBe(404)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,367 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { Cart, CartItemInput, ProductStatus, ShopApiResponse, StockAvailability } from '../src/types'
+import { buildVisibleProductWhere, validateCartItemInput } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import {
+  CART_SESSION_COOKIE,
+  CART_SESSION_MAX_AGE_SECONDS,
+  CartOwner,
+  checkCartLine,
+  findCart,
+  findOrCreateCart,
+  recalculateCart,
+  withCartAvailability
+} from '../src/services/carts'
+
+// The signed-in user, or the guest's cart cookie
+async function getCartOwner(req: NextApiRequest): Promise<CartOwner> {
+  const session = await getSession({ req })
+  if (session?.user?.id) {
+    return { userId: session.user.id as string }
+  }
+  return { sessionId: req.cookies[CART_SESSION_COOKIE] }
+}
+
+// Keep a guest's cart across requests
+function rememberGuestCart(res: NextApiResponse, cart: { sessionId?: string | null; userId?: string | null }) {
+  if (cart.userId || !cart.sessionId) {
+    return
+  }
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : ''
+  res.setHeader(
+    'Set-Cookie',
+    `${CART_SESSION_COOKIE}=${encodeURIComponent(cart.sessionId)}; Path=/; Max-Age=${CART_SESSION_MAX_AGE_SECONDS}; HttpOnly; SameSite=Lax${secure}`
+  )
+}
+
+// Answer 409 when a line's quantity can't be sold under its backorder policy
+function sendStockConflict(res: NextApiResponse, availability: StockAvailability) {
+  return errorResponse(res, 'Not enough stock for the requested quantity', 409, [
+    `${Math.max(0, availability.available ?? 0)} in stock, ${availability.quantity} requested`
+  ])
+}
+
+// GET /api/shop/cart - The current cart, with each item's stock availability
+async function getCart(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const cart = await findOrCreateCart(await getCartOwner(req))
+    rememberGuestCart(res, cart)
+
+    const response: ShopApiResponse<Cart> = {
+      success: true,
+      data: await withCartAvailability(cart)
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching cart:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch cart', 500)
+  }
+}
+
+// POST /api/shop/cart/items - Add an item, or more of one already in the
+// cart. Quantities beyond what the item's backorder policy allows get 409.
+async function addCartItem(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 60 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const input = req.body as CartItemInput
+
+    // Validate input
+    const validation = validateCartItemInput(input)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid cart item', 400, validation.errors)
+    }
+
+    // Only products customers can see can be bought
+    const product = await prisma.product.findFirst({
+      where: {
+        id: input.productId,
+        ...buildVisibleProductWhere()
+      },
+      select: {
+        id: true,
+        price: true,
+        variants: {
+          where: { status: ProductStatus.ACTIVE },
+          select: { id: true, price: true }
+        }
+      }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    const variant = input.variantId
+      ? product.variants.find((candidate: { id: string }) => candidate.id === input.variantId)
+      : undefined
+    if (input.variantId && !variant) {
+      return errorResponse(res, 'Variant not found', 404)
+    }
+    if (!input.variantId && product.variants.length > 0) {
+      return errorResponse(res, 'Choose a variant of this product', 400)
+    }
+
+    const cart = await findOrCreateCart(await getCartOwner(req))
+    const existing = cart.items.find((item: { productId: string; variantId: string | null }) =>
+      item.productId === product.id && item.variantId === (variant?.id ?? null)
+    )
+    const quantity = (existing?.quantity ?? 0) + input.quantity
+
+    const availability = await checkCartLine(cart, { productId: product.id, variantId: variant?.id, quantity })
+    if (!availability.allowed) {
+      return sendStockConflict(res, availability)
+    }
+
+    const price = variant?.price ?? product.price
+    if (existing) {
+      await prisma.cartItem.update({
+        where: { id: existing.id },
+        data: { quantity, price }
+      })
+    } else {
+      await prisma.cartItem.create({
+        data: {
+          cartId: cart.id,
+          productId: product.id,
+          variantId: variant?.id ?? null,
+          quantity,
+          price
+        }
+      })
+    }
+
+    const updated = await recalculateCart(cart.id)
+    rememberGuestCart(res, updated)
+
+    const response: ShopApiResponse<Cart> = {
+      success: true,
+      data: await withCartAvailability(updated),
+      message: 'Item added to cart'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error adding cart item:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to add item to cart', 500)
+  }
+}
+
+// PUT /api/shop/cart/items/[id] - Change an item's quantity, checked against
+// stock like additions
+async function updateCartItem(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 60 },
+    csrf: true, // PUT requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { id } = req.query
+    const { quantity } = req.body as { quantity?: number }
+
+    if (!id || typeof id !== 'string') {
+      return errorResponse(res, 'Invalid cart item ID', 400)
+    }
+
+    // Validate input
+    const validation = validateCartItemInput({ quantity }, false)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid cart item', 400, validation.errors)
+    }
+
+    const cart = await findCart(await getCartOwner(req))
+    const item = cart?.items.find((candidate: { id: string }) => candidate.id === id)
+    if (!cart || !item) {
+      return errorResponse(res, 'Cart item not found', 404)
+    }
+
+    // Lowering a quantity never needs more stock
+    if ((quantity as number) > item.quantity) {
+      const availability = await checkCartLine(cart, {
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: quantity as number
+      })
+      if (!availability.allowed) {
+        return sendStockConflict(res, availability)
+      }
+    }
+
+    await prisma.cartItem.update({
+      where: { id: item.id },
+      data: { quantity }
+    })
+
+    const updated = await recalculateCart(cart.id)
+
+    const response: ShopApiResponse<Cart> = {
+      success: true,
+      data: await withCartAvailability(updated),
+      message: 'Cart item updated'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error updating cart item:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to update cart item', 500)
+  }
+}
+
+// DELETE /api/shop/cart/items/[id] - Remove an item from the cart
+async function removeCartItem(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 60 },
+    csrf: true, // DELETE requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { id } = req.query
+
+    if (!id || typeof id !== 'string') {
+      return errorResponse(res, 'Invalid cart item ID', 400)
+    }
+
+    const cart = await findCart(await getCartOwner(req))
+    const item = cart?.items.find((candidate: { id: string }) => candidate.id === id)
+    if (!cart || !item) {
+      return errorResponse(res, 'Cart item not found', 404)
+    }
+
+    await prisma.cartItem.delete({
+      where: { id: item.id }
+    })
+
+    const updated = await recalculateCart(cart.id)
+
+    const response: ShopApiResponse<Cart> = {
+      success: true,
+      data: await withCartAvailability(updated),
+      message: 'Cart item removed'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error removing cart item:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to remove cart item', 500)
+  }
+}
+
+// DELETE /api/shop/cart - Remove every item from the cart
+async function clearCart(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 30 },
+    csrf: true, // DELETE requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const cart = await findCart(await getCartOwner(req))
+    if (cart) {
+      await prisma.cartItem.deleteMany({
+        where: { cartId: cart.id }
+      })
+      await recalculateCart(cart.id)
+    }
+
+    const response: ShopApiResponse = {
+      success: true,
+      message: 'Cart cleared'
+    }
+
+    return successResponse(res, response)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error clearing cart:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to clear cart', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getCart,
+  DELETE: clearCart
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { createApiHandler } from '@freedompress/core'
+import { updateCartItem, removeCartItem } from './cart'
+
+// Handler for /api/shop/cart/items/[id]. DELETE removes this item only;
+// clearing the whole cart is DELETE /api/shop/cart.
+export default createApiHandler({
+  PUT: updateCartItem,
+  DELETE: removeCartItem
+})
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { createApiHandler } from '@freedompress/core'
+import { addCartItem } from './cart'
+
+// Handler for /api/shop/cart/items
+export default createApiHandler({
+  POST: addCartItem
+})
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { ShopApiResponse } from '../src/types'
+import { withSecurity } from '../src/middleware/security'
+import {
+  CatalogCacheMetrics,
+  clearCatalogCache,
+  getCatalogCacheMetrics,
+  resetCatalogCacheMetrics
+} from '../src/services/catalogCache'
+
+// GET /api/shop/cache - Catalog cache hit/miss metrics (admin)
+async function getCacheMetrics(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 60 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const response: ShopApiResponse<CatalogCacheMetrics> = {
+      success: true,
+      data: getCatalogCacheMetrics()
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching cache metrics:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch cache metrics', 500)
+  }
+}
+
+// DELETE /api/shop/cache - Empty the catalog cache and reset its metrics (admin)
+async function clearCache(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 10 },
+    csrf: true, // DELETE requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    await clearCatalogCache()
+    resetCatalogCacheMetrics()
+
+    const response: ShopApiResponse = {
+      success: true,
+      message: 'Catalog cache cleared'
+    }
+
+    return successResponse(res, response)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error clearing cache:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to clear cache', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getCacheMetrics,
+  DELETE: clearCache
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getCacheMetrics,
+  clearCache
+}
\ No newline at end of file
@@ -0,0 +1,295 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  Category,
+  CategoryCreateInput,
+  CategoryUpdateInput,
+  CategoryTreeNode,
+  ShopApiResponse
+} from '../src/types'
+import {
+  generateSlug,
+  validateCategoryData,
+  buildCategoryTree,
+  wouldCreateCategoryCycle
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { loadCategoryNodes } from '../src/services/categories'
+import { invalidateCatalog } from '../src/services/catalogCache'
+
+// GET /api/shop/categories - Get the category tree ordered by sortOrder
+async function getCategories(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const categories = await prisma.category.findMany({
+      include: {
+        _count: {
+          select: {
+            products: true
+          }
+        }
+      }
+    })
+
+    const tree = buildCategoryTree(categories.map(({ _count, ...category }: any) => ({
+      ...category,
+      productCount: _count.products
+    })))
+
+    const response: ShopApiResponse<CategoryTreeNode[]> = {
+      success: true,
+      data: tree
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching categories:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch categories', 500)
+  }
+}
+
+// POST /api/shop/categories - Create a category
+async function createCategory(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const categoryData = req.body as CategoryCreateInput
+
+    // Validate input
+    const validation = validateCategoryData(categoryData)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid category data', 400, validation.errors)
+    }
+
+    const slug = categoryData.slug || generateSlug(categoryData.name)
+
+    const existingCategory = await prisma.category.findFirst({
+      where: {
+        OR: [{ slug }, { name: categoryData.name }]
+      }
+    })
+
+    if (existingCategory) {
+      return errorResponse(res, 'Category with this name or slug already exists', 400)
+    }
+
+    if (categoryData.parentId) {
+      const parent = await prisma.category.findUnique({
+        where: { id: categoryData.parentId },
+        select: { id: true }
+      })
+      if (!parent) {
+        return errorResponse(res, 'Parent category not found', 400)
+      }
+    }
+
+    const category = await prisma.category.create({
+      data: {
+        name: categoryData.name,
+        slug,
+        description: categoryData.description,
+        metaTitle: categoryData.metaTitle,
+        metaDescription: categoryData.metaDescription,
+        image: categoryData.image,
+        imageAlt: categoryData.imageAlt,
+        parentId: categoryData.parentId || null,
+        featured: categoryData.featured ?? false,
+        sortOrder: categoryData.sortOrder ?? 0
+      }
+    })
+
+    await invalidateCatalog({ type: 'category', categoryId: category.id })
+
+    const response: ShopApiResponse<Category> = {
+      success: true,
+      data: category as Category,
+      message: 'Category created successfully'
+    }
+
+    return successResponse(res, response.data, 201)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error creating category:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to create category', 500)
+  }
+}
+
+// PUT /api/shop/categories/[id] - Update or reparent a category
+async function updateCategory(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // PUT requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+    const categoryData = req.body as CategoryUpdateInput
+
+    const existingCategory = await prisma.category.findUnique({
+      where: { id: id as string }
+    })
+
+    if (!existingCategory) {
+      return errorResponse(res, 'Category not found', 404)
+    }
+
+    // Fields left out of the request keep their stored values
+    const validation = validateCategoryData({ name: existingCategory.name, ...categoryData })
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid category data', 400, validation.errors)
+    }
+
+    const slug = categoryData.slug ?? (
+      categoryData.name && categoryData.name !== existingCategory.name
+        ? generateSlug(categoryData.name)
+        : existingCategory.slug
+    )
+
+    const conflict = await prisma.category.findFirst({
+      where: {
+        id: { not: existingCategory.id },
+        OR: [
+          { slug },
+          ...(categoryData.name ? [{ name: categoryData.name }] : [])
+        ]
+      }
+    })
+
+    if (conflict) {
+      return errorResponse(res, 'Category with this name or slug already exists', 400)
+    }
+
+    if (categoryData.parentId) {
+      const categories = await loadCategoryNodes()
+
+      if (!categories.some(category => category.id === categoryData.parentId)) {
+        return errorResponse(res, 'Parent category not found', 400)
+      }
+
+      if (wouldCreateCategoryCycle(categories, existingCategory.id, categoryData.parentId)) {
+        return errorResponse(res, 'A category cannot be moved under itself or one of its descendants', 400)
+      }
+    }
+
+    const category = await prisma.category.update({
+      where: { id: existingCategory.id },
+      data: {
+        name: categoryData.name,
+        slug,
+        description: categoryData.description,
+        metaTitle: categoryData.metaTitle,
+        metaDescription: categoryData.metaDescription,
+        image: categoryData.image,
+        imageAlt: categoryData.imageAlt,
+        parentId: categoryData.parentId === undefined ? undefined : categoryData.parentId || null,
+        featured: categoryData.featured,
+        sortOrder: categoryData.sortOrder
+      }
+    })
+
+    // Also covers products in descendant categories, whose breadcrumbs
+    // include this one
+    await invalidateCatalog({ type: 'category', categoryId: category.id })
+
+    const response: ShopApiResponse<Category> = {
+      success: true,
+      data: category as Category,
+      message: 'Category updated successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error updating category:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to update category', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getCategories,
+  POST: createCategory
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getCategories,
+  createCategory,
+  updateCategory
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { Order, OrderCreateInput, ShopApiResponse } from '../src/types'
+import { validateOrderData } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { CART_SESSION_COOKIE, findCart } from '../src/services/carts'
+import { placeOrder } from '../src/services/orders'
+
+// POST /api/shop/checkout - Place a pending order from the current cart.
+// Stock is held until payment; 409 lists the items that are short.
+async function processCheckout(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 10 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    const userId = session?.user?.id as string | undefined
+    const input = req.body as OrderCreateInput
+
+    // Validate input
+    const validation = validateOrderData(input)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid checkout details', 400, validation.errors)
+    }
+
+    const cart = await findCart({ userId, sessionId: req.cookies[CART_SESSION_COOKIE] })
+    if (!cart || cart.items.length === 0) {
+      return errorResponse(res, 'Cart is empty', 400)
+    }
+
+    const { order, shortages } = await placeOrder(cart, input, userId)
+    if (!order) {
+      return errorResponse(
+        res,
+        'Some items are no longer available in the requested quantity',
+        409,
+        shortages.map(shortage => `${shortage.variantId || shortage.productId}: ${shortage.available} available, ${shortage.requested} requested`)
+      )
+    }
+
+    const response: ShopApiResponse<Order> = {
+      success: true,
+      data: order,
+      message: 'Order placed successfully'
+    }
+
+    return successResponse(res, response.data, 201)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error processing checkout:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to process checkout', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  POST: processCheckout
+})
+
+// Export individual handlers for dynamic routes
+export {
+  processCheckout
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { createApiHandler } from '@freedompress/core'
+import { getCollection, updateCollection } from './collections'
+
+// Handler for /api/shop/collections/[id]
+export default createApiHandler({
+  GET: getCollection,
+  PUT: updateCollection
+})
\ No newline at end of file
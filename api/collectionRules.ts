@@ -0,0 +1,184 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { CollectionRules, ShopApiResponse } from '../src/types'
+import { validateCollectionRules } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { syncCollectionMembership } from '../src/services/smartCollections'
+
+interface CollectionRulesResponse {
+  collectionId: string
+  rules: CollectionRules | null
+  productCount: number
+}
+
+// GET /api/shop/collections/[id]/rules - Get a collection's smart rules
+async function getCollectionRules(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+
+    const collection = await prisma.collection.findUnique({
+      where: { id: id as string },
+      select: {
+        id: true,
+        rules: true,
+        _count: {
+          select: {
+            products: true
+          }
+        }
+      }
+    })
+
+    if (!collection) {
+      return errorResponse(res, 'Collection not found', 404)
+    }
+
+    const response: ShopApiResponse<CollectionRulesResponse> = {
+      success: true,
+      data: {
+        collectionId: collection.id,
+        rules: collection.rules as CollectionRules | null,
+        productCount: collection._count.products
+      }
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching collection rules:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch collection rules', 500)
+  }
+}
+
+// PUT /api/shop/collections/[id]/rules - Set or clear a collection's smart
+// rules. Setting rules replaces the membership with the matching products;
+// clearing them turns it back into a manual collection with its current
+// products.
+async function updateCollectionRules(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // PUT requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+    const { rules } = req.body as { rules: CollectionRules | null }
+
+    if (rules !== null) {
+      const validation = validateCollectionRules(rules)
+      if (!validation.valid) {
+        return errorResponse(res, 'Invalid collection rules', 400, validation.errors)
+      }
+    }
+
+    const collection = await prisma.collection.findUnique({
+      where: { id: id as string },
+      select: { id: true }
+    })
+
+    if (!collection) {
+      return errorResponse(res, 'Collection not found', 404)
+    }
+
+    await prisma.collection.update({
+      where: { id: collection.id },
+      data: {
+        rules: rules === null ? Prisma.DbNull : rules
+      }
+    })
+
+    const productCount = rules === null
+      ? await prisma.productCollection.count({ where: { collectionId: collection.id } })
+      : await syncCollectionMembership({ id: collection.id, rules })
+
+    const response: ShopApiResponse<CollectionRulesResponse> = {
+      success: true,
+      data: {
+        collectionId: collection.id,
+        rules,
+        productCount
+      },
+      message: 'Collection rules updated successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error updating collection rules:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to update collection rules', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getCollectionRules,
+  PUT: updateCollectionRules
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getCollectionRules,
+  updateCollectionRules
+}
\ No newline at end of file
@@ -0,0 +1,354 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  Collection,
+  CollectionCreateInput,
+  CollectionUpdateInput,
+  ShopApiResponse
+} from '../src/types'
+import {
+  generateSlug,
+  validateCollectionData,
+  buildVisibleCollectionWhere,
+  isWithinPublishWindow,
+  toWindowDate
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { invalidateCatalog } from '../src/services/catalogCache'
+import { invalidateCollectionVisibility } from '../src/services/collections'
+
+// Load the caller's role; anonymous callers are not admins
+async function isAdminRequest(req: NextApiRequest): Promise<boolean> {
+  const session = await getSession({ req })
+  if (!session?.user) {
+    return false
+  }
+
+  // Get user from database to verify role (don't trust client session)
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, role: true }
+  })
+  return user?.role === 'admin'
+}
+
+// GET /api/shop/collections - List collections ordered by sortOrder.
+// Customers only see published collections inside their window.
+async function getCollections(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const isAdmin = await isAdminRequest(req)
+
+    const collections = await prisma.collection.findMany({
+      where: isAdmin ? undefined : buildVisibleCollectionWhere(),
+      include: {
+        _count: {
+          select: {
+            products: true
+          }
+        }
+      },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+    })
+
+    const response: ShopApiResponse<Array<Omit<Collection, 'products'> & { productCount: number }>> = {
+      success: true,
+      data: collections.map(({ _count, ...collection }: any) => ({
+        ...collection,
+        productCount: _count.products
+      }))
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching collections:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch collections', 500)
+  }
+}
+
+// GET /api/shop/collections/[id] - One collection with its product count.
+// Customers get 404 for collections they can't see.
+async function getCollection(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { id } = req.query
+
+    if (!id || typeof id !== 'string') {
+      return errorResponse(res, 'Invalid collection ID', 400)
+    }
+
+    const isAdmin = await isAdminRequest(req)
+
+    const collection = await prisma.collection.findFirst({
+      where: isAdmin ? { id } : { AND: [{ id }, buildVisibleCollectionWhere()] },
+      include: {
+        _count: {
+          select: {
+            products: true
+          }
+        }
+      }
+    })
+
+    if (!collection) {
+      return errorResponse(res, 'Collection not found', 404)
+    }
+
+    const { _count, ...fields } = collection
+    const response: ShopApiResponse<Omit<Collection, 'products'> & { productCount: number }> = {
+      success: true,
+      data: {
+        ...fields,
+        productCount: _count.products
+      }
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching collection:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch collection', 500)
+  }
+}
+
+// POST /api/shop/collections - Create a collection, optionally scheduled
+async function createCollection(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    if (!(await isAdminRequest(req))) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const collectionData = req.body as CollectionCreateInput
+
+    // Validate input
+    const validation = validateCollectionData(collectionData)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid collection data', 400, validation.errors)
+    }
+
+    const slug = collectionData.slug || generateSlug(collectionData.name)
+
+    const existingCollection = await prisma.collection.findFirst({
+      where: {
+        OR: [{ slug }, { name: collectionData.name }]
+      }
+    })
+
+    if (existingCollection) {
+      return errorResponse(res, 'Collection with this name or slug already exists', 400)
+    }
+
+    const publishAt = toWindowDate(collectionData.publishAt) ?? null
+    const unpublishAt = toWindowDate(collectionData.unpublishAt) ?? null
+
+    const collection = await prisma.collection.create({
+      data: {
+        name: collectionData.name,
+        slug,
+        description: collectionData.description,
+        metaTitle: collectionData.metaTitle,
+        metaDescription: collectionData.metaDescription,
+        image: collectionData.image,
+        imageAlt: collectionData.imageAlt,
+        featured: collectionData.featured ?? false,
+        sortOrder: collectionData.sortOrder ?? 0,
+        publishAt,
+        unpublishAt,
+        // The scheduler flips this as the window opens and closes
+        published: isWithinPublishWindow({ publishAt, unpublishAt })
+      }
+    })
+
+    await invalidateCatalog({ type: 'collection', collectionId: collection.id })
+
+    const response: ShopApiResponse<Collection> = {
+      success: true,
+      data: collection as Collection,
+      message: 'Collection created successfully'
+    }
+
+    return successResponse(res, response.data, 201)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error creating collection:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to create collection', 500)
+  }
+}
+
+// PUT /api/shop/collections/[id] - Update a collection or its publish window
+async function updateCollection(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // PUT requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    if (!(await isAdminRequest(req))) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+    const collectionData = req.body as CollectionUpdateInput
+
+    const existingCollection = await prisma.collection.findUnique({
+      where: { id: id as string }
+    })
+
+    if (!existingCollection) {
+      return errorResponse(res, 'Collection not found', 404)
+    }
+
+    // Fields left out of the request keep their stored values, so a new
+    // bound is checked against the other stored one
+    const validation = validateCollectionData({
+      name: existingCollection.name,
+      publishAt: existingCollection.publishAt,
+      unpublishAt: existingCollection.unpublishAt,
+      ...collectionData
+    })
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid collection data', 400, validation.errors)
+    }
+
+    const slug = collectionData.slug ?? (
+      collectionData.name && collectionData.name !== existingCollection.name
+        ? generateSlug(collectionData.name)
+        : existingCollection.slug
+    )
+
+    const conflict = await prisma.collection.findFirst({
+      where: {
+        id: { not: existingCollection.id },
+        OR: [
+          { slug },
+          ...(collectionData.name ? [{ name: collectionData.name }] : [])
+        ]
+      }
+    })
+
+    if (conflict) {
+      return errorResponse(res, 'Collection with this name or slug already exists', 400)
+    }
+
+    const publishAt = toWindowDate(collectionData.publishAt)
+    const unpublishAt = toWindowDate(collectionData.unpublishAt)
+    const published = isWithinPublishWindow({
+      publishAt: publishAt === undefined ? existingCollection.publishAt : publishAt,
+      unpublishAt: unpublishAt === undefined ? existingCollection.unpublishAt : unpublishAt
+    })
+
+    const collection = await prisma.collection.update({
+      where: { id: existingCollection.id },
+      data: {
+        name: collectionData.name,
+        slug,
+        description: collectionData.description,
+        metaTitle: collectionData.metaTitle,
+        metaDescription: collectionData.metaDescription,
+        image: collectionData.image,
+        imageAlt: collectionData.imageAlt,
+        featured: collectionData.featured,
+        sortOrder: collectionData.sortOrder,
+        publishAt,
+        unpublishAt,
+        published
+      }
+    })
+
+    if (published !== existingCollection.published) {
+      await invalidateCollectionVisibility(collection.id)
+    } else {
+      await invalidateCatalog({ type: 'collection', collectionId: collection.id })
+    }
+
+    const response: ShopApiResponse<Collection> = {
+      success: true,
+      data: collection as Collection,
+      message: 'Collection updated successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error updating collection:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to update collection', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getCollections,
+  POST: createCollection
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getCollections,
+  getCollection,
+  createCollection,
+  updateCollection
+}
\ No newline at end of file
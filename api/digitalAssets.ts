@@ -0,0 +1,223 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { DigitalAsset, DigitalAssetInput, ShopApiResponse } from '../src/types'
+import { validateDigitalAssetData } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+
+// GET /api/shop/products/[id]/assets - List a product's downloadable files
+async function getDigitalAssets(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+
+    const assets = await prisma.digitalAsset.findMany({
+      where: { productId: id as string },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    })
+
+    const response: ShopApiResponse<DigitalAsset[]> = {
+      success: true,
+      data: assets as DigitalAsset[]
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching digital assets:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch digital assets', 500)
+  }
+}
+
+// POST /api/shop/products/[id]/assets - Attach a downloadable file to a
+// product or one of its variants
+async function createDigitalAsset(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+    const assetData = req.body as DigitalAssetInput
+
+    const validation = validateDigitalAssetData(assetData)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid asset data', 400, validation.errors)
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      include: { variants: { select: { id: true } } }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    if (assetData.variantId && !product.variants.some((variant: { id: string }) => variant.id === assetData.variantId)) {
+      return errorResponse(res, 'Variant not found', 400)
+    }
+
+    const asset = await prisma.digitalAsset.create({
+      data: {
+        name: assetData.name,
+        fileName: assetData.fileName,
+        storageKey: assetData.storageKey,
+        mimeType: assetData.mimeType,
+        fileSize: assetData.fileSize,
+        productId: product.id,
+        variantId: assetData.variantId
+      }
+    })
+
+    const response: ShopApiResponse<DigitalAsset> = {
+      success: true,
+      data: asset as DigitalAsset,
+      message: 'Digital asset added successfully'
+    }
+
+    return successResponse(res, response.data, 201)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error creating digital asset:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to create digital asset', 500)
+  }
+}
+
+// DELETE /api/shop/products/[id]/assets/[assetId] - Remove a downloadable file.
+// Links already issued for it stop working.
+async function deleteDigitalAsset(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 10 },
+    csrf: true, // DELETE requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id, assetId } = req.query
+
+    const asset = await prisma.digitalAsset.findFirst({
+      where: { id: assetId as string, productId: id as string }
+    })
+
+    if (!asset) {
+      return errorResponse(res, 'Digital asset not found', 404)
+    }
+
+    await prisma.digitalAsset.delete({
+      where: { id: asset.id }
+    })
+
+    const response: ShopApiResponse = {
+      success: true,
+      message: 'Digital asset deleted successfully'
+    }
+
+    return successResponse(res, response)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error deleting digital asset:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to delete digital asset', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getDigitalAssets,
+  POST: createDigitalAsset
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getDigitalAssets,
+  createDigitalAsset,
+  deleteDigitalAsset
+}
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { open, stat } from 'fs/promises'
+import { pipeline } from 'stream/promises'
+import path from 'path'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { OrderDownload, PaymentStatus, ShopApiResponse } from '../src/types'
+import { buildAttachmentDisposition } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import {
+  issueDownloadLinks,
+  verifyDownloadSignature,
+  consumeDownload
+} from '../src/services/downloads'
+
+// Resolve a local storage key, refusing paths that escape the asset directory
+function resolveAssetPath(storageKey: string): string | null {
+  const root = process.env.DIGITAL_ASSET_DIR
+  if (!root) {
+    return null
+  }
+  const baseDir = path.resolve(root)
+  const filePath = path.resolve(baseDir, storageKey)
+  return filePath.startsWith(baseDir + path.sep) ? filePath : null
+}
+
+// GET /api/shop/orders/[id]/downloads - Download links for a paid order
+async function getOrderDownloads(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 60 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+
+    const order = await prisma.order.findUnique({
+      where: { id: id as string },
+      select: { id: true, userId: true, paymentStatus: true }
+    })
+
+    // Customers only see their own orders
+    if (!order || (user.role !== 'admin' && order.userId !== user.id)) {
+      return errorResponse(res, 'Order not found', 404)
+    }
+
+    if (order.paymentStatus !== PaymentStatus.PAID) {
+      return errorResponse(res, 'Downloads are available once the order is paid', 400)
+    }
+
+    // Links are normally issued when payment completes; issuing here as well
+    // covers orders paid before their products had files attached
+    const downloads = await issueDownloadLinks(order.id)
+
+    const response: ShopApiResponse<OrderDownload[]> = {
+      success: true,
+      data: downloads
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching order downloads:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch order downloads', 500)
+  }
+}
+
+// GET /api/shop/downloads/[linkId]?expires=...&signature=... - Download a file
+// through a signed link. The signature authorises the request, so no session
+// is needed.
+async function downloadFile(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 30 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { linkId, expires, signature } = req.query
+    const expiresAt = parseInt(expires as string)
+
+    if (!linkId || !signature || isNaN(expiresAt)) {
+      return errorResponse(res, 'Invalid download link', 400)
+    }
+
+    if (!verifyDownloadSignature(linkId as string, expiresAt, signature as string)) {
+      return errorResponse(res, 'Invalid download link', 403)
+    }
+
+    if (expiresAt * 1000 <= Date.now()) {
+      return errorResponse(res, 'Download link has expired', 410)
+    }
+
+    const link = await prisma.downloadLink.findUnique({
+      where: { id: linkId as string },
+      include: { asset: true }
+    })
+
+    if (!link) {
+      return errorResponse(res, 'Download not found', 404)
+    }
+
+    const isRemote = /^https?:\/\//.test(link.asset.storageKey)
+    const filePath = isRemote ? null : resolveAssetPath(link.asset.storageKey)
+    const fileStats = filePath ? await stat(filePath).catch(() => null) : null
+
+    // Check the file is there before using up one of the customer's downloads
+    if (!isRemote && !fileStats?.isFile()) {
+      console.error('Digital asset file is missing:', {
+        timestamp: new Date().toISOString(),
+        assetId: link.asset.id
+      })
+      return errorResponse(res, 'File is not available', 404)
+    }
+
+    // Open before counting the download, so an unreadable file still gets an
+    // error response
+    const file = filePath ? await open(filePath, 'r') : null
+
+    if (!await consumeDownload(link.id)) {
+      await file?.close()
+      return errorResponse(res, 'Download limit reached or link expired', 410)
+    }
+
+    res.setHeader('Cache-Control', 'private, no-store')
+
+    if (!file) {
+      return res.redirect(302, link.asset.storageKey)
+    }
+
+    res.setHeader('Content-Type', link.asset.mimeType || 'application/octet-stream')
+    res.setHeader('Content-Length', fileStats!.size)
+    res.setHeader('Content-Disposition', buildAttachmentDisposition(link.asset.fileName))
+    res.status(200)
+
+    try {
+      await pipeline(file.createReadStream(), res)
+    } catch (error) {
+      // The headers are already sent, so the client only sees the response
+      // cut short; pipeline has closed both the file and the response
+      console.error('Error streaming download:', {
+        timestamp: new Date().toISOString(),
+        assetId: link.asset.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error downloading file:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to download file', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: downloadFile
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getOrderDownloads,
+  downloadFile
+}
\ No newline at end of file
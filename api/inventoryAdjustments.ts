@@ -0,0 +1,7 @@
+import { createApiHandler } from '@freedompress/core'
+import { createInventoryAdjustment } from './inventoryMovements'
+
+// Handler for /api/shop/inventory/adjustments
+export default createApiHandler({
+  POST: createInventoryAdjustment
+})
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { InventoryLevel, InventoryLevelInput, InventoryMovementReason, ShopApiResponse } from '../src/types'
+import { ADJUSTABLE_MOVEMENT_REASONS } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { setInventoryLevels } from '../src/services/inventory'
+
+// Levels with their location, grouped by variant then in fulfillment order
+async function loadProductInventory(productId: string): Promise<InventoryLevel[]> {
+  return prisma.inventoryLevel.findMany({
+    where: { productId },
+    include: { location: true },
+    orderBy: [
+      { variantId: 'asc' },
+      { location: { fulfillmentPriority: 'asc' } }
+    ]
+  })
+}
+
+// GET /api/shop/products/[id]/inventory - Stock of a product and its
+// variants at each location (admin)
+async function getProductInventory(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      select: { id: true }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    const response: ShopApiResponse<InventoryLevel[]> = {
+      success: true,
+      data: await loadProductInventory(product.id)
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching product inventory:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch product inventory', 500)
+  }
+}
+
+// PUT /api/shop/products/[id]/inventory - Set stock at locations (admin).
+// Body: { levels: [{ variantId?, locationId, quantity }], reason?, note? }.
+// Once an item has stock at any location, its quantity is the sum of its
+// sellable locations. Changes are recorded in the inventory ledger as count
+// corrections unless `reason` says otherwise.
+async function setProductInventory(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 30 },
+    csrf: true, // PUT requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+    const { levels, reason, note } = req.body as {
+      levels: InventoryLevelInput[]
+      reason?: InventoryMovementReason
+      note?: string
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      select: {
+        id: true,
+        variants: {
+          select: { id: true }
+        }
+      }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    if (!Array.isArray(levels) || levels.length === 0) {
+      return errorResponse(res, 'Invalid inventory data', 400, ['levels must be a non-empty list'])
+    }
+
+    const variantIds = new Set(product.variants.map((variant: { id: string }) => variant.id))
+    const locations = await prisma.inventoryLocation.findMany({
+      where: { id: { in: levels.map(level => level.locationId) } },
+      select: { id: true }
+    })
+    const locationIds = new Set(locations.map((location: { id: string }) => location.id))
+
+    const errors: string[] = []
+    levels.forEach((level, index) => {
+      if (!Number.isInteger(level.quantity) || level.quantity < 0) {
+        errors.push(`levels[${index}]: quantity must be a non-negative integer`)
+      }
+      if (!locationIds.has(level.locationId)) {
+        errors.push(`levels[${index}]: location not found`)
+      }
+      if (level.variantId && !variantIds.has(level.variantId)) {
+        errors.push(`levels[${index}]: variant does not belong to this product`)
+      }
+    })
+
+    if (reason !== undefined && !ADJUSTABLE_MOVEMENT_REASONS.includes(reason)) {
+      errors.push(`reason must be one of: ${ADJUSTABLE_MOVEMENT_REASONS.join(', ')}`)
+    }
+
+    if (errors.length > 0) {
+      return errorResponse(res, 'Invalid inventory data', 400, errors)
+    }
+
+    await setInventoryLevels(product.id, levels, { reason, note, userId: user.id })
+
+    const response: ShopApiResponse<InventoryLevel[]> = {
+      success: true,
+      data: await loadProductInventory(product.id),
+      message: 'Inventory updated successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error updating product inventory:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to update product inventory', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getProductInventory,
+  PUT: setProductInventory
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getProductInventory,
+  setProductInventory
+}
\ No newline at end of file
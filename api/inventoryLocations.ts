@@ -0,0 +1,278 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  InventoryLocation,
+  InventoryLocationInput,
+  InventoryLocationType,
+  InventoryLocationUpdateInput,
+  ShopApiResponse
+} from '../src/types'
+import { validateInventoryLocationData } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { refreshStockTotals } from '../src/services/inventory'
+
+// Country codes are stored upper case
+function normalizeShipsTo(shipsTo: string[] | null | undefined) {
+  return shipsTo ? shipsTo.map(code => code.toUpperCase()) : shipsTo
+}
+
+// GET /api/shop/inventory/locations - List stock locations in fulfillment order (admin)
+async function getInventoryLocations(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const locations = await prisma.inventoryLocation.findMany({
+      orderBy: [
+        { fulfillmentPriority: 'asc' },
+        { name: 'asc' }
+      ]
+    })
+
+    const response: ShopApiResponse<InventoryLocation[]> = {
+      success: true,
+      data: locations as InventoryLocation[]
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching inventory locations:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch inventory locations', 500)
+  }
+}
+
+// POST /api/shop/inventory/locations - Create a stock location (admin)
+async function createInventoryLocation(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const locationData = req.body as InventoryLocationInput
+
+    // Validate input
+    const validation = validateInventoryLocationData(locationData)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid location data', 400, validation.errors)
+    }
+
+    const existingLocation = await prisma.inventoryLocation.findFirst({
+      where: {
+        OR: [{ name: locationData.name }, { code: locationData.code }]
+      }
+    })
+
+    if (existingLocation) {
+      return errorResponse(res, 'Location with this name or code already exists', 400)
+    }
+
+    const location = await prisma.inventoryLocation.create({
+      data: {
+        name: locationData.name,
+        code: locationData.code,
+        type: locationData.type ?? InventoryLocationType.WAREHOUSE,
+        address1: locationData.address1,
+        city: locationData.city,
+        country: locationData.country,
+        active: locationData.active ?? true,
+        sellable: locationData.sellable ?? true,
+        fulfillmentPriority: locationData.fulfillmentPriority ?? 0,
+        shipsTo: normalizeShipsTo(locationData.shipsTo) ?? undefined
+      }
+    })
+
+    const response: ShopApiResponse<InventoryLocation> = {
+      success: true,
+      data: location as InventoryLocation,
+      message: 'Location created successfully'
+    }
+
+    return successResponse(res, response.data, 201)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error creating inventory location:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to create inventory location', 500)
+  }
+}
+
+// PUT /api/shop/inventory/locations/[id] - Update a stock location (admin).
+// Activating, deactivating or changing whether a location is sellable
+// updates the stock totals of everything held there.
+async function updateInventoryLocation(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // PUT requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+    const locationData = req.body as InventoryLocationUpdateInput
+
+    const existingLocation = await prisma.inventoryLocation.findUnique({
+      where: { id: id as string }
+    })
+
+    if (!existingLocation) {
+      return errorResponse(res, 'Location not found', 404)
+    }
+
+    // Validate input
+    const validation = validateInventoryLocationData(locationData, true)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid location data', 400, validation.errors)
+    }
+
+    if (locationData.name || locationData.code) {
+      const conflict = await prisma.inventoryLocation.findFirst({
+        where: {
+          NOT: { id: existingLocation.id },
+          OR: [
+            ...(locationData.name ? [{ name: locationData.name }] : []),
+            ...(locationData.code ? [{ code: locationData.code }] : [])
+          ]
+        }
+      })
+
+      if (conflict) {
+        return errorResponse(res, 'Location with this name or code already exists', 400)
+      }
+    }
+
+    const location = await prisma.inventoryLocation.update({
+      where: { id: existingLocation.id },
+      data: {
+        name: locationData.name,
+        code: locationData.code,
+        type: locationData.type,
+        address1: locationData.address1,
+        city: locationData.city,
+        country: locationData.country,
+        active: locationData.active,
+        sellable: locationData.sellable,
+        fulfillmentPriority: locationData.fulfillmentPriority,
+        shipsTo: locationData.shipsTo === null ? Prisma.DbNull : normalizeShipsTo(locationData.shipsTo)
+      }
+    })
+
+    if (location.active !== existingLocation.active || location.sellable !== existingLocation.sellable) {
+      const levels = await prisma.inventoryLevel.findMany({
+        where: { locationId: location.id },
+        select: { productId: true }
+      })
+      await refreshStockTotals(levels.map((level: { productId: string }) => level.productId))
+    }
+
+    const response: ShopApiResponse<InventoryLocation> = {
+      success: true,
+      data: location as InventoryLocation,
+      message: 'Location updated successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error updating inventory location:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to update inventory location', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getInventoryLocations,
+  POST: createInventoryLocation
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getInventoryLocations,
+  createInventoryLocation,
+  updateInventoryLocation
+}
\ No newline at end of file
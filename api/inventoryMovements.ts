@@ -0,0 +1,267 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  InventoryAdjustmentInput,
+  InventoryMovement,
+  InventoryMovementQuery,
+  InventoryMovementReason,
+  PaginatedResponse,
+  ProductType,
+  ShopApiResponse
+} from '../src/types'
+import {
+  buildCursorPage,
+  buildCursorQuery,
+  CursorPayload,
+  decodeCursor,
+  validateInventoryAdjustment
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { adjustInventory } from '../src/services/inventory'
+
+// GET /api/shop/inventory/movements - Inventory ledger, newest first (admin).
+// Filter by `sku` for a per-SKU history, or by productId, variantId,
+// locationId and reason. Pages by cursor (`after` / `before`).
+async function getInventoryMovements(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const {
+      sku,
+      productId,
+      variantId,
+      locationId,
+      reason,
+      limit = 50,
+      after,
+      before
+    } = req.query as unknown as InventoryMovementQuery
+
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as unknown as string) || 50))
+
+    const where: any = {}
+    if (sku) {
+      where.sku = sku
+    }
+    if (productId) {
+      where.productId = productId
+    }
+    if (variantId) {
+      where.variantId = variantId
+    }
+    if (locationId) {
+      where.locationId = locationId
+    }
+    if (reason && Object.values(InventoryMovementReason).includes(reason)) {
+      where.reason = reason
+    }
+
+    const direction = before ? 'before' : 'after'
+    let cursor: CursorPayload | undefined
+    if (after || before) {
+      cursor = decodeCursor((before || after) as string, 'createdAt') ?? undefined
+      if (!cursor) {
+        return errorResponse(res, 'Invalid pagination cursor', 400)
+      }
+    }
+
+    const cursorQuery = buildCursorQuery('createdAt', 'desc', cursor, direction)
+    const rows = await prisma.inventoryMovement.findMany({
+      where: cursorQuery.where ? { AND: [where, cursorQuery.where] } : where,
+      include: {
+        location: {
+          select: { id: true, name: true, code: true }
+        }
+      },
+      orderBy: cursorQuery.orderBy,
+      take: limitNum + 1
+    })
+
+    const result = buildCursorPage(rows as InventoryMovement[], {
+      field: 'createdAt',
+      limit: limitNum,
+      direction,
+      hasCursor: Boolean(cursor)
+    })
+
+    const response: ShopApiResponse<PaginatedResponse<InventoryMovement>> = {
+      success: true,
+      data: result
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching inventory movements:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch inventory movements', 500)
+  }
+}
+
+// POST /api/shop/inventory/adjustments - Add or remove stock with a reason
+// (admin). Items stocked per location need `locationId`.
+async function createInventoryAdjustment(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 30 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const adjustment = req.body as InventoryAdjustmentInput
+
+    // Validate input
+    const validation = validateInventoryAdjustment(adjustment)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid adjustment', 400, validation.errors)
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: adjustment.productId },
+      select: {
+        id: true,
+        type: true,
+        trackQuantity: true,
+        quantity: true,
+        variants: {
+          where: { id: adjustment.variantId ?? '' },
+          select: { id: true, trackQuantity: true, quantity: true }
+        }
+      }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    if (product.type === ProductType.BUNDLE) {
+      return errorResponse(res, 'Bundle stock comes from its components; adjust those instead', 400)
+    }
+
+    const variant = product.variants[0]
+    if (adjustment.variantId && !variant) {
+      return errorResponse(res, 'Variant does not belong to this product', 400)
+    }
+
+    const item = variant || product
+    if (!item.trackQuantity) {
+      return errorResponse(res, 'This item does not track quantity', 400)
+    }
+
+    // Stock kept per location changes at a location; other items change in total
+    const levels = await prisma.inventoryLevel.findMany({
+      where: { productId: product.id, variantId: adjustment.variantId ?? null },
+      select: { locationId: true, quantity: true }
+    })
+    let balance = item.quantity
+
+    if (levels.length > 0) {
+      const level = levels.find((stored: { locationId: string }) => stored.locationId === adjustment.locationId)
+      if (!adjustment.locationId) {
+        return errorResponse(res, 'This item is stocked per location; locationId is required', 400)
+      }
+      if (!level) {
+        return errorResponse(res, 'This item has no stock record at that location', 400)
+      }
+      balance = level.quantity
+    } else if (adjustment.locationId) {
+      return errorResponse(res, 'This item is not stocked per location; set its locations through the product inventory first', 400)
+    }
+
+    if (balance + adjustment.quantity < 0) {
+      return errorResponse(res, `Only ${balance} in stock; the adjustment would leave a negative balance`, 400)
+    }
+
+    if (adjustment.orderId) {
+      const order = await prisma.order.findUnique({
+        where: { id: adjustment.orderId },
+        select: { id: true }
+      })
+      if (!order) {
+        return errorResponse(res, 'Order not found', 400)
+      }
+    }
+
+    const movement = await adjustInventory(adjustment, user.id)
+
+    const response: ShopApiResponse<InventoryMovement> = {
+      success: true,
+      data: movement as InventoryMovement,
+      message: 'Inventory adjusted successfully'
+    }
+
+    return successResponse(res, response.data, 201)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error adjusting inventory:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to adjust inventory', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getInventoryMovements
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getInventoryMovements,
+  createInventoryAdjustment
+}
\ No newline at end of file
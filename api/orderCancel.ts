@@ -0,0 +1,7 @@
+import { createApiHandler } from '@freedompress/core'
+import { cancelOrder } from './orders'
+
+// Handler for /api/shop/orders/[id]/cancel
+export default createApiHandler({
+  POST: cancelOrder
+})
\ No newline at end of file
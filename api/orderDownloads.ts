@@ -0,0 +1,7 @@
+import { createApiHandler } from '@freedompress/core'
+import { getOrderDownloads } from './downloads'
+
+// Handler for /api/shop/orders/[id]/downloads
+export default createApiHandler({
+  GET: getOrderDownloads
+})
\ No newline at end of file
@@ -0,0 +1,282 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  OrderQuery,
+  Order,
+  OrderStatus,
+  PaymentStatus,
+  ShopApiResponse,
+  PaginatedResponse
+} from '../src/types'
+import {
+  decodeCursor,
+  buildCursorQuery,
+  buildCursorPage,
+  buildOffsetPagination,
+  CursorPayload
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { cancelOrder as cancelPendingOrder } from '../src/services/orders'
+
+// Relations loaded for order listings
+const orderListInclude = {
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          slug: true
+        }
+      },
+      variant: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  }
+}
+
+// GET /api/shop/orders - List the current user's orders (all orders for admins)
+async function getOrders(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const {
+      page = 1,
+      limit = 20,
+      search,
+      status,
+      paymentStatus,
+      startDate,
+      endDate,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+      after,
+      before
+    } = req.query as unknown as OrderQuery
+
+    // Validate and sanitize pagination parameters
+    const pageNum = Math.max(1, parseInt(page as unknown as string) || 1)
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as unknown as string) || 20))
+    const skip = (pageNum - 1) * limitNum
+
+    // Build where clause; customers only ever see their own orders
+    const where: any = {}
+    if (user.role !== 'admin') {
+      where.userId = user.id
+    }
+
+    if (status && Object.values(OrderStatus).includes(status)) {
+      where.status = status
+    }
+
+    if (paymentStatus && Object.values(PaymentStatus).includes(paymentStatus)) {
+      where.paymentStatus = paymentStatus
+    }
+
+    if (search) {
+      where.OR = [
+        { orderNumber: { contains: search as string } },
+        { email: { contains: search as string } }
+      ]
+    }
+
+    if (startDate || endDate) {
+      where.createdAt = {}
+      if (startDate && !isNaN(Date.parse(startDate as unknown as string))) {
+        where.createdAt.gte = new Date(startDate as unknown as string)
+      }
+      if (endDate && !isNaN(Date.parse(endDate as unknown as string))) {
+        where.createdAt.lte = new Date(endDate as unknown as string)
+      }
+    }
+
+    // Build order clause with SQL injection protection
+    const allowedSortFields = ['orderNumber', 'createdAt', 'total']
+    const allowedSortOrders = ['asc', 'desc']
+
+    const safeSortBy = allowedSortFields.includes(sortBy as string) ? sortBy as string : 'createdAt'
+    const safeSortOrder = allowedSortOrders.includes(sortOrder as string) ? sortOrder as 'asc' | 'desc' : 'desc'
+
+    let orders: Order[]
+    let pagination: PaginatedResponse<Order>['pagination']
+
+    // Requests that pass `page` keep offset pagination; everything else pages
+    // by opaque cursor and skips the count query
+    const cursorMode = Boolean(after || before) || req.query.page === undefined
+
+    if (cursorMode) {
+      const direction = before ? 'before' : 'after'
+      let cursor: CursorPayload | undefined
+      if (after || before) {
+        cursor = decodeCursor((before || after) as string, safeSortBy) ?? undefined
+        if (!cursor) {
+          return errorResponse(res, 'Invalid pagination cursor', 400)
+        }
+      }
+
+      const cursorQuery = buildCursorQuery(safeSortBy, safeSortOrder, cursor, direction)
+      const rows = await prisma.order.findMany({
+        where: cursorQuery.where ? { AND: [where, cursorQuery.where] } : where,
+        include: orderListInclude,
+        orderBy: cursorQuery.orderBy,
+        take: limitNum + 1
+      })
+
+      const result = buildCursorPage(rows as Order[], {
+        field: safeSortBy,
+        limit: limitNum,
+        direction,
+        hasCursor: Boolean(cursor)
+      })
+      orders = result.data
+      pagination = result.pagination
+    } else {
+      const [rows, total] = await Promise.all([
+        prisma.order.findMany({
+          where,
+          include: orderListInclude,
+          orderBy: { [safeSortBy]: safeSortOrder },
+          skip,
+          take: limitNum
+        }),
+        prisma.order.count({ where })
+      ])
+
+      orders = rows as Order[]
+      pagination = buildOffsetPagination(pageNum, limitNum, total)
+    }
+
+    const response: ShopApiResponse<PaginatedResponse<Order>> = {
+      success: true,
+      data: {
+        data: orders,
+        pagination
+      }
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching orders:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch orders', 500)
+  }
+}
+
+// POST /api/shop/orders/[id]/cancel - Cancel an unpaid order and release its
+// held stock. Customers can cancel their own orders; admins any.
+async function cancelOrder(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+
+    if (!id || typeof id !== 'string') {
+      return errorResponse(res, 'Invalid order ID', 400)
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: { id: true, userId: true, status: true, paymentStatus: true }
+    })
+
+    // Other customers' orders look the same as missing ones
+    if (!order || (user.role !== 'admin' && order.userId !== user.id)) {
+      return errorResponse(res, 'Order not found', 404)
+    }
+
+    if (order.paymentStatus === PaymentStatus.PAID || order.status !== OrderStatus.PENDING) {
+      return errorResponse(res, 'Only unpaid pending orders can be cancelled', 409)
+    }
+
+    const released = await cancelPendingOrder(order.id)
+
+    const response: ShopApiResponse<{ id: string; status: OrderStatus; releasedReservations: number }> = {
+      success: true,
+      data: { id: order.id, status: OrderStatus.CANCELLED, releasedReservations: released },
+      message: 'Order cancelled successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error cancelling order:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to cancel order', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getOrders
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getOrders,
+  cancelOrder
+}
\ No newline at end of file
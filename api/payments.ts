@@ -0,0 +1,103 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { FulfillmentAllocation, OrderStatus, PaymentStatus, ShopApiResponse } from '../src/types'
+import { withSecurity } from '../src/middleware/security'
+import { confirmOrderPayment, recordPaymentFailure } from '../src/services/orders'
+
+// Payment results an admin can record
+const RECORDABLE_PAYMENT_STATUSES = [PaymentStatus.PAID, PaymentStatus.FAILED]
+
+// POST /api/shop/payments - Record the payment result of an order (admin),
+// e.g. for offline payments. PAID takes the order out of stock and issues
+// its downloads; FAILED leaves the stock hold to expire.
+async function recordPayment(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 30 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { orderId, status, paymentId } = req.body as { orderId?: string; status?: PaymentStatus; paymentId?: string }
+
+    if (!orderId || typeof orderId !== 'string') {
+      return errorResponse(res, 'Order ID is required', 400)
+    }
+
+    if (!status || !RECORDABLE_PAYMENT_STATUSES.includes(status)) {
+      return errorResponse(res, `Status must be one of: ${RECORDABLE_PAYMENT_STATUSES.join(', ')}`, 400)
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, status: true, paymentStatus: true }
+    })
+
+    if (!order) {
+      return errorResponse(res, 'Order not found', 404)
+    }
+
+    if (order.status === OrderStatus.CANCELLED) {
+      return errorResponse(res, 'Order has been cancelled', 409)
+    }
+
+    let allocations: FulfillmentAllocation[] = []
+    if (status === PaymentStatus.PAID) {
+      allocations = await confirmOrderPayment(order.id, paymentId)
+    } else if (order.paymentStatus === PaymentStatus.PAID) {
+      return errorResponse(res, 'Order has already been paid', 409)
+    } else {
+      await recordPaymentFailure(order.id, paymentId)
+    }
+
+    const response: ShopApiResponse<{ orderId: string; paymentStatus: PaymentStatus; allocations: FulfillmentAllocation[] }> = {
+      success: true,
+      data: { orderId: order.id, paymentStatus: status, allocations },
+      message: 'Payment recorded successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error recording payment:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to record payment', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  POST: recordPayment
+})
+
+// Export individual handlers for dynamic routes
+export {
+  recordPayment
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { Product, ProductImportRow, ProductStatus, ShopApiResponse } from '../src/types'
+import {
+  productToImportRow,
+  importRowsToCSVRecords,
+  toCSV,
+  PRODUCT_CSV_COLUMNS
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+
+// GET /api/shop/products/export - Export the catalog in the import format
+async function exportProducts(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 5 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { format = 'csv', status } = req.query
+
+    if (format !== 'csv' && format !== 'json') {
+      return errorResponse(res, 'Export format must be "csv" or "json"', 400)
+    }
+
+    const where: any = { deletedAt: null }
+    if (status && Object.values(ProductStatus).includes(status as ProductStatus)) {
+      where.status = status
+    }
+
+    const products = await prisma.product.findMany({
+      where,
+      include: {
+        category: {
+          select: {
+            slug: true
+          }
+        },
+        collections: {
+          include: {
+            collection: {
+              select: {
+                slug: true
+              }
+            }
+          }
+        },
+        tags: {
+          include: {
+            tag: {
+              select: {
+                name: true
+              }
+            }
+          }
+        },
+        images: {
+          orderBy: {
+            position: 'asc'
+          }
+        },
+        variants: {
+          orderBy: {
+            createdAt: 'asc'
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    })
+
+    const rows = (products as Product[]).map(productToImportRow)
+
+    if (format === 'json') {
+      const response: ShopApiResponse<ProductImportRow[]> = {
+        success: true,
+        data: rows
+      }
+
+      return successResponse(res, response.data)
+    }
+
+    const csv = toCSV(importRowsToCSVRecords(rows), PRODUCT_CSV_COLUMNS)
+    const filename = `products-${new Date().toISOString().slice(0, 10)}.csv`
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+    return res.status(200).send(csv)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error exporting products:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to export products', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: exportProducts
+})
+
+export {
+  exportProducts
+}
\ No newline at end of file
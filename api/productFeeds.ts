@@ -0,0 +1,144 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import { ProductFeedChannel, ProductFeedReport, ShopApiResponse } from '../src/types'
+import {
+  buildProductFeed,
+  feedItemsToCSVRecords,
+  toCSV,
+  toGoogleMerchantTSV,
+  toGoogleMerchantXML,
+  META_CATALOG_CSV_COLUMNS,
+  PRODUCT_FEED_CHANNELS
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { getProductFeedOptions, loadFeedProducts, verifyFeedToken } from '../src/services/productFeeds'
+import { getStorefrontUrl } from '../src/services/settings'
+
+// Formats each channel can be fetched in; the first is the default
+const FEED_FORMATS: Record<ProductFeedChannel, string[]> = {
+  google: ['xml', 'tsv'],
+  meta: ['csv']
+}
+
+const FEED_CONTENT_TYPES: Record<string, string> = {
+  xml: 'application/xml; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  csv: 'text/csv; charset=utf-8'
+}
+
+// GET /api/shop/feeds/[channel] - Google Merchant (XML or TSV) or Meta
+// catalog (CSV) feed of live products. Admins, or channels passing the
+// shop_feed_token setting as `token`. `report=true` returns the items left
+// out for missing required fields instead of the feed.
+async function getProductFeed(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 10 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { channel, format, report, token } = req.query
+
+    if (token) {
+      if (!(await verifyFeedToken(token as string))) {
+        return errorResponse(res, 'Unauthorized', 401)
+      }
+    } else {
+      const session = await getSession({ req })
+      if (!session?.user) {
+        return errorResponse(res, 'Unauthorized', 401)
+      }
+
+      // Get user from database to verify role (don't trust client session)
+      const user = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { id: true, role: true }
+      })
+
+      if (!user || user.role !== 'admin') {
+        return errorResponse(res, 'Unauthorized', 401)
+      }
+    }
+
+    if (!PRODUCT_FEED_CHANNELS.includes(channel as ProductFeedChannel)) {
+      return errorResponse(res, `Feed channel must be one of: ${PRODUCT_FEED_CHANNELS.join(', ')}`, 400)
+    }
+
+    const feedChannel = channel as ProductFeedChannel
+    const formats = FEED_FORMATS[feedChannel]
+    const feedFormat = (format as string) || formats[0]
+
+    if (!formats.includes(feedFormat)) {
+      return errorResponse(res, `The ${feedChannel} feed format must be one of: ${formats.join(', ')}`, 400)
+    }
+
+    const options = await getProductFeedOptions(await getStorefrontUrl(req))
+    const products = await loadFeedProducts()
+    const { items, issues } = buildProductFeed(products, feedChannel, options)
+
+    if (report === 'true') {
+      const response: ShopApiResponse<ProductFeedReport> = {
+        success: true,
+        data: {
+          channel: feedChannel,
+          total: items.length + issues.length,
+          included: items.length,
+          skipped: issues.length,
+          issues
+        }
+      }
+
+      return successResponse(res, response.data)
+    }
+
+    let body: string
+    if (feedFormat === 'xml') {
+      body = toGoogleMerchantXML(items, {
+        title: options.brand || 'Products',
+        link: options.baseUrl,
+        description: 'Product feed'
+      })
+    } else if (feedFormat === 'tsv') {
+      body = toGoogleMerchantTSV(items)
+    } else {
+      body = toCSV(feedItemsToCSVRecords(items), META_CATALOG_CSV_COLUMNS)
+    }
+
+    const filename = `${feedChannel}-feed-${new Date().toISOString().slice(0, 10)}.${feedFormat}`
+
+    res.setHeader('Content-Type', FEED_CONTENT_TYPES[feedFormat])
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`)
+    res.setHeader('Cache-Control', 'private, no-store')
+    // Items left out for missing required fields; see report=true for details
+    res.setHeader('X-Feed-Skipped-Items', String(issues.length))
+    return res.status(200).send(body)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error building product feed:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to build product feed', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getProductFeed
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getProductFeed
+}
\ No newline at end of file
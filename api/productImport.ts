@@ -0,0 +1,488 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  ProductImportRequest,
+  ProductImportRow,
+  ProductImportRowResult,
+  ProductImportResult,
+  ShopApiResponse,
+  ProductStatus,
+  ProductRevisionAction,
+  InventoryMovementReason
+} from '../src/types'
+import {
+  generateSlug,
+  validateProductData,
+  parseCSV,
+  csvRecordsToImportRows,
+  importRowToProductInput,
+  toWindowDate
+} from '../src/utils'
+import { withSecurity, sanitizeInput } from '../src/middleware/security'
+import { indexProduct } from '../src/services/productSearch'
+import { recordProductRevision } from '../src/services/productRevisions'
+import { syncProductCollections } from '../src/services/smartCollections'
+import { recordSlugChange } from '../src/services/slugHistory'
+import { invalidateCatalog } from '../src/services/catalogCache'
+import { syncStockTotals } from '../src/services/inventory'
+import { captureStock, recordStockChanges } from '../src/services/inventoryMovements'
+import { findBundlesUsingVariants, syncBundlesContaining } from '../src/services/bundles'
+import { buildVariantCreateData, buildVariantUpdateData } from './variants'
+
+// Catalog files are larger than the default 1mb body limit
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '10mb'
+    }
+  }
+}
+
+const MAX_IMPORT_ROWS = 5000
+
+// Lookup caches shared across the rows of one import
+interface ImportLookups {
+  categories: Map<string, string | null>
+  collections: Map<string, string | null>
+  tags: Map<string, string>
+}
+
+async function findCategoryId(slug: string, lookups: ImportLookups): Promise<string | null> {
+  if (!lookups.categories.has(slug)) {
+    const category = await prisma.category.findUnique({
+      where: { slug },
+      select: { id: true }
+    })
+    lookups.categories.set(slug, category?.id ?? null)
+  }
+  return lookups.categories.get(slug) ?? null
+}
+
+async function findCollectionId(slug: string, lookups: ImportLookups): Promise<string | null> {
+  if (!lookups.collections.has(slug)) {
+    const collection = await prisma.collection.findUnique({
+      where: { slug },
+      select: { id: true }
+    })
+    lookups.collections.set(slug, collection?.id ?? null)
+  }
+  return lookups.collections.get(slug) ?? null
+}
+
+// Tags are matched by slug and created on the fly when missing
+async function resolveTagId(name: string, lookups: ImportLookups): Promise<string> {
+  const slug = generateSlug(name)
+  const cached = lookups.tags.get(slug)
+  if (cached) {
+    return cached
+  }
+
+  const tag = await prisma.tag.upsert({
+    where: { slug },
+    update: {},
+    create: { name, slug },
+    select: { id: true }
+  })
+  lookups.tags.set(slug, tag.id)
+  return tag.id
+}
+
+// Message for a row whose write failed. Constraint failures the checks in
+// importRow can miss (e.g. a concurrent edit) are explained; anything else
+// is logged here and reported generically, since its text is internal.
+function describeRowError(error: unknown, row: number): string {
+  const { code, meta } = (error ?? {}) as { code?: string; meta?: { target?: unknown; field_name?: unknown } }
+  const target = String(meta?.target ?? meta?.field_name ?? '')
+
+  if (code === 'P2002' && target.includes('slug')) {
+    return 'Slug is already used by another product'
+  }
+  if (code === 'P2002' && target.includes('sku')) {
+    return 'SKU is already used by another product or variant'
+  }
+  if (code === 'P2003' && target.includes('category')) {
+    return 'Category no longer exists'
+  }
+  if (code === 'P2003') {
+    return 'A collection or tag in this row no longer exists'
+  }
+  if (code === 'P2025') {
+    return 'Product was deleted while the import was running'
+  }
+
+  console.error('Error importing product row:', {
+    timestamp: new Date().toISOString(),
+    row,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+  })
+  return 'Failed to import row'
+}
+
+// Validate a row and write it, unless this is a dry run. Rows upsert by SKU,
+// or by slug for products without one. Empty cells leave stored values as
+// they are.
+async function importRow(
+  row: number,
+  data: ProductImportRow,
+  parseErrors: string[],
+  seenKeys: Set<string>,
+  lookups: ImportLookups,
+  dryRun: boolean,
+  userId: string
+): Promise<ProductImportRowResult> {
+  const errors = [...parseErrors]
+  const sku = data.sku || undefined
+  const key = sku ? `sku:${sku}` : data.slug ? `slug:${data.slug}` : undefined
+
+  if (!key) {
+    errors.push('SKU or slug is required for import')
+  } else if (seenKeys.has(key)) {
+    errors.push(`${sku ? 'SKU' : 'Slug'} appears more than once in this import`)
+  } else {
+    seenKeys.add(key)
+  }
+
+  const existingProduct = key ? await prisma.product.findUnique({
+    where: sku ? { sku } : { slug: data.slug },
+    include: { variants: { select: { id: true, sku: true } } }
+  }) : null
+
+  const name = data.name || existingProduct?.name || ''
+  const validation = validateProductData({
+    ...importRowToProductInput(data),
+    name,
+    description: data.description || existingProduct?.description || '',
+    price: data.price ?? existingProduct?.price
+  })
+  errors.push(...validation.errors)
+
+  if (errors.length > 0 || !key) {
+    return { row, sku, action: 'error', errors }
+  }
+
+  // Resolve relations referenced by slug
+  let categoryId: string | undefined
+  if (data.category) {
+    categoryId = await findCategoryId(data.category, lookups) ?? undefined
+    if (!categoryId) {
+      errors.push(`Category "${data.category}" does not exist`)
+    }
+  }
+
+  const collectionIds: string[] = []
+  for (const collectionSlug of data.collections || []) {
+    const collectionId = await findCollectionId(collectionSlug, lookups)
+    if (collectionId) {
+      collectionIds.push(collectionId)
+    } else {
+      errors.push(`Collection "${collectionSlug}" does not exist`)
+    }
+  }
+
+  if (existingProduct?.deletedAt) {
+    errors.push(`Product with this ${sku ? 'SKU' : 'slug'} is archived; restore it before importing`)
+  }
+
+  // Keep the stored slug unless the row sets one
+  const slug = data.slug || existingProduct?.slug || generateSlug(name)
+  const slugOwner = await prisma.product.findUnique({
+    where: { slug },
+    select: { id: true }
+  })
+  if (slugOwner && slugOwner.id !== existingProduct?.id) {
+    errors.push(`Slug "${slug}" is already used by another product`)
+  }
+
+  // Variant SKUs are unique across the whole catalog
+  const variantSkus = (data.variants || [])
+    .map(variant => variant.sku)
+    .filter((variantSku): variantSku is string => Boolean(variantSku))
+  if (variantSkus.length > 0) {
+    const takenVariants = await prisma.productVariant.findMany({
+      where: {
+        sku: { in: variantSkus },
+        ...(existingProduct ? { productId: { not: existingProduct.id } } : {})
+      },
+      select: { sku: true }
+    })
+    takenVariants.forEach((variant: { sku: string }) => {
+      errors.push(`Variant SKU "${variant.sku}" is already used by another product`)
+    })
+  }
+
+  // Stored variants the row leaves out are deleted, unless a bundle uses them
+  if (existingProduct && data.variants) {
+    const removedVariantIds = existingProduct.variants
+      .filter((stored: { id: string; sku?: string }) => !data.variants!.some(variant => variant.sku && variant.sku === stored.sku))
+      .map((stored: { id: string }) => stored.id)
+    if (removedVariantIds.length > 0) {
+      const bundles = await findBundlesUsingVariants({ id: { in: removedVariantIds } })
+      bundles.forEach(name => {
+        errors.push(`Variants left out of the row are components of bundle "${name}" and cannot be removed`)
+      })
+    }
+  }
+
+  const action = existingProduct ? 'update' : 'create'
+
+  if (errors.length > 0) {
+    return { row, sku, action: 'error', errors }
+  }
+
+  if (dryRun) {
+    return { row, sku, action, productId: existingProduct?.id, errors }
+  }
+
+  const tagIds: string[] = []
+  for (const tagName of data.tags || []) {
+    tagIds.push(await resolveTagId(tagName, lookups))
+  }
+
+  const productFields = {
+    name: data.name || undefined,
+    slug,
+    description: data.description || undefined,
+    shortDescription: data.shortDescription,
+    price: data.price,
+    comparePrice: data.comparePrice,
+    costPrice: data.costPrice,
+    sku,
+    barcode: data.barcode,
+    trackQuantity: data.trackQuantity,
+    quantity: data.quantity,
+    lowStockLevel: data.lowStockLevel,
+    backorderPolicy: data.backorderPolicy,
+    expectedShipDate: toWindowDate(data.expectedShipDate),
+    maxBackorderQuantity: data.maxBackorderQuantity,
+    status: data.status,
+    featured: data.featured,
+    metaTitle: data.metaTitle,
+    metaDescription: data.metaDescription,
+    metaKeywords: data.metaKeywords,
+    weight: data.weight,
+    length: data.length,
+    width: data.width,
+    height: data.height,
+    requiresShipping: data.requiresShipping,
+    categoryId
+  }
+
+  const images = data.images?.map((image, index) => ({
+    url: image.url,
+    altText: image.altText,
+    position: image.position ?? index
+  }))
+
+  if (!existingProduct) {
+    const product = await prisma.product.create({
+      data: {
+        ...productFields,
+        status: data.status ?? ProductStatus.ACTIVE,
+        hasVariants: (data.variants?.length ?? 0) > 0,
+        collections: {
+          create: collectionIds.map(collectionId => ({ collectionId }))
+        },
+        tags: {
+          create: tagIds.map(tagId => ({ tagId }))
+        },
+        images: {
+          create: images || []
+        },
+        variants: {
+          create: data.variants?.map(variant => buildVariantCreateData(variant, data)) || []
+        }
+      },
+      select: { id: true }
+    })
+
+    await recordStockChanges(product.id, new Map(), InventoryMovementReason.RESTOCK, { userId, note: 'Import' })
+    await recordSlugChange(product.id, null, slug)
+    await indexProduct(product.id)
+    await syncProductCollections(product.id)
+    await recordProductRevision(product.id, ProductRevisionAction.IMPORT, userId)
+    await invalidateCatalog({ type: 'product', productId: product.id })
+
+    return { row, sku, action, productId: product.id, errors }
+  }
+
+  // Match incoming variants to stored ones by SKU so they update in place
+  const variantInputs = data.variants?.map(variant => ({
+    ...variant,
+    id: existingProduct.variants.find(
+      (stored: { id: string; sku?: string }) => variant.sku && stored.sku === variant.sku
+    )?.id
+  }))
+  const keptVariantIds = variantInputs
+    ?.filter(variant => variant.id)
+    .map(variant => variant.id as string) || []
+
+  const stockBefore = await captureStock(existingProduct.id)
+  await prisma.product.update({
+    where: { id: existingProduct.id },
+    data: {
+      ...productFields,
+      version: { increment: 1 },
+      hasVariants: variantInputs ? variantInputs.length > 0 : undefined,
+      collections: data.collections ? {
+        deleteMany: {},
+        create: collectionIds.map(collectionId => ({ collectionId }))
+      } : undefined,
+      tags: data.tags ? {
+        deleteMany: {},
+        create: tagIds.map(tagId => ({ tagId }))
+      } : undefined,
+      images: images ? {
+        deleteMany: {},
+        create: images
+      } : undefined,
+      variants: variantInputs ? {
+        deleteMany: {
+          id: { notIn: keptVariantIds }
+        },
+        update: variantInputs
+          .filter(variant => variant.id)
+          .map(variant => ({
+            where: { id: variant.id as string },
+            data: buildVariantUpdateData(variant)
+          })),
+        create: variantInputs
+          .filter(variant => !variant.id)
+          .map(variant => buildVariantCreateData(variant, data))
+      } : undefined
+    }
+  })
+
+  // Stock kept per location overrides imported quantities
+  await syncStockTotals(existingProduct.id)
+  await recordStockChanges(existingProduct.id, stockBefore, InventoryMovementReason.MANUAL, { userId, note: 'Import' })
+  await syncBundlesContaining(existingProduct.id)
+  await recordSlugChange(existingProduct.id, existingProduct.slug, slug)
+  await indexProduct(existingProduct.id)
+  await syncProductCollections(existingProduct.id)
+  await recordProductRevision(existingProduct.id, ProductRevisionAction.IMPORT, userId)
+  await invalidateCatalog({ type: 'product', productId: existingProduct.id })
+
+  return { row, sku, action, productId: existingProduct.id, errors }
+}
+
+// POST /api/shop/products/import - Bulk upsert products by SKU from CSV or JSON
+async function importProducts(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection. Sanitization runs on the
+  // parsed rows instead, since escaping quotes would corrupt the CSV text.
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 5 },
+    csrf: true,
+    sanitizeInput: false,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { format, data, dryRun } = req.body as ProductImportRequest
+    const isDryRun = dryRun === true || req.query.dryRun === 'true'
+
+    let rows: Array<{ row: number; data: ProductImportRow; errors: string[] }>
+    if (format === 'csv' && typeof data === 'string') {
+      rows = csvRecordsToImportRows(parseCSV(data))
+    } else if (format === 'json' && Array.isArray(data)) {
+      rows = data.map((item, index) => ({ row: index + 1, data: item, errors: [] }))
+    } else {
+      return errorResponse(res, 'Import requires format "csv" with text data or "json" with an array of rows', 400)
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return errorResponse(res, `Imports are limited to ${MAX_IMPORT_ROWS} products per request`, 400)
+    }
+
+    const lookups: ImportLookups = {
+      categories: new Map(),
+      collections: new Map(),
+      tags: new Map()
+    }
+    const seenKeys = new Set<string>()
+    const results: ProductImportRowResult[] = []
+
+    // Rows are independent: a failing row is reported without aborting the batch
+    for (const { row, data: rowData, errors } of rows) {
+      if (!rowData || typeof rowData !== 'object' || Array.isArray(rowData)) {
+        results.push({ row, action: 'error', errors: ['Row must be an object of product fields'] })
+        continue
+      }
+
+      try {
+        results.push(await importRow(
+          row,
+          sanitizeInput(rowData),
+          errors,
+          seenKeys,
+          lookups,
+          isDryRun,
+          user.id
+        ))
+      } catch (error) {
+        results.push({
+          row,
+          sku: rowData.sku,
+          action: 'error',
+          errors: [describeRowError(error, row)]
+        })
+      }
+    }
+
+    const result: ProductImportResult = {
+      dryRun: isDryRun,
+      total: results.length,
+      created: results.filter(item => item.action === 'create').length,
+      updated: results.filter(item => item.action === 'update').length,
+      failed: results.filter(item => item.action === 'error').length,
+      rows: results
+    }
+
+    const response: ShopApiResponse<ProductImportResult> = {
+      success: true,
+      data: result,
+      message: isDryRun ? 'Import validated' : 'Import completed'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error importing products:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to import products', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  POST: importProducts
+})
+
+export {
+  importProducts
+}
\ No newline at end of file
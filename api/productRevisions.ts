@@ -0,0 +1,358 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  InventoryMovementReason,
+  ProductRevision,
+  ProductRevisionAction,
+  ProductRevisionChange,
+  ProductSnapshot,
+  ShopApiResponse
+} from '../src/types'
+import { diffProductSnapshots } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { indexProduct } from '../src/services/productSearch'
+import { recordProductRevision, restoreProductSnapshot } from '../src/services/productRevisions'
+import { syncProductCollections } from '../src/services/smartCollections'
+import { syncBundle, syncBundlesContaining, findBundlesUsingVariants } from '../src/services/bundles'
+import { recordSlugChange } from '../src/services/slugHistory'
+import { invalidateCatalog } from '../src/services/catalogCache'
+import { syncStockTotals } from '../src/services/inventory'
+import { captureStock, recordStockChanges } from '../src/services/inventoryMovements'
+
+const revisionUserSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true
+  }
+}
+
+// Resolve the session user and require the admin role
+async function getAdminUser(req: NextApiRequest) {
+  const session = await getSession({ req })
+  if (!session?.user) {
+    return null
+  }
+
+  // Get user from database to verify role (don't trust client session)
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, role: true }
+  })
+
+  return user && user.role === 'admin' ? user : null
+}
+
+// GET /api/shop/products/[id]/revisions - List a product's revisions, newest first
+async function getRevisions(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const user = await getAdminUser(req)
+    if (!user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id, limit = '50' } = req.query
+    const take = Math.min(Math.max(parseInt(limit as string) || 50, 1), 200)
+
+    // History outlives the product, so a missing product is not an error here
+    const revisions = await prisma.productRevision.findMany({
+      where: { productId: id as string },
+      select: {
+        id: true,
+        productId: true,
+        version: true,
+        action: true,
+        createdAt: true,
+        userId: true,
+        user: revisionUserSelect
+      },
+      orderBy: {
+        version: 'desc'
+      },
+      take
+    })
+
+    const response: ShopApiResponse<Array<Omit<ProductRevision, 'snapshot'>>> = {
+      success: true,
+      data: revisions
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching product revisions:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch product revisions', 500)
+  }
+}
+
+// GET /api/shop/products/[id]/revisions/[revisionId] - Get a revision and its
+// changes against the previous revision (or `?against=<revisionId>`)
+async function getRevision(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 100 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const user = await getAdminUser(req)
+    if (!user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id, revisionId, against } = req.query
+
+    const revision = await prisma.productRevision.findFirst({
+      where: { id: revisionId as string, productId: id as string },
+      include: { user: revisionUserSelect }
+    })
+
+    if (!revision) {
+      return errorResponse(res, 'Revision not found', 404)
+    }
+
+    const baseline = against
+      ? await prisma.productRevision.findFirst({
+        where: { id: against as string, productId: id as string }
+      })
+      : await prisma.productRevision.findFirst({
+        where: { productId: id as string, version: { lt: revision.version } },
+        orderBy: { version: 'desc' }
+      })
+
+    if (against && !baseline) {
+      return errorResponse(res, 'Comparison revision not found', 404)
+    }
+
+    const changes = diffProductSnapshots(
+      baseline ? baseline.snapshot as ProductSnapshot : null,
+      revision.snapshot as ProductSnapshot
+    )
+
+    const response: ShopApiResponse<ProductRevision & { comparedTo?: string; changes: ProductRevisionChange[] }> = {
+      success: true,
+      data: {
+        ...revision,
+        comparedTo: baseline?.id,
+        changes
+      }
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching product revision:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch product revision', 500)
+  }
+}
+
+// POST /api/shop/products/[id]/revisions/[revisionId]/rollback - Restore a
+// product to the state captured by a revision
+async function rollbackRevision(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true,
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const user = await getAdminUser(req)
+    if (!user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id, revisionId } = req.query
+
+    const revision = await prisma.productRevision.findFirst({
+      where: { id: revisionId as string, productId: id as string }
+    })
+
+    if (!revision) {
+      return errorResponse(res, 'Revision not found', 404)
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      select: { id: true, slug: true, deletedAt: true }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    if (product.deletedAt) {
+      return errorResponse(res, 'Product is archived; restore it before rolling back', 400)
+    }
+
+    const snapshot = revision.snapshot as ProductSnapshot
+
+    // The slug and SKUs may have been taken by another product since
+    const conflicts: string[] = []
+    const slugOwner = await prisma.product.findUnique({
+      where: { slug: snapshot.slug },
+      select: { id: true }
+    })
+    if (slugOwner && slugOwner.id !== product.id) {
+      conflicts.push(`Slug "${snapshot.slug}" is now used by another product`)
+    }
+
+    if (snapshot.sku) {
+      const skuOwner = await prisma.product.findUnique({
+        where: { sku: snapshot.sku },
+        select: { id: true }
+      })
+      if (skuOwner && skuOwner.id !== product.id) {
+        conflicts.push(`SKU "${snapshot.sku}" is now used by another product`)
+      }
+    }
+
+    const variantSkus = snapshot.variants
+      .map(variant => variant.sku)
+      .filter((variantSku): variantSku is string => Boolean(variantSku))
+    if (variantSkus.length > 0) {
+      const takenVariants = await prisma.productVariant.findMany({
+        where: {
+          sku: { in: variantSkus },
+          productId: { not: product.id }
+        },
+        select: { sku: true }
+      })
+      takenVariants.forEach((variant: { sku: string }) => {
+        conflicts.push(`Variant SKU "${variant.sku}" is now used by another product`)
+      })
+    }
+
+    const componentIds = (snapshot.bundleItems || []).map(item => item.productId)
+    if (componentIds.length > 0) {
+      const components = await prisma.product.findMany({
+        where: { id: { in: componentIds } },
+        select: { id: true }
+      })
+      if (components.length < new Set(componentIds).size) {
+        conflicts.push('Some bundle components no longer exist')
+      }
+    }
+
+    if (conflicts.length > 0) {
+      return errorResponse(res, 'Revision cannot be restored', 400, conflicts)
+    }
+
+    // The category, tags and collections may have been deleted since
+    const [category, tags, collections] = await Promise.all([
+      snapshot.categoryId
+        ? prisma.category.findUnique({ where: { id: snapshot.categoryId }, select: { id: true } })
+        : null,
+      prisma.tag.findMany({ where: { id: { in: snapshot.tagIds } }, select: { id: true } }),
+      prisma.collection.findMany({ where: { id: { in: snapshot.collectionIds } }, select: { id: true } })
+    ])
+    const foundTagIds = new Set(tags.map((tag: { id: string }) => tag.id))
+    const foundCollectionIds = new Set(collections.map((collection: { id: string }) => collection.id))
+    const missing = [
+      ...(snapshot.categoryId && !category ? [`Category ${snapshot.categoryId} no longer exists`] : []),
+      ...snapshot.tagIds
+        .filter(tagId => !foundTagIds.has(tagId))
+        .map(tagId => `Tag ${tagId} no longer exists`),
+      ...snapshot.collectionIds
+        .filter(collectionId => !foundCollectionIds.has(collectionId))
+        .map(collectionId => `Collection ${collectionId} no longer exists`)
+    ]
+    if (missing.length > 0) {
+      return errorResponse(res, 'Revision cannot be restored: it references deleted records', 409, missing)
+    }
+
+    // Variants added since the revision are deleted by the rollback
+    const bundles = await findBundlesUsingVariants({
+      productId: product.id,
+      id: { notIn: snapshot.variants.map(variant => variant.id) }
+    })
+    if (bundles.length > 0) {
+      return errorResponse(
+        res,
+        'Revision cannot be restored: it removes variants that are components of a bundle',
+        409,
+        bundles.map(name => `Used by bundle "${name}"`)
+      )
+    }
+
+    const stockBefore = await captureStock(product.id)
+    await restoreProductSnapshot(product.id, snapshot)
+    // Stock kept per location is not rolled back
+    await syncStockTotals(product.id)
+    await recordStockChanges(product.id, stockBefore, InventoryMovementReason.MANUAL, {
+      userId: user.id,
+      note: `Rollback to version ${revision.version}`
+    })
+    await syncBundle(product.id)
+    await syncBundlesContaining(product.id)
+    await recordSlugChange(product.id, product.slug, snapshot.slug)
+    await indexProduct(product.id)
+    await syncProductCollections(product.id)
+    const rollback = await recordProductRevision(product.id, ProductRevisionAction.ROLLBACK, user.id)
+    await invalidateCatalog({ type: 'product', productId: product.id })
+
+    const response: ShopApiResponse<ProductRevision | null> = {
+      success: true,
+      data: rollback,
+      message: `Product restored to version ${revision.version}`
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error rolling back product revision:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to roll back product revision', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getRevisions
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getRevisions,
+  getRevision,
+  rollbackRevision
+}
\ No newline at end of file
@@ -7,12 +7,402 @@ import {
   ProductUpdateInput, 
   ProductQuery, 
   ShopApiResponse, 
-  PaginatedResponse, 
+  ProductListResponse,
+  ProductFacets,
+  ProductFacetName,
+  ProductFilterExpression,
   Product,
-  ProductStatus 
+  ProductRedirect,
+  ProductStatus,
+  ProductRevisionAction,
+  ProductType,
+  BundlePricing,
+  InventoryMovementReason,
+  ReservationStatus
 } from '../src/types'
-import { generateSlug, validateProductData, calculateDiscountedPrice } from '../src/utils'
+import {
+  generateSlug,
+  validateProductData,
+  calculateDiscountedPrice,
+  formatPrice,
+  parseFacetsParam,
+  withoutFacetConditions,
+  buildPriceFacet,
+  aggregateOptionFacets,
+  sortFacetCounts,
+  PRICE_FACET_BUCKETS,
+  parseProductFilter,
+  validateProductFilter,
+  compileProductFilter,
+  encodeCursor,
+  decodeCursor,
+  buildCursorQuery,
+  buildCursorPage,
+  buildOffsetPagination,
+  CursorPayload,
+  CursorSortValues,
+  buildPublishWindowWhere,
+  buildVisibleCollectionWhere,
+  isWithinPublishWindow,
+  validatePublishWindow,
+  toWindowDate,
+  expandCategoryFilter,
+  getCategoryPath,
+  buildProductETag,
+  ifMatchSatisfied,
+  buildWeakETag,
+  latestDate,
+  parseSelectionParam,
+  buildProductQueryShape,
+  PRODUCT_SELECTABLE_FIELDS,
+  PRODUCT_LIST_INCLUDES,
+  PRODUCT_DETAIL_INCLUDES
+} from '../src/utils'
 import { withSecurity } from '../src/middleware/security'
+import { withConditionalGet } from '../src/middleware/httpCache'
+import {
+  buildCatalogCacheKey,
+  catalogTags,
+  getCatalogCacheEntry,
+  invalidateCatalog,
+  setCatalogCacheEntry
+} from '../src/services/catalogCache'
+import { searchProductIds, indexProduct, removeProductFromIndex } from '../src/services/productSearch'
+import { recordProductRevision, snapshotProduct } from '../src/services/productRevisions'
+import { syncProductCollections } from '../src/services/smartCollections'
+import { loadCategoryNodes } from '../src/services/categories'
+import { recordSlugChange, findSlugRedirect } from '../src/services/slugHistory'
+import {
+  validateBundleComponents,
+  buildBundleItemsCreateData,
+  syncBundle,
+  syncBundlesContaining,
+  findBundlesUsingVariants
+} from '../src/services/bundles'
+import { syncStockTotals } from '../src/services/inventory'
+import { captureStock, recordStockChanges } from '../src/services/inventoryMovements'
+import {
+  getProductsHeldOutOfStock,
+  getReservedQuantities,
+  releaseProductReservations,
+  withReservedQuantities
+} from '../src/services/reservations'
+import { buildVariantCreateData, buildVariantUpdateData, resolveVariantInputs } from './variants'
+
+// Bundle components with enough of each product to display them
+const bundleItemsInclude = {
+  include: {
+    product: {
+      select: {
+        id: true,
+        name: true,
+        slug: true
+      }
+    },
+    variant: {
+      select: {
+        id: true,
+        name: true
+      }
+    }
+  },
+  orderBy: {
+    position: 'asc' as const
+  }
+}
+
+// Relations returned from admin writes
+const productEditInclude = {
+  category: true,
+  collections: {
+    include: {
+      collection: true
+    }
+  },
+  tags: {
+    include: {
+      tag: true
+    }
+  },
+  images: {
+    orderBy: {
+      position: 'asc'
+    }
+  },
+  variants: {
+    include: {
+      images: {
+        orderBy: {
+          position: 'asc'
+        }
+      }
+    }
+  },
+  bundleItems: bundleItemsInclude
+}
+
+// Relations loaded for product listings
+export const productListInclude = {
+  category: {
+    select: {
+      id: true,
+      name: true,
+      slug: true
+    }
+  },
+  collections: {
+    include: {
+      collection: {
+        select: {
+          id: true,
+          name: true,
+          slug: true
+        }
+      }
+    }
+  },
+  tags: {
+    include: {
+      tag: {
+        select: {
+          id: true,
+          name: true,
+          slug: true
+        }
+      }
+    }
+  },
+  images: {
+    orderBy: {
+      position: 'asc'
+    }
+  },
+  variants: {
+    where: {
+      status: ProductStatus.ACTIVE
+    },
+    include: {
+      images: {
+        orderBy: {
+          position: 'asc'
+        }
+      }
+    }
+  },
+  _count: {
+    select: {
+      reviews: true
+    }
+  }
+}
+
+// Relations loaded for the product detail page
+const productDetailInclude = {
+  category: true,
+  collections: {
+    include: {
+      collection: true
+    }
+  },
+  tags: {
+    include: {
+      tag: true
+    }
+  },
+  images: {
+    orderBy: {
+      position: 'asc'
+    }
+  },
+  variants: {
+    where: {
+      status: ProductStatus.ACTIVE
+    },
+    include: {
+      images: {
+        orderBy: {
+          position: 'asc'
+        }
+      }
+    }
+  },
+  bundleItems: bundleItemsInclude,
+  reviews: {
+    where: {
+      approved: true
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          image: true
+        }
+      }
+    },
+    orderBy: {
+      createdAt: 'desc'
+    }
+  }
+}
+
+// Relations selectable with `include=`, by name
+const productListRelations: Record<string, Record<string, unknown>> = {
+  category: { category: productListInclude.category },
+  collections: { collections: productListInclude.collections },
+  tags: { tags: productListInclude.tags },
+  images: { images: productListInclude.images },
+  variants: { variants: productListInclude.variants },
+  reviewCount: { _count: productListInclude._count }
+}
+
+// Breadcrumbs are computed rather than loaded, so they have no fragment
+const productDetailRelations: Record<string, Record<string, unknown>> = {
+  category: { category: productDetailInclude.category },
+  collections: { collections: productDetailInclude.collections },
+  tags: { tags: productDetailInclude.tags },
+  images: { images: productDetailInclude.images },
+  variants: { variants: productDetailInclude.variants },
+  bundleItems: { bundleItems: productDetailInclude.bundleItems },
+  reviews: { reviews: productDetailInclude.reviews }
+}
+
+// Sort fields without a range filter, with their values in database order.
+// SQLite stores enums as text, so statuses sort alphabetically.
+const cursorSortValues: Record<string, CursorSortValues> = {
+  featured: [false, true],
+  status: Object.values(ProductStatus).sort()
+}
+
+// Narrow the collections relation to the ones matching `collectionWhere`, so
+// customers don't see collections that are scheduled or expired
+function withCollectionWhere(
+  relations: Record<string, Record<string, unknown>>,
+  collectionWhere: any
+): Record<string, Record<string, unknown>> {
+  const { collections } = relations.collections as { collections: Record<string, unknown> }
+  return {
+    ...relations,
+    collections: { collections: { ...collections, where: { collection: collectionWhere } } }
+  }
+}
+
+// Listing rows carry the stock held by checkouts, like single products. It
+// is read per request, so cached listings get it too.
+async function withListingReservations(listing: ProductListResponse): Promise<ProductListResponse> {
+  const reserved = await getReservedQuantities(listing.data.map(product => product.id))
+  return {
+    ...listing,
+    data: listing.data.map(product => withReservedQuantities(product, reserved))
+  }
+}
+
+// Aggregate facet counts; `whereFor` gives the products each facet counts
+// (collections also have to match `collectionWhere`)
+async function getProductFacets(
+  whereFor: (facet: ProductFacetName) => any,
+  facets: ProductFacetName[],
+  collectionWhere?: any
+): Promise<ProductFacets> {
+  const result: ProductFacets = {}
+
+  await Promise.all(facets.map(async facet => {
+    const where = whereFor(facet)
+    switch (facet) {
+      case 'category': {
+        const groups = await prisma.product.groupBy({
+          by: ['categoryId'],
+          where: { AND: [where, { categoryId: { not: null } }] },
+          _count: { _all: true }
+        })
+        const categories = await prisma.category.findMany({
+          where: { id: { in: groups.map((group: any) => group.categoryId) } },
+          select: { id: true, name: true, slug: true }
+        })
+        result.category = sortFacetCounts(categories.map((category: any) => ({
+          value: category.slug,
+          label: category.name,
+          count: groups.find((group: any) => group.categoryId === category.id)?._count._all ?? 0
+        })))
+        break
+      }
+
+      case 'tag': {
+        const groups = await prisma.productTag.groupBy({
+          by: ['tagId'],
+          where: { product: where },
+          _count: { _all: true }
+        })
+        const tags = await prisma.tag.findMany({
+          where: { id: { in: groups.map((group: any) => group.tagId) } },
+          select: { id: true, name: true, slug: true }
+        })
+        result.tag = sortFacetCounts(tags.map((tag: any) => ({
+          value: tag.slug,
+          label: tag.name,
+          count: groups.find((group: any) => group.tagId === tag.id)?._count._all ?? 0
+        })))
+        break
+      }
+
+      case 'collection': {
+        const groups = await prisma.productCollection.groupBy({
+          by: ['collectionId'],
+          where: { product: where },
+          _count: { _all: true }
+        })
+        const collectionIds = { id: { in: groups.map((group: any) => group.collectionId) } }
+        const collections = await prisma.collection.findMany({
+          where: collectionWhere ? { AND: [collectionIds, collectionWhere] } : collectionIds,
+          select: { id: true, name: true, slug: true }
+        })
+        result.collection = sortFacetCounts(collections.map((collection: any) => ({
+          value: collection.slug,
+          label: collection.name,
+          count: groups.find((group: any) => group.collectionId === collection.id)?._count._all ?? 0
+        })))
+        break
+      }
+
+      case 'price': {
+        const counts = await Promise.all(PRICE_FACET_BUCKETS.map(bucket =>
+          prisma.product.count({
+            where: {
+              AND: [
+                where,
+                { price: bucket.max === undefined ? { gte: bucket.min } : { gte: bucket.min, lt: bucket.max } }
+              ]
+            }
+          })
+        ))
+        result.price = buildPriceFacet(counts, amount => formatPrice(amount))
+        break
+      }
+
+      case 'options': {
+        const variants = await prisma.productVariant.findMany({
+          where: {
+            status: ProductStatus.ACTIVE,
+            product: where
+          },
+          select: {
+            productId: true,
+            option1Name: true,
+            option1Value: true,
+            option2Name: true,
+            option2Value: true,
+            option3Name: true,
+            option3Value: true
+          }
+        })
+        result.options = aggregateOptionFacets(variants)
+        break
+      }
+    }
+  }))
+
+  return result
+}
 
 // GET /api/shop/products - Get all products with pagination and filtering
 async function getProducts(req: NextApiRequest, res: NextApiResponse) {
@@ -43,17 +433,29 @@ async function getProducts(req: NextApiRequest, res: NextApiResponse) {
       maxPrice,
       inStock,
       sortBy = 'createdAt',
-      sortOrder = 'desc'
+      sortOrder = 'desc',
+      facets,
+      filter,
+      after,
+      before,
+      deleted
     } = req.query as ProductQuery
 
+    // Sparse fieldsets: `fields` picks product columns and `include` picks
+    // relations, both from an allow-list. Without them the full listing shape
+    // is returned.
+    const fieldSelection = parseSelectionParam(req.query.fields, PRODUCT_SELECTABLE_FIELDS, 'fields')
+    const includeSelection = parseSelectionParam(req.query.include, PRODUCT_LIST_INCLUDES, 'include')
+    const selectionErrors = [...fieldSelection.errors, ...includeSelection.errors]
+    if (selectionErrors.length > 0) {
+      return errorResponse(res, 'Invalid field selection', 400, selectionErrors)
+    }
+
     // Validate and sanitize pagination parameters
     const pageNum = Math.max(1, parseInt(page as string) || 1)
     const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 12))
     const skip = (pageNum - 1) * limitNum
 
-    // Build where clause
-    const where: any = {}
-    
     // Only show active products for non-authenticated users
     const session = await getSession({ req })
     let isAdmin = false
@@ -66,75 +468,161 @@ async function getProducts(req: NextApiRequest, res: NextApiResponse) {
       })
       isAdmin = user?.role === 'admin'
     }
+
+    // Every query param becomes a condition in one filter expression, so
+    // they compose with each other and with a client-supplied `filter`
+    const conditions: ProductFilterExpression[] = []
     
     if (!isAdmin) {
-      where.status = ProductStatus.ACTIVE
-    } else if (status) {
-      where.status = status
+      conditions.push({ field: 'status', op: 'eq', value: ProductStatus.ACTIVE })
+    } else if (status && Object.values(ProductStatus).includes(status as ProductStatus)) {
+      conditions.push({ field: 'status', op: 'eq', value: status })
     }
     
     if (featured !== undefined) {
-      where.featured = featured === 'true'
-    }
-    
-    if (search) {
-      where.OR = [
-        { name: { contains: search as string, mode: 'insensitive' } },
-        { description: { contains: search as string, mode: 'insensitive' } },
-        { shortDescription: { contains: search as string, mode: 'insensitive' } }
-      ]
+      conditions.push({ field: 'featured', op: 'eq', value: featured === 'true' })
     }
     
     if (category) {
-      where.category = {
-        slug: category as string
-      }
+      conditions.push({ field: 'category', op: 'eq', value: category as string })
     }
     
     if (collection) {
-      where.collections = {
-        some: {
-          collection: {
-            slug: collection as string
-          }
-        }
-      }
+      conditions.push({ field: 'collection', op: 'eq', value: collection as string })
     }
     
     if (tag) {
-      where.tags = {
-        some: {
-          tag: {
-            slug: tag as string
-          }
-        }
-      }
+      conditions.push({ field: 'tag', op: 'eq', value: tag as string })
     }
     
-    if (minPrice || maxPrice) {
-      where.price = {}
-      if (minPrice) {
-        const minPriceNum = parseFloat(minPrice as string)
-        if (!isNaN(minPriceNum) && minPriceNum >= 0) {
-          where.price.gte = minPriceNum
-        }
+    if (minPrice) {
+      const minPriceNum = parseFloat(minPrice as string)
+      if (!isNaN(minPriceNum) && minPriceNum >= 0) {
+        conditions.push({ field: 'price', op: 'gte', value: minPriceNum })
       }
-      if (maxPrice) {
-        const maxPriceNum = parseFloat(maxPrice as string)
-        if (!isNaN(maxPriceNum) && maxPriceNum >= 0) {
-          where.price.lte = maxPriceNum
-        }
+    }
+
+    if (maxPrice) {
+      const maxPriceNum = parseFloat(maxPrice as string)
+      if (!isNaN(maxPriceNum) && maxPriceNum >= 0) {
+        conditions.push({ field: 'price', op: 'lte', value: maxPriceNum })
       }
     }
     
     if (inStock === 'true') {
-      where.OR = [
-        { trackQuantity: false },
-        { 
-          trackQuantity: true,
-          quantity: { gt: 0 }
-        }
-      ]
+      conditions.push({ field: 'inStock', op: 'eq', value: true })
+    }
+
+    if (filter) {
+      let filterExpression: ProductFilterExpression | undefined
+      try {
+        filterExpression = parseProductFilter(filter)
+      } catch (error) {
+        return errorResponse(res, 'Invalid filter', 400, ['filter must be valid JSON'])
+      }
+
+      const validation = validateProductFilter(filterExpression)
+      if (!validation.valid) {
+        return errorResponse(res, 'Invalid filter', 400, validation.errors)
+      }
+      conditions.push(filterExpression!)
+    }
+
+    // Category conditions also match products in descendant categories
+    const categoryNodes = category || filter ? await loadCategoryNodes() : undefined
+
+    // Products whose stock is all held by checkouts count as out of stock
+    const heldOutProductIds = req.query.inStock === 'true' || filter ? await getProductsHeldOutOfStock() : []
+
+    // Customers only match, count and see collections that are published
+    const collectionWhere = isAdmin ? undefined : buildVisibleCollectionWhere()
+
+    // Visibility, archive and search conditions apply whatever the filters are
+    const scopeConditions: any[] = []
+
+    // Scheduled products are only visible to customers inside their window
+    if (!isAdmin) {
+      scopeConditions.push(buildPublishWindowWhere())
+    }
+
+    // Archived products stay out of listings unless an admin asks for them
+    if (isAdmin && deleted === 'only') {
+      scopeConditions.push({ deletedAt: { not: null } })
+    } else if (!(isAdmin && deleted === 'include')) {
+      scopeConditions.push({ deletedAt: null })
+    }
+    
+    // Full-text search narrows the candidate ids; ranking is kept for sortBy=relevance
+    let rankedIds: string[] | undefined
+    if (search) {
+      try {
+        rankedIds = await searchProductIds(search as string)
+        scopeConditions.push({ id: { in: rankedIds } })
+      } catch (error) {
+        // Search index not installed yet: fall back to substring matching
+        // (SQLite LIKE is case-insensitive for ASCII)
+        scopeConditions.push({
+          OR: [
+            { name: { contains: search as string } },
+            { description: { contains: search as string } },
+            { shortDescription: { contains: search as string } },
+            { sku: { contains: search as string } }
+          ]
+        })
+      }
+    }
+
+    // Build where clause
+    const buildWhere = (filterConditions: ProductFilterExpression[]): any => {
+      let expression: ProductFilterExpression = { and: filterConditions }
+      if (categoryNodes) {
+        expression = expandCategoryFilter(expression, categoryNodes)
+      }
+      const compiled = compileProductFilter(expression, { heldOutProductIds, collectionWhere })
+      return { AND: [...compiled.AND, ...scopeConditions] }
+    }
+    const where = buildWhere(conditions)
+
+    // Conditional GET: the validators come from one aggregate over the
+    // matching products, so an unchanged listing is answered before any
+    // include tree is loaded
+    // Stock held by checkouts changes the listing without touching products
+    const [listingStats, holdStats] = await Promise.all([
+      prisma.product.aggregate({
+        where,
+        _max: { updatedAt: true },
+        _count: { _all: true }
+      }),
+      prisma.stockReservation.aggregate({
+        where: {
+          status: ReservationStatus.ACTIVE,
+          expiresAt: { gt: new Date() },
+          product: where
+        },
+        _sum: { quantity: true },
+        _count: { _all: true }
+      })
+    ])
+    const lastModified = latestDate([listingStats._max.updatedAt])
+    const audience = session ? 'private' : 'public'
+    const holdTag = `${holdStats._count._all}:${holdStats._sum.quantity ?? 0}:${heldOutProductIds.join()}`
+    const notModified = withConditionalGet(req, res, {
+      etag: buildWeakETag([req.url, audience, isAdmin, listingStats._count._all, holdTag, lastModified]),
+      lastModified: lastModified ?? undefined
+    }, audience)
+
+    if (notModified) {
+      return // Client's copy is current
+    }
+
+    // Customer listings are served from the catalog cache; admins always
+    // read through
+    const cacheKey = isAdmin ? undefined : buildCatalogCacheKey('products', req.query)
+    if (cacheKey) {
+      const cached = await getCatalogCacheEntry<ProductListResponse>(cacheKey)
+      if (cached) {
+        return successResponse(res, await withListingReservations(cached))
+      }
     }
 
     // Build order clause with SQL injection protection
@@ -147,88 +635,129 @@ async function getProducts(req: NextApiRequest, res: NextApiResponse) {
     const orderBy: any = {}
     orderBy[safeSortBy] = safeSortOrder
 
-    // Get products with relations
-    const [products, total] = await Promise.all([
-      prisma.product.findMany({
+    // Cursors are built from the sort column, so it is always selected
+    const productShape = buildProductQueryShape(
+      fieldSelection.values,
+      includeSelection.values ?? PRODUCT_LIST_INCLUDES,
+      collectionWhere ? withCollectionWhere(productListRelations, collectionWhere) : productListRelations,
+      [safeSortBy]
+    )
+
+    // Requests that pass `page` keep offset pagination; everything else pages
+    // by opaque cursor and skips the count query
+    const cursorMode = Boolean(after || before) || req.query.page === undefined
+    const direction = before ? 'before' : 'after'
+    const sortByRelevance = sortBy === 'relevance' && rankedIds !== undefined
+
+    let cursor: CursorPayload | undefined
+    if (cursorMode && (after || before)) {
+      cursor = sortByRelevance
+        ? decodeCursor((before || after) as string, 'relevance') ?? undefined
+        : decodeCursor((before || after) as string, safeSortBy, cursorSortValues[safeSortBy]) ?? undefined
+      if (!cursor) {
+        return errorResponse(res, 'Invalid pagination cursor', 400)
+      }
+    }
+
+    let products: Product[]
+    let pagination: ProductListResponse['pagination']
+
+    if (sortByRelevance) {
+      // Relevance order comes from the search index, so the page of ids is
+      // picked here (cursors carry the offset) and fetched by id
+      const matching: Array<{ id: string }> = await prisma.product.findMany({
         where,
-        include: {
-          category: {
-            select: {
-              id: true,
-              name: true,
-              slug: true
-            }
-          },
-          collections: {
-            include: {
-              collection: {
-                select: {
-                  id: true,
-                  name: true,
-                  slug: true
-                }
-              }
-            }
-          },
-          tags: {
-            include: {
-              tag: {
-                select: {
-                  id: true,
-                  name: true,
-                  slug: true
-                }
-              }
-            }
-          },
-          images: {
-            orderBy: {
-              position: 'asc'
-            }
-          },
-          variants: {
-            where: {
-              status: ProductStatus.ACTIVE
-            },
-            include: {
-              images: {
-                orderBy: {
-                  position: 'asc'
-                }
-              }
-            }
-          },
-          _count: {
-            select: {
-              reviews: true
-            }
-          }
-        },
-        orderBy,
-        skip,
-        take: limitNum
-      }),
-      prisma.product.count({ where })
-    ])
+        select: { id: true }
+      })
+      const matchingIds = new Set(matching.map(product => product.id))
+      const orderedIds = rankedIds!.filter(id => matchingIds.has(id))
+      const start = cursorMode ? Number(cursor?.value ?? 0) : skip
+      const pageIds = orderedIds.slice(start, start + limitNum)
 
-    const totalPages = Math.ceil(total / limitNum)
+      const rank = new Map(pageIds.map((id, index) => [id, index]))
+      products = (await prisma.product.findMany({
+        where: { id: { in: pageIds } },
+        ...productShape
+      }) as Product[]).sort((a, b) => rank.get(a.id)! - rank.get(b.id)!)
 
-    const response: ShopApiResponse<PaginatedResponse<Product>> = {
-      success: true,
-      data: {
-        data: products as Product[],
-        pagination: {
-          page: pageNum,
+      if (cursorMode) {
+        const hasNext = start + limitNum < orderedIds.length
+        const hasPrev = start > 0
+        pagination = {
           limit: limitNum,
-          total,
-          totalPages,
-          hasNext: pageNum < totalPages,
-          hasPrev: pageNum > 1
+          hasNext,
+          hasPrev,
+          nextCursor: hasNext ? encodeCursor({ field: 'relevance', value: start + limitNum, id: '' }) : null,
+          prevCursor: hasPrev ? encodeCursor({ field: 'relevance', value: Math.max(0, start - limitNum), id: '' }) : null
         }
+      } else {
+        pagination = buildOffsetPagination(pageNum, limitNum, orderedIds.length)
       }
+    } else if (cursorMode) {
+      const cursorQuery = buildCursorQuery(
+        safeSortBy,
+        safeSortOrder as 'asc' | 'desc',
+        cursor,
+        direction,
+        cursorSortValues[safeSortBy]
+      )
+      const rows = await prisma.product.findMany({
+        where: cursorQuery.where ? { AND: [where, cursorQuery.where] } : where,
+        ...productShape,
+        orderBy: cursorQuery.orderBy,
+        take: limitNum + 1
+      })
+
+      const page = buildCursorPage(rows as Product[], {
+        field: safeSortBy,
+        limit: limitNum,
+        direction,
+        hasCursor: Boolean(cursor)
+      })
+      products = page.data
+      pagination = page.pagination
+    } else {
+      // Get products with relations
+      const [rows, total] = await Promise.all([
+        prisma.product.findMany({
+          where,
+          ...productShape,
+          orderBy,
+          skip,
+          take: limitNum
+        }),
+        prisma.product.count({ where })
+      ])
+
+      products = rows as Product[]
+      pagination = buildOffsetPagination(pageNum, limitNum, total)
     }
 
-    return successResponse(res, response.data)
+    // Each facet is counted against the listing's filters minus its own, so
+    // a chosen value doesn't hide the other values of that facet
+    const requestedFacets = parseFacetsParam(facets)
+    const facetCounts = requestedFacets.length > 0
+      ? await getProductFacets(
+        facet => buildWhere(withoutFacetConditions(conditions, facet)),
+        requestedFacets,
+        collectionWhere
+      )
+      : undefined
+
+    const response: ShopApiResponse<ProductListResponse> = {
+      success: true,
+      data: {
+        data: products,
+        pagination,
+        facets: facetCounts
+      }
+    }
+
+    if (cacheKey) {
+      await setCatalogCacheEntry(cacheKey, response.data, buildListingCacheTags(req.query as ProductQuery, products))
+    }
+
+    return successResponse(res, await withListingReservations(response.data as ProductListResponse))
   } catch (error) {
     // Log error securely without exposing sensitive data
     console.error('Error fetching products:', {
@@ -291,14 +820,32 @@ async function createProduct(req: NextApiRequest, res: NextApiResponse) {
       return errorResponse(res, 'Product with this slug already exists', 400)
     }
 
+    // Explicit variants, or variants seeded from the option matrix
+    const variantInputs = resolveVariantInputs(productData) || []
+
+    const isBundle = productData.type === ProductType.BUNDLE
+    if (isBundle) {
+      if (!productData.bundleItems || productData.bundleItems.length === 0) {
+        return errorResponse(res, 'Invalid product data', 400, ['Bundles need at least one component'])
+      }
+      if (variantInputs.length > 0) {
+        return errorResponse(res, 'Invalid product data', 400, ['Bundles cannot have variants of their own'])
+      }
+      const bundleErrors = await validateBundleComponents(productData.bundleItems)
+      if (bundleErrors.length > 0) {
+        return errorResponse(res, 'Invalid product data', 400, bundleErrors)
+      }
+    }
+
     // Create product
     const product = await prisma.product.create({
       data: {
         name: productData.name,
         slug,
+        slugPinned: productData.slugPinned ?? false,
         description: productData.description,
         shortDescription: productData.shortDescription,
-        price: productData.price,
+        price: productData.price ?? 0,
         comparePrice: productData.comparePrice,
         costPrice: productData.costPrice,
         sku: productData.sku,
@@ -306,8 +853,13 @@ async function createProduct(req: NextApiRequest, res: NextApiResponse) {
         trackQuantity: productData.trackQuantity ?? true,
         quantity: productData.quantity ?? 0,
         lowStockLevel: productData.lowStockLevel ?? 10,
+        backorderPolicy: productData.backorderPolicy,
+        expectedShipDate: toWindowDate(productData.expectedShipDate),
+        maxBackorderQuantity: productData.maxBackorderQuantity,
         status: productData.status ?? ProductStatus.ACTIVE,
         featured: productData.featured ?? false,
+        publishAt: toWindowDate(productData.publishAt),
+        unpublishAt: toWindowDate(productData.unpublishAt),
         metaTitle: productData.metaTitle,
         metaDescription: productData.metaDescription,
         metaKeywords: productData.metaKeywords,
@@ -316,6 +868,13 @@ async function createProduct(req: NextApiRequest, res: NextApiResponse) {
         width: productData.width,
         height: productData.height,
         requiresShipping: productData.requiresShipping ?? true,
+        hasVariants: variantInputs.length > 0,
+        type: productData.type ?? ProductType.SIMPLE,
+        bundlePricing: isBundle ? productData.bundlePricing ?? BundlePricing.FIXED : undefined,
+        bundleDiscount: isBundle ? productData.bundleDiscount : undefined,
+        bundleItems: {
+          create: isBundle ? buildBundleItemsCreateData(productData.bundleItems!) : []
+        },
         categoryId: productData.categoryId,
         collections: {
           create: productData.collections?.map(collectionId => ({
@@ -333,28 +892,31 @@ async function createProduct(req: NextApiRequest, res: NextApiResponse) {
             altText: image.altText,
             position: image.position ?? index
           })) || []
-        }
-      },
-      include: {
-        category: true,
-        collections: {
-          include: {
-            collection: true
-          }
         },
-        tags: {
-          include: {
-            tag: true
-          }
-        },
-        images: {
-          orderBy: {
-            position: 'asc'
-          }
+        variants: {
+          create: variantInputs.map(variant => buildVariantCreateData(variant, productData))
         }
-      }
+      },
+      include: productEditInclude
+    })
+
+    // Bundle price and stock come from the components
+    if (isBundle) {
+      Object.assign(product, await syncBundle(product.id))
+    }
+
+    await recordStockChanges(product.id, new Map(), InventoryMovementReason.RESTOCK, {
+      userId: user.id,
+      note: 'Opening stock'
     })
 
+    // A new product takes over its slug if it used to redirect elsewhere
+    await recordSlugChange(product.id, null, slug)
+    await indexProduct(product.id)
+    await syncProductCollections(product.id)
+    await recordProductRevision(product.id, ProductRevisionAction.CREATE, user.id)
+    await invalidateCatalog({ type: 'product', productId: product.id })
+
     const response: ShopApiResponse<Product> = {
       success: true,
       data: product as Product,
@@ -373,7 +935,65 @@ async function createProduct(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-// PUT /api/shop/products/[id] - Update a product
+// Tags for a cached listing: the products on the page, their categories and
+// collections, and the kinds of condition its membership depends on
+function buildListingCacheTags(query: ProductQuery, products: any[]): string[] {
+  const tags: string[] = [catalogTags.listings]
+
+  for (const product of products) {
+    tags.push(catalogTags.product(product.id))
+    if (product.categoryId) {
+      tags.push(catalogTags.category(product.categoryId))
+    }
+    for (const item of product.collections || []) {
+      tags.push(catalogTags.collection(item.collectionId))
+    }
+    // Sparse listings may leave out categoryId but still show the category
+    if (!product.categoryId && product.category) {
+      tags.push(catalogTags.category(product.category.id))
+    }
+  }
+
+  // A filter expression may reference any field; facets count by category
+  // and collection
+  const broad = Boolean(query.filter || query.facets)
+  if (query.inStock !== undefined || query.filter) {
+    tags.push(catalogTags.stockListings)
+  }
+  if (query.category || broad) {
+    tags.push(catalogTags.categoryListings)
+  }
+  if (query.collection || broad) {
+    tags.push(catalogTags.collectionListings)
+  }
+
+  return tags
+}
+
+// Reject a stale write with 409 and the product's current state, so the
+// client can merge its edits
+async function sendVersionConflict(res: NextApiResponse, productId: string) {
+  const currentProduct = await prisma.product.findUnique({
+    where: { id: productId },
+    include: productEditInclude
+  })
+
+  if (currentProduct) {
+    res.setHeader('ETag', buildProductETag(currentProduct))
+  }
+
+  const response: ShopApiResponse<Product> = {
+    success: false,
+    data: currentProduct as Product,
+    message: 'Product was changed by someone else',
+    errors: ['Reload the product and reapply your changes']
+  }
+
+  return res.status(409).json(response)
+}
+
+// PUT /api/shop/products/[id] - Update a product. Send the version being
+// edited as `If-Match: <ETag>` or a `version` field to reject stale writes.
 async function updateProduct(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware with CSRF protection
   const securityPassed = await withSecurity(req, res, {
@@ -416,17 +1036,45 @@ async function updateProduct(req: NextApiRequest, res: NextApiResponse) {
       return errorResponse(res, 'Product not found', 404)
     }
 
+    if (existingProduct.deletedAt) {
+      return errorResponse(res, 'Product is archived; restore it before editing', 400)
+    }
+
+    const ifMatch = req.headers['if-match']
+    const expectsVersion = ifMatch !== undefined || productData.version !== undefined
+    if (
+      !ifMatchSatisfied(ifMatch, buildProductETag(existingProduct)) ||
+      (productData.version !== undefined && productData.version !== existingProduct.version)
+    ) {
+      return sendVersionConflict(res, existingProduct.id)
+    }
+
     // Validate input
     const validation = validateProductData(productData)
     if (!validation.valid) {
       return errorResponse(res, 'Invalid product data', 400, validation.errors)
     }
 
-    // Generate slug if name changed
+    // A bound left out of the request keeps its stored value
+    const windowErrors = validatePublishWindow({
+      publishAt: productData.publishAt !== undefined ? productData.publishAt : existingProduct.publishAt,
+      unpublishAt: productData.unpublishAt !== undefined ? productData.unpublishAt : existingProduct.unpublishAt
+    })
+    if (windowErrors.length > 0) {
+      return errorResponse(res, 'Invalid product data', 400, windowErrors)
+    }
+
+    // An explicit slug wins; otherwise a rename regenerates the slug unless
+    // it is pinned
+    const slugPinned = productData.slugPinned ?? existingProduct.slugPinned
     let slug = existingProduct.slug
-    if (productData.name && productData.name !== existingProduct.name) {
+    if (productData.slug) {
+      slug = productData.slug
+    } else if (productData.name && productData.name !== existingProduct.name && !slugPinned) {
       slug = generateSlug(productData.name)
-      
+    }
+
+    if (slug !== existingProduct.slug) {
       // Check if new slug already exists
       const slugExists = await prisma.product.findUnique({
         where: { slug, NOT: { id: id as string } }
@@ -437,74 +1085,179 @@ async function updateProduct(req: NextApiRequest, res: NextApiResponse) {
       }
     }
 
-    // Update product
-    const updatedProduct = await prisma.product.update({
-      where: { id: id as string },
-      data: {
-        name: productData.name,
-        slug,
-        description: productData.description,
-        shortDescription: productData.shortDescription,
-        price: productData.price,
-        comparePrice: productData.comparePrice,
-        costPrice: productData.costPrice,
-        sku: productData.sku,
-        barcode: productData.barcode,
-        trackQuantity: productData.trackQuantity,
-        quantity: productData.quantity,
-        lowStockLevel: productData.lowStockLevel,
-        status: productData.status,
-        featured: productData.featured,
-        metaTitle: productData.metaTitle,
-        metaDescription: productData.metaDescription,
-        metaKeywords: productData.metaKeywords,
-        weight: productData.weight,
-        length: productData.length,
-        width: productData.width,
-        height: productData.height,
-        requiresShipping: productData.requiresShipping,
-        categoryId: productData.categoryId,
-        collections: productData.collections ? {
-          deleteMany: {},
-          create: productData.collections.map(collectionId => ({
-            collectionId
-          }))
-        } : undefined,
-        tags: productData.tags ? {
-          deleteMany: {},
-          create: productData.tags.map(tagId => ({
-            tagId
-          }))
-        } : undefined,
-        images: productData.images ? {
-          deleteMany: {},
-          create: productData.images.map((image, index) => ({
-            url: image.url,
-            altText: image.altText,
-            position: image.position ?? index
-          }))
-        } : undefined
-      },
-      include: {
-        category: true,
-        collections: {
-          include: {
-            collection: true
-          }
-        },
-        tags: {
-          include: {
-            tag: true
-          }
-        },
-        images: {
-          orderBy: {
-            position: 'asc'
-          }
+    // Variants listed with an id are updated, new ones created, and any
+    // existing variant missing from the list is removed
+    const variantInputs = resolveVariantInputs(productData)
+    const keptVariantIds = variantInputs
+      ?.filter(variant => variant.id)
+      .map(variant => variant.id as string) || []
+
+    // Listed bundle components replace the stored ones; turning a bundle back
+    // into a simple product drops them
+    const isBundle = (productData.type ?? existingProduct.type) === ProductType.BUNDLE
+    if (isBundle) {
+      if (!productData.bundleItems && existingProduct.type !== ProductType.BUNDLE) {
+        return errorResponse(res, 'Invalid product data', 400, ['Bundles need at least one component'])
+      }
+      if (variantInputs ? variantInputs.length > 0 : existingProduct.hasVariants) {
+        return errorResponse(res, 'Invalid product data', 400, ['Bundles cannot have variants of their own'])
+      }
+      if (productData.bundleItems) {
+        const bundleErrors = await validateBundleComponents(productData.bundleItems, existingProduct.id)
+        if (bundleErrors.length > 0) {
+          return errorResponse(res, 'Invalid product data', 400, bundleErrors)
         }
       }
+    } else if (productData.bundleItems && productData.bundleItems.length > 0) {
+      return errorResponse(res, 'Invalid product data', 400, ['Only bundle products can have bundle items'])
+    }
+
+    if (variantInputs) {
+      const bundles = await findBundlesUsingVariants({
+        productId: existingProduct.id,
+        id: { notIn: keptVariantIds }
+      })
+      if (bundles.length > 0) {
+        return errorResponse(
+          res,
+          'Variants that are components of a bundle cannot be removed',
+          409,
+          bundles.map(name => `Used by bundle "${name}"`)
+        )
+      }
+    }
+
+    // Quantities edited directly are recorded in the inventory ledger
+    const stockBefore = await captureStock(existingProduct.id)
+
+    // Claim the version and write in one transaction, so only one of two
+    // concurrent edits of the same version succeeds, and a write that fails
+    // (e.g. on a unique slug) leaves the version as it was
+    const updatedProduct = await prisma.$transaction(async (tx: any) => {
+      if (expectsVersion) {
+        const claimed = await tx.product.updateMany({
+          where: { id: existingProduct.id, version: existingProduct.version },
+          data: { version: { increment: 1 } }
+        })
+        if (claimed.count === 0) {
+          return null
+        }
+      }
+
+      return tx.product.update({
+        where: { id: id as string },
+        data: {
+          name: productData.name,
+          slug,
+          slugPinned: productData.slugPinned,
+          version: expectsVersion ? undefined : { increment: 1 },
+          description: productData.description,
+          shortDescription: productData.shortDescription,
+          price: productData.price,
+          comparePrice: productData.comparePrice,
+          costPrice: productData.costPrice,
+          sku: productData.sku,
+          barcode: productData.barcode,
+          trackQuantity: productData.trackQuantity,
+          quantity: productData.quantity,
+          lowStockLevel: productData.lowStockLevel,
+          backorderPolicy: productData.backorderPolicy,
+          expectedShipDate: toWindowDate(productData.expectedShipDate),
+          maxBackorderQuantity: productData.maxBackorderQuantity,
+          status: productData.status,
+          featured: productData.featured,
+          publishAt: toWindowDate(productData.publishAt),
+          unpublishAt: toWindowDate(productData.unpublishAt),
+          metaTitle: productData.metaTitle,
+          metaDescription: productData.metaDescription,
+          metaKeywords: productData.metaKeywords,
+          weight: productData.weight,
+          length: productData.length,
+          width: productData.width,
+          height: productData.height,
+          requiresShipping: productData.requiresShipping,
+          hasVariants: variantInputs ? variantInputs.length > 0 : undefined,
+          type: productData.type,
+          bundlePricing: isBundle ? productData.bundlePricing : null,
+          bundleDiscount: isBundle ? productData.bundleDiscount : null,
+          bundleItems: isBundle
+            ? productData.bundleItems ? {
+              deleteMany: {},
+              create: buildBundleItemsCreateData(productData.bundleItems)
+            } : undefined
+            : existingProduct.type === ProductType.BUNDLE ? { deleteMany: {} } : undefined,
+          categoryId: productData.categoryId,
+          collections: productData.collections ? {
+            deleteMany: {},
+            create: productData.collections.map(collectionId => ({
+              collectionId
+            }))
+          } : undefined,
+          tags: productData.tags ? {
+            deleteMany: {},
+            create: productData.tags.map(tagId => ({
+              tagId
+            }))
+          } : undefined,
+          images: productData.images ? {
+            deleteMany: {},
+            create: productData.images.map((image, index) => ({
+              url: image.url,
+              altText: image.altText,
+              position: image.position ?? index
+            }))
+          } : undefined,
+          variants: variantInputs ? {
+            deleteMany: {
+              id: { notIn: keptVariantIds }
+            },
+            update: variantInputs
+              .filter(variant => variant.id)
+              .map(variant => ({
+                where: { id: variant.id as string },
+                data: buildVariantUpdateData(variant)
+              })),
+            create: variantInputs
+              .filter(variant => !variant.id)
+              .map(variant => buildVariantCreateData(variant, {
+                name: productData.name ?? existingProduct.name,
+                price: productData.price ?? existingProduct.price
+              }))
+          } : undefined
+        },
+        include: productEditInclude
+      })
     })
 
+    if (!updatedProduct) {
+      return sendVersionConflict(res, existingProduct.id)
+    }
+
+    // Stock kept per location wins over a quantity sent in the update
+    if (await syncStockTotals(updatedProduct.id)) {
+      Object.assign(updatedProduct, await prisma.product.findUnique({
+        where: { id: updatedProduct.id },
+        include: productEditInclude
+      }))
+    }
+    await recordStockChanges(updatedProduct.id, stockBefore, InventoryMovementReason.MANUAL, { userId: user.id })
+
+    // Refresh derived bundle values: this product's own, and those of any
+    // bundle it is a component of
+    if (isBundle) {
+      Object.assign(updatedProduct, await syncBundle(updatedProduct.id))
+    }
+    await syncBundlesContaining(updatedProduct.id)
+
+    // Links to the old slug keep working through the slug history
+    await recordSlugChange(updatedProduct.id, existingProduct.slug, slug)
+    await indexProduct(updatedProduct.id)
+    await syncProductCollections(updatedProduct.id)
+    await recordProductRevision(updatedProduct.id, ProductRevisionAction.UPDATE, user.id)
+    await invalidateCatalog({ type: 'product', productId: updatedProduct.id })
+
+    res.setHeader('ETag', buildProductETag(updatedProduct))
+
     const response: ShopApiResponse<Product> = {
       success: true,
       data: updatedProduct as Product,
@@ -523,7 +1276,8 @@ async function updateProduct(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-// DELETE /api/shop/products/[id] - Delete a product
+// DELETE /api/shop/products/[id] - Archive a product. Order history keeps
+// pointing at it, so products are soft-deleted rather than removed.
 async function deleteProduct(req: NextApiRequest, res: NextApiResponse) {
   // Apply security middleware with CSRF protection
   const securityPassed = await withSecurity(req, res, {
@@ -565,25 +1319,225 @@ async function deleteProduct(req: NextApiRequest, res: NextApiResponse) {
       return errorResponse(res, 'Product not found', 404)
     }
 
+    if (existingProduct.deletedAt) {
+      return errorResponse(res, 'Product is already archived', 400)
+    }
+
+    // Archived products can no longer be bought, so drop them from carts too
+    const archivedProduct = await prisma.product.update({
+      where: { id: existingProduct.id },
+      data: {
+        status: ProductStatus.ARCHIVED,
+        deletedAt: new Date(),
+        version: { increment: 1 },
+        cartItems: {
+          deleteMany: {}
+        }
+      }
+    })
+
+    // Bundles containing it have nothing left to ship, and unpaid checkouts
+    // stop holding its stock
+    await syncBundlesContaining(existingProduct.id)
+    await releaseProductReservations(existingProduct.id)
+    await removeProductFromIndex(existingProduct.id)
+    await recordProductRevision(existingProduct.id, ProductRevisionAction.DELETE, user.id)
+    await invalidateCatalog({ type: 'product', productId: existingProduct.id })
+
+    const response: ShopApiResponse<Product> = {
+      success: true,
+      data: archivedProduct as Product,
+      message: 'Product archived successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error deleting product:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to delete product', 500)
+  }
+}
+
+// POST /api/shop/products/[id]/restore - Bring an archived product back.
+// It returns as a draft unless the body asks for another status.
+async function restoreProduct(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 },
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+  
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+    const { status = ProductStatus.DRAFT } = (req.body || {}) as { status?: ProductStatus }
+
+    if (status === ProductStatus.ARCHIVED || !Object.values(ProductStatus).includes(status)) {
+      return errorResponse(res, 'Invalid product status', 400)
+    }
+
+    const existingProduct = await prisma.product.findUnique({
+      where: { id: id as string }
+    })
+
+    if (!existingProduct) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    if (!existingProduct.deletedAt) {
+      return errorResponse(res, 'Product is not archived', 400)
+    }
+
+    const restoredProduct = await prisma.product.update({
+      where: { id: existingProduct.id },
+      data: {
+        status,
+        deletedAt: null,
+        version: { increment: 1 }
+      }
+    })
+
+    await indexProduct(existingProduct.id)
+    await syncProductCollections(existingProduct.id)
+    await syncBundlesContaining(existingProduct.id)
+    await recordProductRevision(existingProduct.id, ProductRevisionAction.RESTORE, user.id)
+    await invalidateCatalog({ type: 'product', productId: existingProduct.id })
+
+    const response: ShopApiResponse<Product> = {
+      success: true,
+      data: restoredProduct as Product,
+      message: 'Product restored successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error restoring product:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to restore product', 500)
+  }
+}
+
+// DELETE /api/shop/products/[id]/purge - Permanently delete an archived
+// product. Refused while any order item references it.
+async function purgeProduct(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 10 }, // Very strict rate limit for DELETE requests
+    csrf: true, // DELETE requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+  
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+
+    const existingProduct = await prisma.product.findUnique({
+      where: { id: id as string },
+      include: {
+        _count: {
+          select: {
+            orderItems: true,
+            bundledIn: true
+          }
+        }
+      }
+    })
+
+    if (!existingProduct) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    if (!existingProduct.deletedAt) {
+      return errorResponse(res, 'Archive the product before purging it', 400)
+    }
+
+    if (existingProduct._count.orderItems > 0) {
+      return errorResponse(
+        res,
+        `Product is referenced by ${existingProduct._count.orderItems} order item(s) and cannot be purged`,
+        409
+      )
+    }
+
+    if (existingProduct._count.bundledIn > 0) {
+      return errorResponse(res, 'Product is a component of a bundle and cannot be purged', 409)
+    }
+
+    // Keep the final state in the history; revisions outlive the product
+    const finalSnapshot = await snapshotProduct(existingProduct.id)
+
     // Delete product (cascade will handle related data)
     await prisma.product.delete({
-      where: { id: id as string }
+      where: { id: existingProduct.id }
     })
 
+    await removeProductFromIndex(existingProduct.id)
+    await recordProductRevision(existingProduct.id, ProductRevisionAction.PURGE, user.id, finalSnapshot)
+    await invalidateCatalog({ type: 'product', productId: existingProduct.id })
+
     const response: ShopApiResponse = {
       success: true,
-      message: 'Product deleted successfully'
+      message: 'Product purged successfully'
     }
 
     return successResponse(res, response)
   } catch (error) {
     // Log error securely without exposing sensitive data
-    console.error('Error deleting product:', {
+    console.error('Error purging product:', {
       timestamp: new Date().toISOString(),
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
     })
-    return errorResponse(res, 'Failed to delete product', 500)
+    return errorResponse(res, 'Failed to purge product', 500)
   }
 }
 
@@ -603,66 +1557,69 @@ async function getProductBySlug(req: NextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    const { slug } = req.query
+    const { slug, fields, include } = req.query
+
+    // Sparse fieldsets, as for listings; reviews, variants and the rest are
+    // all loaded unless `include` narrows them
+    const fieldSelection = parseSelectionParam(fields, PRODUCT_SELECTABLE_FIELDS, 'fields')
+    const includeSelection = parseSelectionParam(include, PRODUCT_DETAIL_INCLUDES, 'include')
+    const selectionErrors = [...fieldSelection.errors, ...includeSelection.errors]
+    if (selectionErrors.length > 0) {
+      return errorResponse(res, 'Invalid field selection', 400, selectionErrors)
+    }
+    const includes = includeSelection.values ?? PRODUCT_DETAIL_INCLUDES
 
-    const product = await prisma.product.findUnique({
+    // Look the product up cheaply first, so a conditional GET can be answered
+    // before the include tree is loaded
+    const summary = await prisma.product.findUnique({
       where: { slug: slug as string },
-      include: {
-        category: true,
-        collections: {
-          include: {
-            collection: true
-          }
-        },
-        tags: {
-          include: {
-            tag: true
-          }
-        },
-        images: {
-          orderBy: {
-            position: 'asc'
-          }
-        },
-        variants: {
-          where: {
-            status: ProductStatus.ACTIVE
-          },
-          include: {
-            images: {
-              orderBy: {
-                position: 'asc'
-              }
-            }
-          }
-        },
-        reviews: {
-          where: {
-            approved: true
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                image: true
-              }
-            }
-          },
-          orderBy: {
-            createdAt: 'desc'
+      select: {
+        id: true,
+        status: true,
+        publishAt: true,
+        unpublishAt: true,
+        updatedAt: true,
+        categoryId: true,
+        category: {
+          select: {
+            updatedAt: true
           }
         }
       }
     })
 
-    if (!product) {
-      return errorResponse(res, 'Product not found', 404)
+    if (!summary) {
+      // Old slugs redirect to the product's current one. Hidden products
+      // don't reveal their new slug.
+      const target = await findSlugRedirect(slug as string)
+      if (
+        !target ||
+        target.deletedAt ||
+        target.status !== ProductStatus.ACTIVE ||
+        !isWithinPublishWindow(target)
+      ) {
+        return errorResponse(res, 'Product not found', 404)
+      }
+
+      const redirect: ProductRedirect = {
+        redirect: true,
+        statusCode: 301,
+        slug: target.slug,
+        location: `/shop/product/${target.slug}`
+      }
+
+      const response: ShopApiResponse<ProductRedirect> = {
+        success: true,
+        data: redirect
+      }
+
+      return successResponse(res, response.data)
     }
 
-    // Only show active products for non-authenticated users
+    // Only show active products inside their publish window for non-authenticated users
     const session = await getSession({ req })
-    if (product.status !== ProductStatus.ACTIVE) {
+    const isPublic = summary.status === ProductStatus.ACTIVE && isWithinPublishWindow(summary)
+    if (!isPublic) {
       let isAdmin = false
       
       if (session?.user) {
@@ -679,12 +1636,70 @@ async function getProductBySlug(req: NextApiRequest, res: NextApiResponse) {
       }
     }
 
+    // Approved reviews are part of the page but don't touch the product row
+    const reviewStats = await prisma.productReview.aggregate({
+      where: { productId: summary.id, approved: true },
+      _max: { updatedAt: true },
+      _count: { _all: true }
+    })
+    // Stock held by unpaid checkouts changes availability without touching
+    // the product, so it is added per request rather than cached
+    const reserved = await getReservedQuantities([summary.id])
+    const reservedTag = Array.from(reserved.entries()).map(([key, quantity]) => `${key}=${quantity}`).join()
+    const lastModified = latestDate([summary.updatedAt, summary.category?.updatedAt, reviewStats._max.updatedAt])
+    const audience = session ? 'private' : 'public'
+    const notModified = withConditionalGet(req, res, {
+      etag: buildWeakETag([summary.id, audience, fieldSelection.values?.join(), includes.join(), reviewStats._count._all, reservedTag, lastModified]),
+      lastModified: lastModified ?? undefined
+    }, audience)
+
+    if (notModified) {
+      return // Client's copy is current
+    }
+
+    // Only products everyone can see are cached
+    const cacheKey = buildCatalogCacheKey('product', { slug, fields, include })
+    if (isPublic) {
+      const cached = await getCatalogCacheEntry<Product>(cacheKey)
+      if (cached) {
+        return successResponse(res, withReservedQuantities(cached, reserved))
+      }
+    }
+
+    const product: any = await prisma.product.findUnique({
+      where: { id: summary.id },
+      ...buildProductQueryShape(
+        fieldSelection.values,
+        includes,
+        // The public page is cached for everyone, so it leaves hidden
+        // collections out
+        isPublic ? withCollectionWhere(productDetailRelations, buildVisibleCollectionWhere()) : productDetailRelations
+      )
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    const breadcrumbs = summary.categoryId && includes.includes('breadcrumbs')
+      ? getCategoryPath(await loadCategoryNodes(), summary.categoryId)
+      : undefined
+
     const response: ShopApiResponse<Product> = {
       success: true,
-      data: product as Product
+      data: (breadcrumbs ? { ...product, breadcrumbs } : product) as Product
     }
 
-    return successResponse(res, response.data)
+    if (isPublic) {
+      await setCatalogCacheEntry(cacheKey, response.data, [
+        catalogTags.product(product.id),
+        ...(summary.categoryId ? [catalogTags.category(summary.categoryId)] : []),
+        ...(breadcrumbs || []).map(category => catalogTags.category(category.id)),
+        ...(product.collections || []).map((item: { collectionId: string }) => catalogTags.collection(item.collectionId))
+      ])
+    }
+
+    return successResponse(res, withReservedQuantities(response.data as Product, reserved))
   } catch (error) {
     // Log error securely without exposing sensitive data
     console.error('Error fetching product:', {
@@ -708,5 +1723,7 @@ export {
   createProduct,
   updateProduct,
   deleteProduct,
+  restoreProduct,
+  purgeProduct,
   getProductBySlug
 }
\ No newline at end of file
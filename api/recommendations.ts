@@ -0,0 +1,114 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  Product,
+  ProductRecommendation,
+  ProductStatus,
+  RecommendationReason,
+  ShopApiResponse
+} from '../src/types'
+import { isWithinPublishWindow, MAX_RECOMMENDATIONS } from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { buildRecommendableWhere } from '../src/services/recommendations'
+import { productListInclude } from './products'
+
+const DEFAULT_RECOMMENDATION_LIMIT = 4
+
+// GET /api/shop/products/[id]/recommendations - Products to show alongside a
+// product: frequently bought together first, then similar products
+async function getRecommendations(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 200 }, // Loaded with every product view
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { id, limit = DEFAULT_RECOMMENDATION_LIMIT.toString() } = req.query
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || DEFAULT_RECOMMENDATION_LIMIT, 1), MAX_RECOMMENDATIONS)
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      select: { id: true, status: true, deletedAt: true, publishAt: true, unpublishAt: true }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    // Hidden products only have recommendations for admins
+    if (product.status !== ProductStatus.ACTIVE || product.deletedAt || !isWithinPublishWindow(product)) {
+      const session = await getSession({ req })
+      let isAdmin = false
+
+      if (session?.user) {
+        // Get user from database to verify role (don't trust client session)
+        const user = await prisma.user.findUnique({
+          where: { id: session.user.id },
+          select: { id: true, role: true }
+        })
+        isAdmin = user?.role === 'admin'
+      }
+
+      if (!isAdmin) {
+        return errorResponse(res, 'Product not found', 404)
+      }
+    }
+
+    // Stored lists are refreshed on a schedule, so recommended products are
+    // checked again for stock and visibility here
+    const recommendations = await prisma.productRecommendation.findMany({
+      where: {
+        productId: product.id,
+        recommended: buildRecommendableWhere()
+      },
+      include: {
+        recommended: {
+          include: productListInclude
+        }
+      },
+      orderBy: {
+        position: 'asc'
+      },
+      take: limitNum
+    })
+
+    const response: ShopApiResponse<ProductRecommendation[]> = {
+      success: true,
+      data: recommendations.map((recommendation: { recommended: unknown; reason: string; score: number }) => ({
+        product: recommendation.recommended as Product,
+        reason: recommendation.reason as RecommendationReason,
+        score: recommendation.score
+      }))
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching recommendations:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch recommendations', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getRecommendations
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getRecommendations
+}
\ No newline at end of file
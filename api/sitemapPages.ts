@@ -0,0 +1,7 @@
+import { createApiHandler } from '@freedompress/core'
+import { getSitemapPage } from './sitemaps'
+
+// Handler for /api/shop/sitemap/[section]/[page]
+export default createApiHandler({
+  GET: getSitemapPage
+})
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { createApiHandler, errorResponse } from '@freedompress/core'
+import {
+  buildWeakETag,
+  getSitemapPageCount,
+  latestDate,
+  toSitemapIndexXML,
+  toSitemapXML,
+  SitemapEntry,
+  SitemapSection,
+  SITEMAP_SECTIONS
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { withConditionalGet } from '../src/middleware/httpCache'
+import { getSitemapSectionStats, loadSitemapEntries } from '../src/services/sitemaps'
+import { getStorefrontUrl } from '../src/services/settings'
+
+// GET /api/shop/sitemap - Sitemap index listing a page per 50,000 product
+// and category URLs
+async function getSitemapIndex(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 30 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const baseUrl = await getStorefrontUrl(req)
+    const now = new Date()
+    const sitemaps: SitemapEntry[] = []
+    const etagParts: Array<string | number | Date | null> = [baseUrl]
+
+    for (const section of SITEMAP_SECTIONS) {
+      const stats = await getSitemapSectionStats(section, now)
+      const pageCount = getSitemapPageCount(stats.total)
+      etagParts.push(section, stats.total, stats.lastModified)
+
+      for (let page = 1; page <= pageCount; page++) {
+        sitemaps.push({
+          loc: `${baseUrl}/api/shop/sitemap/${section}/${page}`,
+          lastmod: stats.lastModified
+        })
+      }
+    }
+
+    const lastModified = latestDate(sitemaps.map(sitemap => sitemap.lastmod))
+    const notModified = withConditionalGet(req, res, {
+      etag: buildWeakETag(etagParts),
+      lastModified: lastModified ?? undefined
+    }, 'public')
+
+    if (notModified) {
+      return // Client's copy is current
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8')
+    return res.status(200).send(toSitemapIndexXML(sitemaps))
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error building sitemap index:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to build sitemap', 500)
+  }
+}
+
+// GET /api/shop/sitemap/[section]/[page] - One page of product or category
+// URLs. Only active, published products are listed.
+async function getSitemapPage(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 30 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { section, page } = req.query
+    const pageNumber = parseInt(page as string)
+
+    if (!SITEMAP_SECTIONS.includes(section as SitemapSection)) {
+      return errorResponse(res, `Sitemap section must be one of: ${SITEMAP_SECTIONS.join(', ')}`, 404)
+    }
+
+    const sitemapSection = section as SitemapSection
+    const now = new Date()
+    const stats = await getSitemapSectionStats(sitemapSection, now)
+
+    if (isNaN(pageNumber) || pageNumber < 1 || pageNumber > getSitemapPageCount(stats.total)) {
+      return errorResponse(res, 'Sitemap page not found', 404)
+    }
+
+    const baseUrl = await getStorefrontUrl(req)
+    const notModified = withConditionalGet(req, res, {
+      etag: buildWeakETag([baseUrl, sitemapSection, pageNumber, stats.total, stats.lastModified]),
+      lastModified: stats.lastModified ?? undefined
+    }, 'public')
+
+    if (notModified) {
+      return // Client's copy is current
+    }
+
+    const entries = await loadSitemapEntries(sitemapSection, pageNumber, baseUrl, now)
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8')
+    return res.status(200).send(toSitemapXML(entries))
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error building sitemap:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to build sitemap', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getSitemapIndex
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getSitemapIndex,
+  getSitemapPage
+}
\ No newline at end of file
@@ -0,0 +1,536 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getSession } from 'next-auth/react'
+import { prisma } from '@freedompress/core'
+import { createApiHandler, successResponse, errorResponse } from '@freedompress/core'
+import {
+  ProductVariantInput,
+  VariantOptionsInput,
+  ShopApiResponse,
+  ProductVariant,
+  ProductStatus,
+  ProductRevisionAction,
+  ProductType,
+  InventoryMovementReason
+} from '../src/types'
+import {
+  validateVariantData,
+  validateVariantOptions,
+  generateProductVariants,
+  getVariantName,
+  isWithinPublishWindow,
+  toWindowDate
+} from '../src/utils'
+import { withSecurity } from '../src/middleware/security'
+import { indexProduct } from '../src/services/productSearch'
+import { recordProductRevision } from '../src/services/productRevisions'
+import { syncProductCollections } from '../src/services/smartCollections'
+import { syncBundlesContaining, findBundlesUsingVariants } from '../src/services/bundles'
+import { invalidateCatalog } from '../src/services/catalogCache'
+import { syncStockTotals } from '../src/services/inventory'
+import { captureStock, recordStockChanges } from '../src/services/inventoryMovements'
+
+// Build Prisma create data for a variant, falling back to the parent product
+export function buildVariantCreateData(
+  variant: ProductVariantInput,
+  product: { name: string; price: number }
+) {
+  return {
+    name: variant.name || getVariantName(variant) || product.name,
+    sku: variant.sku,
+    barcode: variant.barcode,
+    price: variant.price ?? product.price,
+    comparePrice: variant.comparePrice,
+    costPrice: variant.costPrice,
+    quantity: variant.quantity ?? 0,
+    trackQuantity: variant.trackQuantity ?? true,
+    backorderPolicy: variant.backorderPolicy,
+    expectedShipDate: toWindowDate(variant.expectedShipDate),
+    maxBackorderQuantity: variant.maxBackorderQuantity,
+    option1Name: variant.option1Name,
+    option1Value: variant.option1Value,
+    option2Name: variant.option2Name,
+    option2Value: variant.option2Value,
+    option3Name: variant.option3Name,
+    option3Value: variant.option3Value,
+    weight: variant.weight,
+    length: variant.length,
+    width: variant.width,
+    height: variant.height,
+    status: variant.status ?? ProductStatus.ACTIVE,
+    images: {
+      create: variant.images?.map((image, index) => ({
+        url: image.url,
+        altText: image.altText,
+        position: image.position ?? index
+      })) || []
+    }
+  }
+}
+
+// Build Prisma update data for a variant; omitted fields are left unchanged
+export function buildVariantUpdateData(variant: ProductVariantInput) {
+  return {
+    name: variant.name,
+    sku: variant.sku,
+    barcode: variant.barcode,
+    price: variant.price,
+    comparePrice: variant.comparePrice,
+    costPrice: variant.costPrice,
+    quantity: variant.quantity,
+    trackQuantity: variant.trackQuantity,
+    backorderPolicy: variant.backorderPolicy,
+    expectedShipDate: toWindowDate(variant.expectedShipDate),
+    maxBackorderQuantity: variant.maxBackorderQuantity,
+    option1Name: variant.option1Name,
+    option1Value: variant.option1Value,
+    option2Name: variant.option2Name,
+    option2Value: variant.option2Value,
+    option3Name: variant.option3Name,
+    option3Value: variant.option3Value,
+    weight: variant.weight,
+    length: variant.length,
+    width: variant.width,
+    height: variant.height,
+    status: variant.status,
+    images: variant.images ? {
+      deleteMany: {},
+      create: variant.images.map((image, index) => ({
+        url: image.url,
+        altText: image.altText,
+        position: image.position ?? index
+      }))
+    } : undefined
+  }
+}
+
+// Resolve the variant list for a product payload: explicit variants win,
+// otherwise the option matrix is expanded into one variant per combination
+export function resolveVariantInputs(data: {
+  variants?: ProductVariantInput[]
+  variantOptions?: VariantOptionsInput
+}): ProductVariantInput[] | undefined {
+  if (data.variants) {
+    return data.variants
+  }
+  if (data.variantOptions) {
+    return generateProductVariants(data.variantOptions)
+  }
+  return undefined
+}
+
+// Keep Product.hasVariants in line with the variant rows that exist
+export async function syncHasVariants(productId: string) {
+  const variantCount = await prisma.productVariant.count({
+    where: { productId }
+  })
+
+  await prisma.product.update({
+    where: { id: productId },
+    data: { hasVariants: variantCount > 0 }
+  })
+}
+
+// Variants are part of the product's state, so editing one moves the
+// product's version on and stale product edits are caught
+async function bumpProductVersion(productId: string) {
+  await prisma.product.update({
+    where: { id: productId },
+    data: { version: { increment: 1 } }
+  })
+}
+
+// Two variants describe the same option combination
+function hasSameOptions(a: ProductVariantInput, b: ProductVariantInput): boolean {
+  return (a.option1Value || null) === (b.option1Value || null) &&
+    (a.option2Value || null) === (b.option2Value || null) &&
+    (a.option3Value || null) === (b.option3Value || null)
+}
+
+// GET /api/shop/products/[id]/variants - List variants of a product
+async function getVariants(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 200 },
+    csrf: false, // GET requests don't need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const { id } = req.query
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      select: { id: true, status: true, publishAt: true, unpublishAt: true }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    // Only show active products and variants for non-admin users
+    const session = await getSession({ req })
+    let isAdmin = false
+
+    if (session?.user) {
+      // Get user from database to verify role (don't trust client session)
+      const user = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { id: true, role: true }
+      })
+      isAdmin = user?.role === 'admin'
+    }
+
+    if (!isAdmin && (product.status !== ProductStatus.ACTIVE || !isWithinPublishWindow(product))) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    const variants = await prisma.productVariant.findMany({
+      where: {
+        productId: product.id,
+        ...(isAdmin ? {} : { status: ProductStatus.ACTIVE })
+      },
+      include: {
+        images: {
+          orderBy: {
+            position: 'asc'
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    })
+
+    const response: ShopApiResponse<ProductVariant[]> = {
+      success: true,
+      data: variants as ProductVariant[]
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error fetching variants:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to fetch variants', 500)
+  }
+}
+
+// POST /api/shop/products/[id]/variants - Create a variant, or seed variants
+// from an option matrix when the body is { options: { Size: [...], ... } }
+async function createVariant(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 }, // Stricter rate limit for POST requests
+    csrf: true, // POST requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id } = req.query
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      include: { variants: true }
+    })
+
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404)
+    }
+
+    if (product.type === ProductType.BUNDLE) {
+      return errorResponse(res, 'Bundles cannot have variants of their own', 400)
+    }
+
+    const { options } = req.body as { options?: VariantOptionsInput }
+    let variantInputs: ProductVariantInput[]
+
+    if (options) {
+      const validation = validateVariantOptions(options)
+      if (!validation.valid) {
+        return errorResponse(res, 'Invalid variant options', 400, validation.errors)
+      }
+
+      // Skip combinations that already exist so seeding can be re-run safely
+      variantInputs = generateProductVariants(options).filter(candidate =>
+        !product.variants.some((existing: ProductVariantInput) => hasSameOptions(existing, candidate))
+      )
+    } else {
+      const variantData = req.body as ProductVariantInput
+      const validation = validateVariantData(variantData)
+      if (!validation.valid) {
+        return errorResponse(res, 'Invalid variant data', 400, validation.errors)
+      }
+
+      if (product.variants.some((existing: ProductVariantInput) => hasSameOptions(existing, variantData))) {
+        return errorResponse(res, 'A variant with these options already exists', 400)
+      }
+
+      variantInputs = [variantData]
+    }
+
+    const stockBefore = await captureStock(product.id)
+    const variants = await prisma.$transaction(
+      variantInputs.map(variant => prisma.productVariant.create({
+        data: {
+          productId: product.id,
+          ...buildVariantCreateData(variant, product)
+        },
+        include: {
+          images: {
+            orderBy: {
+              position: 'asc'
+            }
+          }
+        }
+      }))
+    )
+
+    await recordStockChanges(product.id, stockBefore, InventoryMovementReason.RESTOCK, {
+      userId: user.id,
+      note: 'Opening stock'
+    })
+    await bumpProductVersion(product.id)
+    await syncHasVariants(product.id)
+    await indexProduct(product.id)
+    await syncProductCollections(product.id)
+    await recordProductRevision(product.id, ProductRevisionAction.UPDATE, user.id)
+    await invalidateCatalog({ type: 'product', productId: product.id })
+
+    const response: ShopApiResponse<ProductVariant[]> = {
+      success: true,
+      data: variants as ProductVariant[],
+      message: 'Variants created successfully'
+    }
+
+    return successResponse(res, response.data, 201)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error creating variant:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to create variant', 500)
+  }
+}
+
+// PUT /api/shop/products/[id]/variants/[variantId] - Update a variant
+async function updateVariant(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 20 }, // Stricter rate limit for PUT requests
+    csrf: true, // PUT requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id, variantId } = req.query
+    const variantData = req.body as ProductVariantInput
+
+    // Check the variant exists and belongs to this product
+    const existingVariant = await prisma.productVariant.findFirst({
+      where: { id: variantId as string, productId: id as string }
+    })
+
+    if (!existingVariant) {
+      return errorResponse(res, 'Variant not found', 404)
+    }
+
+    const validation = validateVariantData(variantData)
+    if (!validation.valid) {
+      return errorResponse(res, 'Invalid variant data', 400, validation.errors)
+    }
+
+    const stockBefore = await captureStock(existingVariant.productId)
+    const updatedVariant = await prisma.productVariant.update({
+      where: { id: existingVariant.id },
+      data: buildVariantUpdateData(variantData),
+      include: {
+        images: {
+          orderBy: {
+            position: 'asc'
+          }
+        }
+      }
+    })
+
+    // Stock kept per location wins over a quantity sent in the update
+    if (await syncStockTotals(existingVariant.productId)) {
+      const synced = await prisma.productVariant.findUnique({
+        where: { id: existingVariant.id },
+        select: { quantity: true }
+      })
+      updatedVariant.quantity = synced?.quantity ?? updatedVariant.quantity
+    }
+    await recordStockChanges(existingVariant.productId, stockBefore, InventoryMovementReason.MANUAL, { userId: user.id })
+
+    await bumpProductVersion(existingVariant.productId)
+    await syncBundlesContaining(existingVariant.productId)
+    await indexProduct(existingVariant.productId)
+    await syncProductCollections(existingVariant.productId)
+    await recordProductRevision(existingVariant.productId, ProductRevisionAction.UPDATE, user.id)
+    await invalidateCatalog({ type: 'product', productId: existingVariant.productId })
+
+    const response: ShopApiResponse<ProductVariant> = {
+      success: true,
+      data: updatedVariant as ProductVariant,
+      message: 'Variant updated successfully'
+    }
+
+    return successResponse(res, response.data)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error updating variant:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to update variant', 500)
+  }
+}
+
+// DELETE /api/shop/products/[id]/variants/[variantId] - Delete a variant
+async function deleteVariant(req: NextApiRequest, res: NextApiResponse) {
+  // Apply security middleware with CSRF protection
+  const securityPassed = await withSecurity(req, res, {
+    rateLimit: { maxRequests: 10 }, // Very strict rate limit for DELETE requests
+    csrf: true, // DELETE requests need CSRF protection
+    sanitizeInput: true,
+    validateIP: true,
+    setHeaders: true
+  })
+
+  if (!securityPassed) {
+    return // Security middleware already sent the response
+  }
+
+  try {
+    const session = await getSession({ req })
+    if (!session?.user) {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    // Get user from database to verify role (don't trust client session)
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, role: true }
+    })
+
+    if (!user || user.role !== 'admin') {
+      return errorResponse(res, 'Unauthorized', 401)
+    }
+
+    const { id, variantId } = req.query
+
+    // Check the variant exists and belongs to this product
+    const existingVariant = await prisma.productVariant.findFirst({
+      where: { id: variantId as string, productId: id as string }
+    })
+
+    if (!existingVariant) {
+      return errorResponse(res, 'Variant not found', 404)
+    }
+
+    const bundles = await findBundlesUsingVariants({ id: existingVariant.id })
+    if (bundles.length > 0) {
+      return errorResponse(
+        res,
+        'Variant is a component of a bundle and cannot be deleted',
+        409,
+        bundles.map(name => `Used by bundle "${name}"`)
+      )
+    }
+
+    await prisma.productVariant.delete({
+      where: { id: existingVariant.id }
+    })
+
+    await bumpProductVersion(existingVariant.productId)
+    await syncHasVariants(existingVariant.productId)
+    await syncBundlesContaining(existingVariant.productId)
+    await indexProduct(existingVariant.productId)
+    await syncProductCollections(existingVariant.productId)
+    await recordProductRevision(existingVariant.productId, ProductRevisionAction.UPDATE, user.id)
+    await invalidateCatalog({ type: 'product', productId: existingVariant.productId })
+
+    const response: ShopApiResponse = {
+      success: true,
+      message: 'Variant deleted successfully'
+    }
+
+    return successResponse(res, response)
+  } catch (error) {
+    // Log error securely without exposing sensitive data
+    console.error('Error deleting variant:', {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+    return errorResponse(res, 'Failed to delete variant', 500)
+  }
+}
+
+// Main API handler
+export default createApiHandler({
+  GET: getVariants,
+  POST: createVariant
+})
+
+// Export individual handlers for dynamic routes
+export {
+  getVariants,
+  createVariant,
+  updateVariant,
+  deleteVariant
+}
\ No newline at end of file
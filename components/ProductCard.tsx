@@ -2,17 +2,22 @@ import React from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
 import { ProductCardProps } from '../src/types'
-import { formatPrice, getInventoryStatus } from '../src/utils'
+import { buildProductJsonLd, formatPrice, getInventoryStatus, serializeJsonLd } from '../src/utils'
 
 const ProductCard: React.FC<ProductCardProps> = ({
   product,
   showAddToCart = true,
   showQuickView = false,
+  structuredData = false,
+  allowBackorders = false,
   className = ''
 }) => {
-  const inventoryStatus = getInventoryStatus(product)
+  const inventoryStatus = getInventoryStatus(product, allowBackorders)
   const isOutOfStock = inventoryStatus === 'out_of_stock'
   const isLowStock = inventoryStatus === 'low_stock'
+  // Sold out, but still orderable under the backorder policy
+  const isBackorder = inventoryStatus === 'backorder'
+  const isPreorder = inventoryStatus === 'preorder'
   
   const handleAddToCart = () => {
     // This would typically dispatch to a cart store
@@ -26,6 +31,14 @@ const ProductCard: React.FC<ProductCardProps> = ({
 
   return (
     <div className={`group relative bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200 overflow-hidden ${className}`}>
+      {/* Structured Data */}
+      {structuredData && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildProductJsonLd(product, { allowBackorders })) }}
+        />
+      )}
+
       {/* Product Image */}
       <div className="relative aspect-square w-full overflow-hidden">
         <Link href={`/shop/product/${product.slug}`}>
@@ -59,6 +72,16 @@ const ProductCard: React.FC<ProductCardProps> = ({
               Low Stock
             </span>
           )}
+          {isBackorder && (
+            <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
+              Backorder
+            </span>
+          )}
+          {isPreorder && (
+            <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-purple-100 text-purple-800 rounded-full">
+              Pre-order
+            </span>
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -190,7 +213,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
                 : 'bg-primary-600 text-white hover:bg-primary-700'
             }`}
           >
-            {isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
+            {isOutOfStock ? 'Out of Stock' : isPreorder ? 'Pre-order' : isBackorder ? 'Backorder' : 'Add to Cart'}
           </button>
         )}
       </div>
@@ -8,6 +8,7 @@ const ProductList: React.FC<ProductListProps> = ({
   error,
   pagination,
   onLoadMore,
+  allowBackorders = false,
   className = ''
 }) => {
   if (loading) {
@@ -63,6 +64,7 @@ const ProductList: React.FC<ProductListProps> = ({
             product={product}
             showAddToCart={true}
             showQuickView={true}
+            allowBackorders={allowBackorders}
           />
         ))}
       </div>
@@ -70,10 +72,15 @@ const ProductList: React.FC<ProductListProps> = ({
       {/* Pagination */}
       {pagination && (
         <div className="mt-8 flex items-center justify-between">
-          <div className="text-sm text-gray-700">
-            Showing {pagination.page === 1 ? 1 : (pagination.page - 1) * pagination.limit + 1} to{' '}
-            {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} products
-          </div>
+          {/* Totals are only known in offset mode; cursor pages omit them */}
+          {pagination.page !== undefined && pagination.total !== undefined ? (
+            <div className="text-sm text-gray-700">
+              Showing {pagination.page === 1 ? 1 : (pagination.page - 1) * pagination.limit + 1} to{' '}
+              {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} products
+            </div>
+          ) : (
+            <div />
+          )}
 
           <div className="flex items-center space-x-2">
             {pagination.hasPrev && (
@@ -87,7 +94,7 @@ const ProductList: React.FC<ProductListProps> = ({
 
             {/* Page Numbers */}
             <div className="flex items-center space-x-1">
-              {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
+              {Array.from({ length: Math.min(5, pagination.totalPages ?? 0) }, (_, i) => {
                 const page = i + 1
                 const isActive = page === pagination.page
                 
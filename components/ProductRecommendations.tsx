@@ -0,0 +1,54 @@
+import React from 'react'
+import { ProductRecommendationsProps, RecommendationReason } from '../src/types'
+import ProductCard from './ProductCard'
+
+// Recommendations slot for the product detail page. Titled "Frequently bought
+// together" when every suggestion comes from co-purchases.
+const ProductRecommendations: React.FC<ProductRecommendationsProps> = ({
+  recommendations,
+  title,
+  loading = false,
+  allowBackorders = false,
+  className = ''
+}) => {
+  if (loading) {
+    return (
+      <div className={`grid grid-cols-2 md:grid-cols-4 gap-6 ${className}`}>
+        {[...Array(4)].map((_, index) => (
+          <div key={index} className="animate-pulse">
+            <div className="bg-gray-200 aspect-square rounded-lg mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+            <div className="h-6 bg-gray-200 rounded w-1/4"></div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (!recommendations || recommendations.length === 0) {
+    return null
+  }
+
+  const boughtTogether = recommendations.every(
+    recommendation => recommendation.reason === RecommendationReason.BOUGHT_TOGETHER
+  )
+  const heading = title || (boughtTogether ? 'Frequently bought together' : 'You may also like')
+
+  return (
+    <section className={className}>
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">{heading}</h2>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        {recommendations.map(({ product }) => (
+          <ProductCard
+            key={product.id}
+            product={product}
+            showAddToCart={true}
+            allowBackorders={allowBackorders}
+          />
+        ))}
+      </div>
+    </section>
+  )
+}
+
+export default ProductRecommendations
\ No newline at end of file
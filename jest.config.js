@@ -0,0 +1,21 @@
+// Tests live next to the code (src and the api handlers) in __tests__
+// folders and run under Node.
+// The app's tsconfig targets the Next.js bundler (ES modules), so tests are
+// compiled to CommonJS here.
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src', '<rootDir>/api'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        target: 'ES2020',
+        module: 'CommonJS',
+        moduleResolution: 'node',
+        esModuleInterop: true,
+        strict: true
+      }
+    }]
+  }
+}
\ No newline at end of file
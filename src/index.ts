@@ -1,4 +1,11 @@
 import { ModuleInterface } from '@freedompress/core'
+import { rebuildSearchIndex } from './services/productSearch'
+import { startScheduledTasks, stopScheduledTasks } from './services/scheduler'
+import { publishScheduleTask } from './services/publishSchedule'
+import { smartCollectionsTask } from './services/smartCollections'
+import { recommendationsTask } from './services/recommendations'
+import { reservationExpiryTask } from './services/reservations'
+import { clearCatalogCache } from './services/catalogCache'
 
 // Shop Module Configuration
 export const shopModule: ModuleInterface = {
@@ -23,10 +30,32 @@ export const shopModule: ModuleInterface = {
     },
     api: {
       '/api/shop/products': () => import('./api/products'),
+      '/api/shop/products/[id]/variants': () => import('./api/variants'),
+      '/api/shop/products/[id]/revisions': () => import('./api/productRevisions'),
+      '/api/shop/products/[id]/assets': () => import('./api/digitalAssets'),
+      '/api/shop/products/[id]/recommendations': () => import('./api/recommendations'),
+      '/api/shop/products/[id]/inventory': () => import('./api/inventoryLevels'),
+      '/api/shop/products/import': () => import('./api/productImport'),
+      '/api/shop/products/export': () => import('./api/productExport'),
+      '/api/shop/feeds/[channel]': () => import('./api/productFeeds'),
+      '/api/shop/sitemap': () => import('./api/sitemaps'),
+      '/api/shop/sitemap/[section]/[page]': () => import('./api/sitemapPages'),
       '/api/shop/categories': () => import('./api/categories'),
+      '/api/shop/inventory/locations': () => import('./api/inventoryLocations'),
+      '/api/shop/inventory/movements': () => import('./api/inventoryMovements'),
+      '/api/shop/inventory/adjustments': () => import('./api/inventoryAdjustments'),
+      '/api/shop/cache': () => import('./api/catalogCache'),
+      '/api/shop/collections': () => import('./api/collections'),
+      '/api/shop/collections/[id]': () => import('./api/collection'),
+      '/api/shop/collections/[id]/rules': () => import('./api/collectionRules'),
       '/api/shop/cart': () => import('./api/cart'),
+      '/api/shop/cart/items': () => import('./api/cartItems'),
+      '/api/shop/cart/items/[id]': () => import('./api/cartItem'),
       '/api/shop/checkout': () => import('./api/checkout'),
       '/api/shop/orders': () => import('./api/orders'),
+      '/api/shop/orders/[id]/cancel': () => import('./api/orderCancel'),
+      '/api/shop/orders/[id]/downloads': () => import('./api/orderDownloads'),
+      '/api/shop/downloads/[linkId]': () => import('./api/downloads'),
       '/api/shop/customers': () => import('./api/customers'),
       '/api/shop/payments': () => import('./api/payments')
     },
@@ -43,6 +72,7 @@ export const shopModule: ModuleInterface = {
       ProductList: () => import('./components/ProductList'),
       ProductCard: () => import('./components/ProductCard'),
       ProductDetail: () => import('./components/ProductDetail'),
+      ProductRecommendations: () => import('./components/ProductRecommendations'),
       ShoppingCart: () => import('./components/ShoppingCart'),
       CheckoutForm: () => import('./components/CheckoutForm'),
       OrderHistory: () => import('./components/OrderHistory')
@@ -68,7 +98,9 @@ export const shopModule: ModuleInterface = {
   async install(context) {
     // Installing shop module
     
-    // Add shop-specific settings
+    // Add shop-specific settings. Backorders start from the allowBackorders
+    // default; products and variants can override it.
+    const defaults = this.getDefaultConfig()
     await context.prisma.setting.createMany({
       data: [
         { key: 'shop_currency', value: 'USD', category: 'shop' },
@@ -78,11 +110,21 @@ export const shopModule: ModuleInterface = {
         { key: 'shop_stripe_public_key', value: '', category: 'shop' },
         { key: 'shop_stripe_secret_key', value: '', category: 'shop' },
         { key: 'shop_inventory_tracking', value: 'true', category: 'shop' },
-        { key: 'shop_allow_backorders', value: 'false', category: 'shop' }
+        { key: 'shop_allow_backorders', value: String(defaults.allowBackorders), category: 'shop' },
+        { key: 'shop_reservation_ttl_minutes', value: '15', category: 'shop' },
+        { key: 'shop_download_expiry_hours', value: '72', category: 'shop' },
+        { key: 'shop_download_limit', value: '5', category: 'shop' },
+        { key: 'shop_site_url', value: '', category: 'shop' },
+        { key: 'shop_weight_unit', value: 'kg', category: 'shop' },
+        { key: 'shop_feed_brand', value: '', category: 'shop' },
+        { key: 'shop_feed_token', value: '', category: 'shop' }
       ],
       skipDuplicates: true
     })
     
+    // Create and backfill the full-text product search index
+    await rebuildSearchIndex(context.prisma)
+    
     // Shop module installed successfully
   },
 
@@ -107,6 +149,10 @@ export const shopModule: ModuleInterface = {
       provider: 'stripe'
     })
     
+    // Start background tasks (scheduled publishing, smart collections, recommendations,
+    // expiring stock reservations)
+    startScheduledTasks([publishScheduleTask, smartCollectionsTask, recommendationsTask, reservationExpiryTask], context)
+    
     // Shop module activated successfully
   },
 
@@ -117,6 +163,12 @@ export const shopModule: ModuleInterface = {
     context.events.emit('module:routes:unregister', { module: 'shop' })
     context.events.emit('module:pages:unregister', { module: 'shop' })
     
+    // Stop background tasks
+    stopScheduledTasks()
+    
+    // Drop cached catalog reads
+    await clearCatalogCache()
+    
     // Shop module deactivated successfully
   },
 
@@ -166,4 +218,8 @@ export default shopModule
 export * from './types'
 export * from './hooks'
 export * from './stores'
-export * from './utils'
\ No newline at end of file
+export * from './utils'
+
+// Catalog cache store, for plugging in Redis or a compatible stand-in
+export { setCatalogCacheAdapter, MemoryCacheAdapter } from './services/catalogCache'
+export type { CatalogCacheAdapter, CatalogCacheMetrics } from './services/catalogCache'
\ No newline at end of file
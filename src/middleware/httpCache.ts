@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import {
+  CacheAudience,
+  CacheValidators,
+  buildCatalogCacheControl,
+  isNotModified
+} from '../utils/httpCache'
+
+// Conditional GET middleware: sets the caching headers and answers 304 when
+// the client's copy is still current. Returns true if the response was sent.
+export function withConditionalGet(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  validators: CacheValidators,
+  audience: CacheAudience
+): boolean {
+  res.setHeader('ETag', validators.etag)
+  if (validators.lastModified) {
+    res.setHeader('Last-Modified', validators.lastModified.toUTCString())
+  }
+  res.setHeader('Cache-Control', buildCatalogCacheControl(audience))
+  // The same URL serves different content with and without a session
+  res.setHeader('Vary', 'Cookie, Authorization')
+
+  if (isNotModified(req.headers as { 'if-none-match'?: string; 'if-modified-since'?: string }, validators)) {
+    res.status(304).end()
+    return true
+  }
+
+  return false
+}
\ No newline at end of file
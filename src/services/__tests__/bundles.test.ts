@@ -0,0 +1,53 @@
+import { BundlePricing, ProductType } from '../../types'
+import { syncBundle } from '../bundles'
+
+jest.mock('@freedompress/core', () => ({ prisma: {} }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../catalogCache', () => ({ invalidateCatalog: jest.fn() }))
+
+describe('syncBundle', () => {
+  const mug = { price: 12, trackQuantity: true, quantity: 8, deletedAt: null }
+  const tea = { price: 6, trackQuantity: false, quantity: 0, deletedAt: null }
+
+  it('derives stock from the scarcest component', async () => {
+    const db = {
+      product: {
+        findUnique: jest.fn().mockResolvedValue({
+          type: ProductType.BUNDLE,
+          bundlePricing: BundlePricing.COMPONENT_SUM,
+          price: 0,
+          bundleItems: [
+            { quantity: 2, product: mug, variant: null },
+            { quantity: 1, product: tea, variant: null }
+          ]
+        }),
+        update: jest.fn()
+      }
+    }
+
+    expect(await syncBundle('b1', db)).toEqual({ price: 30, trackQuantity: true, quantity: 4 })
+  })
+
+  it('has no stock while a component is archived', async () => {
+    const db = {
+      product: {
+        findUnique: jest.fn().mockResolvedValue({
+          type: ProductType.BUNDLE,
+          bundlePricing: BundlePricing.COMPONENT_SUM,
+          price: 0,
+          bundleItems: [
+            { quantity: 2, product: mug, variant: null },
+            { quantity: 1, product: { ...tea, deletedAt: new Date('2026-06-01T00:00:00.000Z') }, variant: null }
+          ]
+        }),
+        update: jest.fn()
+      }
+    }
+
+    expect(await syncBundle('b1', db)).toEqual({ price: 30, trackQuantity: true, quantity: 0 })
+    expect(db.product.update).toHaveBeenCalledWith({
+      where: { id: 'b1' },
+      data: { price: 30, trackQuantity: true, quantity: 0 }
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,110 @@
+import {
+  MemoryCacheAdapter,
+  buildCatalogCacheKey,
+  catalogTags,
+  clearCatalogCache,
+  getCatalogCacheEntry,
+  getCatalogCacheMetrics,
+  invalidateCatalog,
+  resetCatalogCacheMetrics,
+  setCatalogCacheAdapter,
+  setCatalogCacheEntry
+} from '../catalogCache'
+
+describe('catalog cache', () => {
+  beforeEach(() => {
+    setCatalogCacheAdapter(new MemoryCacheAdapter())
+    resetCatalogCacheMetrics()
+  })
+
+  it('builds the same key whatever the param order', () => {
+    expect(buildCatalogCacheKey('products', { page: '2', tag: 'sale', search: undefined }))
+      .toBe(buildCatalogCacheKey('products', { tag: 'sale', page: '2' }))
+    expect(buildCatalogCacheKey('products', { page: '2' })).not.toBe(buildCatalogCacheKey('product', { page: '2' }))
+  })
+
+  it('drops a product\'s detail entry and every listing when the product changes', async () => {
+    await setCatalogCacheEntry('detail:p1', { id: 'p1' }, [catalogTags.product('p1')])
+    await setCatalogCacheEntry('detail:p2', { id: 'p2' }, [catalogTags.product('p2')])
+    await setCatalogCacheEntry('listing', ['p2'], [catalogTags.listings])
+
+    await invalidateCatalog({ type: 'product', productId: 'p1' })
+
+    expect(await getCatalogCacheEntry('detail:p1')).toBeUndefined()
+    expect(await getCatalogCacheEntry('listing')).toBeUndefined()
+    expect(await getCatalogCacheEntry('detail:p2')).toEqual({ id: 'p2' })
+  })
+
+  it('keeps listings that don\'t depend on stock when inventory moves', async () => {
+    await setCatalogCacheEntry('detail:p1', { id: 'p1' }, [catalogTags.product('p1')])
+    await setCatalogCacheEntry('in-stock', [], [catalogTags.listings, catalogTags.stockListings])
+    await setCatalogCacheEntry('newest', [], [catalogTags.listings])
+
+    await invalidateCatalog({ type: 'inventory', productIds: ['p1'] })
+
+    expect(await getCatalogCacheEntry('detail:p1')).toBeUndefined()
+    expect(await getCatalogCacheEntry('in-stock')).toBeUndefined()
+    expect(await getCatalogCacheEntry('newest')).toEqual([])
+  })
+
+  it('drops the member products when a collection is hidden', async () => {
+    await setCatalogCacheEntry('detail:p1', { id: 'p1' }, [catalogTags.product('p1')])
+    await setCatalogCacheEntry('summer', [], [catalogTags.collection('col1'), catalogTags.collectionListings])
+    await setCatalogCacheEntry('by-category', [], [catalogTags.categoryListings])
+
+    await invalidateCatalog({ type: 'collection', collectionId: 'col1', productIds: ['p1'] })
+
+    expect(await getCatalogCacheEntry('detail:p1')).toBeUndefined()
+    expect(await getCatalogCacheEntry('summer')).toBeUndefined()
+    expect(await getCatalogCacheEntry('by-category')).toEqual([])
+  })
+
+  it('counts hits, misses, writes and invalidated entries', async () => {
+    await setCatalogCacheEntry('detail:p1', { id: 'p1' }, [catalogTags.product('p1')])
+    await getCatalogCacheEntry('detail:p1')
+    await getCatalogCacheEntry('detail:p2')
+    await invalidateCatalog({ type: 'category', categoryId: 'c1' })
+    await invalidateCatalog({ type: 'product', productId: 'p1' })
+
+    expect(getCatalogCacheMetrics()).toEqual({
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+      writes: 1,
+      invalidations: 1,
+      errors: 0
+    })
+  })
+
+  it('treats a failing store as a miss', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const broken = new MemoryCacheAdapter()
+    broken.get = jest.fn().mockRejectedValue(new Error('connection refused'))
+    setCatalogCacheAdapter(broken)
+
+    expect(await getCatalogCacheEntry('detail:p1')).toBeUndefined()
+    expect(getCatalogCacheMetrics()).toMatchObject({ misses: 1, errors: 1 })
+    consoleError.mockRestore()
+  })
+
+  it('expires entries and evicts the least recently used one', async () => {
+    const store = new MemoryCacheAdapter(2)
+    await store.set('a', '1', 60)
+    await store.set('b', '2', 60)
+    await store.get('a')
+    await store.set('c', '3', 60)
+
+    expect(await store.get('a')).toBe('1')
+    expect(await store.get('b')).toBeNull()
+
+    await store.set('stale', '4', 0)
+    expect(await store.get('stale')).toBeNull()
+  })
+
+  it('clears every entry', async () => {
+    await setCatalogCacheEntry('detail:p1', { id: 'p1' }, [catalogTags.product('p1')])
+    await clearCatalogCache()
+
+    expect(await getCatalogCacheEntry('detail:p1')).toBeUndefined()
+  })
+})
\ No newline at end of file
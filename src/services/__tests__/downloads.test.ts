@@ -0,0 +1,54 @@
+import { signDownloadLink, verifyDownloadSignature, buildDownloadUrl } from '../downloads'
+
+// Signing never touches the database; the client only has to be importable
+jest.mock('@freedompress/core', () => ({ prisma: {} }), { virtual: true })
+
+describe('signed download links', () => {
+  const expires = 1_800_000_000
+
+  beforeEach(() => {
+    process.env.DOWNLOAD_LINK_SECRET = 'test-secret'
+  })
+
+  afterAll(() => {
+    delete process.env.DOWNLOAD_LINK_SECRET
+  })
+
+  it('verifies a signature for the same link and expiry', () => {
+    const signature = signDownloadLink('link1', expires)
+
+    expect(signature).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(verifyDownloadSignature('link1', expires, signature)).toBe(true)
+  })
+
+  it('rejects a changed link id, expiry or signature', () => {
+    const signature = signDownloadLink('link1', expires)
+
+    expect(verifyDownloadSignature('link2', expires, signature)).toBe(false)
+    expect(verifyDownloadSignature('link1', expires + 3600, signature)).toBe(false)
+    expect(verifyDownloadSignature('link1', expires, signature.slice(1))).toBe(false)
+    expect(verifyDownloadSignature('link1', expires, '')).toBe(false)
+  })
+
+  it('rejects signatures made with another secret', () => {
+    const signature = signDownloadLink('link1', expires)
+    process.env.DOWNLOAD_LINK_SECRET = 'rotated-secret'
+
+    expect(verifyDownloadSignature('link1', expires, signature)).toBe(false)
+  })
+
+  it('requires a signing secret', () => {
+    delete process.env.DOWNLOAD_LINK_SECRET
+
+    expect(() => signDownloadLink('link1', expires)).toThrow('DOWNLOAD_LINK_SECRET environment variable is required')
+  })
+
+  it('builds URLs whose query verifies', () => {
+    const url = buildDownloadUrl('link1', new Date(expires * 1000 + 999))
+    const query = new URLSearchParams(url.split('?')[1])
+
+    expect(url.startsWith('/api/shop/downloads/link1?')).toBe(true)
+    expect(query.get('expires')).toBe(String(expires))
+    expect(verifyDownloadSignature('link1', Number(query.get('expires')), query.get('signature')!)).toBe(true)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { BackorderPolicy, OrderCreateInput, OrderItemStockStatus, ProductStatus } from '../../types'
+import { placeOrder } from '../orders'
+
+jest.mock('@freedompress/core', () => ({ prisma: {} }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../settings', () => ({
+  getNumericShopSetting: jest.fn(async (_key: string, fallback: number) => fallback)
+}))
+jest.mock('../backorders', () => ({ loadStockPolicies: jest.fn() }))
+jest.mock('../inventory', () => ({ expandBundleLines: jest.fn(async (lines: unknown) => lines) }))
+jest.mock('../catalogCache', () => ({ invalidateCatalog: jest.fn() }))
+jest.mock('../downloads', () => ({ issueDownloadLinks: jest.fn() }))
+
+const { loadStockPolicies } = jest.requireMock('../backorders')
+const { invalidateCatalog } = jest.requireMock('../catalogCache')
+
+describe('placeOrder', () => {
+  const cart = {
+    id: 'cart1',
+    discountAmount: 0,
+    items: [{ productId: 'p1', variantId: null, quantity: 2 }]
+  }
+  const address = {
+    firstName: 'Ada',
+    lastName: 'Shopper',
+    address1: '1 Main St',
+    city: 'Springfield',
+    state: 'IL',
+    country: 'US',
+    zipCode: '62701'
+  }
+  const input: OrderCreateInput = {
+    email: 'shopper@example.com',
+    shippingAddress: address,
+    billingAddress: address,
+    paymentMethod: 'card'
+  }
+  let tx: any
+  let db: any
+
+  beforeEach(() => {
+    invalidateCatalog.mockClear()
+    loadStockPolicies.mockResolvedValue(new Map([
+      ['p1:', {
+        tracked: true,
+        onHand: 5,
+        policy: { policy: BackorderPolicy.DENY, expectedShipDate: null, maxBackorderQuantity: null }
+      }]
+    ]))
+    tx = {
+      product: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'p1', price: 10, requiresShipping: true, variants: [] }])
+      },
+      order: {
+        create: jest.fn().mockResolvedValue({ id: 'o1' }),
+        delete: jest.fn(),
+        findUnique: jest.fn().mockResolvedValue({ id: 'o1', items: [] })
+      },
+      orderItem: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'oi1', productId: 'p1', variantId: null, quantity: 2 }]),
+        update: jest.fn()
+      },
+      stockReservation: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn(),
+        create: jest.fn(async ({ data }: { data: unknown }) => data)
+      },
+      cartItem: { deleteMany: jest.fn() }
+    }
+    // Every query has to go through the transaction
+    db = { $transaction: jest.fn(async (run: (client: unknown) => unknown) => run(tx)) }
+  })
+
+  it('creates the order, holds its stock and empties the cart in one transaction', async () => {
+    const result = await placeOrder(cart, input, 'u1', db)
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1)
+    expect(result).toEqual({ order: { id: 'o1', items: [] }, shortages: [] })
+    expect(tx.order.create.mock.calls[0][0].data).toMatchObject({ subtotal: 20, userId: 'u1' })
+    expect(tx.stockReservation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ orderId: 'o1', productId: 'p1', quantity: 2 })
+    })
+    expect(tx.orderItem.update).toHaveBeenCalledWith({
+      where: { id: 'oi1' },
+      data: { stockStatus: OrderItemStockStatus.IN_STOCK, backorderedQuantity: 0, expectedShipDate: null }
+    })
+    expect(tx.cartItem.deleteMany).toHaveBeenCalledWith({ where: { cartId: 'cart1' } })
+    expect(invalidateCatalog).toHaveBeenCalledWith({ type: 'inventory', productIds: ['p1'] })
+  })
+
+  it('only prices products and variants customers can buy', async () => {
+    tx.product.findMany.mockResolvedValue([])
+
+    const result = await placeOrder(cart, input, 'u1', db)
+
+    expect(tx.product.findMany.mock.calls[0][0]).toMatchObject({
+      where: {
+        AND: [
+          { id: { in: ['p1'] } },
+          { AND: [{ status: ProductStatus.ACTIVE, deletedAt: null }, expect.anything()] }
+        ]
+      },
+      select: { variants: { where: { status: ProductStatus.ACTIVE } } }
+    })
+    expect(result).toEqual({
+      order: null,
+      shortages: [{ productId: 'p1', variantId: null, requested: 2, available: 0 }]
+    })
+    expect(tx.order.create).not.toHaveBeenCalled()
+  })
+
+  it('keeps no order when other checkouts hold the stock', async () => {
+    tx.stockReservation.findMany.mockResolvedValue([{ productId: 'p1', variantId: null, quantity: 4 }])
+
+    const result = await placeOrder(cart, input, 'u1', db)
+
+    expect(result.order).toBeNull()
+    expect(result.shortages).toEqual([{ productId: 'p1', variantId: null, requested: 2, available: 1 }])
+    expect(tx.order.delete).toHaveBeenCalledWith({ where: { id: 'o1' } })
+    expect(tx.stockReservation.create).not.toHaveBeenCalled()
+    expect(tx.cartItem.deleteMany).not.toHaveBeenCalled()
+    expect(invalidateCatalog).not.toHaveBeenCalled()
+  })
+
+  it('fails the transaction, not just the step, when flagging backorders fails', async () => {
+    tx.orderItem.findMany.mockRejectedValue(new Error('connection lost'))
+
+    await expect(placeOrder(cart, input, 'u1', db)).rejects.toThrow('connection lost')
+    expect(tx.cartItem.deleteMany).not.toHaveBeenCalled()
+    expect(invalidateCatalog).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
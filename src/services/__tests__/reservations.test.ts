@@ -0,0 +1,112 @@
+import { BackorderPolicy, ReservationStatus } from '../../types'
+import { releaseExpiredReservations, reserveStock } from '../reservations'
+
+jest.mock('@freedompress/core', () => ({ prisma: {} }), { virtual: true })
+jest.mock('slugify', () => jest.fn(), { virtual: true })
+jest.mock('../settings', () => ({
+  getNumericShopSetting: jest.fn(async (_key: string, fallback: number) => fallback)
+}))
+jest.mock('../backorders', () => ({ loadStockPolicies: jest.fn() }))
+jest.mock('../inventory', () => ({ expandBundleLines: jest.fn(async (lines: unknown) => lines) }))
+jest.mock('../catalogCache', () => ({ invalidateCatalog: jest.fn() }))
+
+const { loadStockPolicies } = jest.requireMock('../backorders')
+const { invalidateCatalog } = jest.requireMock('../catalogCache')
+
+describe('stock reservations', () => {
+  let tx: any
+  let db: any
+
+  beforeEach(() => {
+    invalidateCatalog.mockClear()
+    loadStockPolicies.mockResolvedValue(new Map([
+      ['p1:', {
+        tracked: true,
+        onHand: 5,
+        policy: { policy: BackorderPolicy.DENY, expectedShipDate: null, maxBackorderQuantity: null }
+      }],
+      ['p2:', {
+        tracked: false,
+        onHand: 0,
+        policy: { policy: BackorderPolicy.DENY, expectedShipDate: null, maxBackorderQuantity: null }
+      }]
+    ]))
+    tx = {
+      stockReservation: {
+        // Another checkout holds 2 of p1
+        findMany: jest.fn().mockResolvedValue([{ productId: 'p1', variantId: null, quantity: 2 }]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn(async ({ data }: any) => ({ id: 'r1', status: ReservationStatus.ACTIVE, ...data }))
+      }
+    }
+    db = { $transaction: jest.fn((run: (client: any) => unknown) => run(tx)) }
+  })
+
+  it('holds what is left after other checkouts, replacing the order\'s earlier holds', async () => {
+    const result = await reserveStock('o1', [
+      { productId: 'p1', variantId: null, quantity: 2 },
+      { productId: 'p1', variantId: null, quantity: 1 },
+      { productId: 'p2', variantId: null, quantity: 4 }
+    ], db)
+
+    expect(result.shortages).toEqual([])
+    expect(tx.stockReservation.findMany.mock.calls[0][0].where).toMatchObject({ orderId: { not: 'o1' } })
+    expect(tx.stockReservation.updateMany).toHaveBeenCalledWith({
+      where: { orderId: 'o1', status: ReservationStatus.ACTIVE },
+      data: { status: ReservationStatus.RELEASED }
+    })
+    expect(tx.stockReservation.create).toHaveBeenCalledTimes(1)
+    expect(tx.stockReservation.create.mock.calls[0][0].data).toMatchObject({
+      orderId: 'o1',
+      productId: 'p1',
+      variantId: null,
+      quantity: 3
+    })
+    expect(invalidateCatalog).toHaveBeenCalledWith({ type: 'inventory', productIds: ['p1'] })
+  })
+
+  it('reserves nothing when an item is short', async () => {
+    const result = await reserveStock('o1', [{ productId: 'p1', variantId: null, quantity: 4 }], db)
+
+    expect(result).toEqual({
+      reservations: [],
+      shortages: [{ productId: 'p1', variantId: null, requested: 4, available: 3 }]
+    })
+    expect(tx.stockReservation.updateMany).not.toHaveBeenCalled()
+    expect(tx.stockReservation.create).not.toHaveBeenCalled()
+    expect(invalidateCatalog).not.toHaveBeenCalled()
+  })
+
+  it('holds backordered items beyond stock up to their cap', async () => {
+    loadStockPolicies.mockResolvedValue(new Map([
+      ['p1:', {
+        tracked: true,
+        onHand: 5,
+        policy: { policy: BackorderPolicy.BACKORDER, expectedShipDate: null, maxBackorderQuantity: 2 }
+      }]
+    ]))
+
+    const allowed = await reserveStock('o1', [{ productId: 'p1', variantId: null, quantity: 5 }], db)
+    const capped = await reserveStock('o1', [{ productId: 'p1', variantId: null, quantity: 6 }], db)
+
+    expect(allowed.reservations).toHaveLength(1)
+    expect(capped.shortages).toEqual([{ productId: 'p1', variantId: null, requested: 6, available: 3 }])
+  })
+
+  it('releases expired holds and refreshes the affected listings', async () => {
+    const now = new Date('2026-06-01T00:00:00.000Z')
+    const client = {
+      stockReservation: {
+        findMany: jest.fn().mockResolvedValue([{ productId: 'p1' }]),
+        updateMany: jest.fn().mockResolvedValue({ count: 2 })
+      }
+    }
+
+    expect(await releaseExpiredReservations(now, client)).toBe(2)
+    expect(client.stockReservation.updateMany).toHaveBeenCalledWith({
+      where: { status: ReservationStatus.ACTIVE, expiresAt: { lte: now } },
+      data: { status: ReservationStatus.RELEASED }
+    })
+    expect(invalidateCatalog).toHaveBeenCalledWith({ type: 'inventory', productIds: ['p1'] })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { recordSlugChange, findSlugRedirect } from '../slugHistory'
+
+jest.mock('@freedompress/core', () => ({ prisma: {} }), { virtual: true })
+
+describe('product slug history', () => {
+  const db = {
+    productSlugHistory: {
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+      upsert: jest.fn().mockResolvedValue({}),
+      findUnique: jest.fn()
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('keeps the old slug pointing at the product and frees the new one', async () => {
+    await recordSlugChange('p1', 'old-mug', 'new-mug', db)
+
+    expect(db.productSlugHistory.deleteMany).toHaveBeenCalledWith({ where: { slug: 'new-mug' } })
+    expect(db.productSlugHistory.upsert).toHaveBeenCalledWith({
+      where: { slug: 'old-mug' },
+      create: { slug: 'old-mug', productId: 'p1' },
+      update: { productId: 'p1', createdAt: expect.any(Date) }
+    })
+  })
+
+  it('only frees the slug of a new product', async () => {
+    await recordSlugChange('p1', null, 'mug', db)
+
+    expect(db.productSlugHistory.deleteMany).toHaveBeenCalledWith({ where: { slug: 'mug' } })
+    expect(db.productSlugHistory.upsert).not.toHaveBeenCalled()
+  })
+
+  it('does nothing when the slug is unchanged', async () => {
+    await recordSlugChange('p1', 'mug', 'mug', db)
+
+    expect(db.productSlugHistory.deleteMany).not.toHaveBeenCalled()
+    expect(db.productSlugHistory.upsert).not.toHaveBeenCalled()
+  })
+
+  it('does not fail the product write when history can\'t be saved', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    db.productSlugHistory.deleteMany.mockRejectedValueOnce(new Error('database is locked'))
+
+    await expect(recordSlugChange('p1', 'old-mug', 'new-mug', db)).resolves.toBeUndefined()
+    expect(consoleError).toHaveBeenCalled()
+    consoleError.mockRestore()
+  })
+
+  it('resolves a retired slug to its product', async () => {
+    db.productSlugHistory.findUnique.mockResolvedValueOnce({ slug: 'old-mug', product: { id: 'p1', slug: 'new-mug' } })
+    db.productSlugHistory.findUnique.mockResolvedValueOnce(null)
+
+    expect(await findSlugRedirect('old-mug', db)).toEqual({ id: 'p1', slug: 'new-mug' })
+    expect(await findSlugRedirect('never-used', db)).toBeNull()
+  })
+})
\ No newline at end of file
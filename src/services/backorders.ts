@@ -0,0 +1,66 @@
+import { prisma } from '@freedompress/core'
+import { getStockKey, resolveBackorderPolicy, ResolvedBackorderPolicy } from '../utils'
+import { getShopSetting } from './settings'
+
+// Stock on hand of an item and the backorder policy that applies to it
+export interface StockPolicy {
+  tracked: boolean
+  onHand: number
+  policy: ResolvedBackorderPolicy
+}
+
+const backorderSelect = {
+  trackQuantity: true,
+  quantity: true,
+  backorderPolicy: true,
+  expectedShipDate: true,
+  maxBackorderQuantity: true
+}
+
+// shop_allow_backorders, written on install from the allowBackorders config.
+// Products and variants without a policy of their own follow it.
+export async function shopAllowsBackorders(db: any = prisma): Promise<boolean> {
+  return (await getShopSetting('shop_allow_backorders', 'false', db)) === 'true'
+}
+
+// Stock and effective backorder policy of each item, keyed by getStockKey.
+// Items whose product or variant no longer exists are left out.
+export async function loadStockPolicies(
+  items: Array<{ productId: string; variantId?: string | null }>,
+  db: any = prisma
+): Promise<Map<string, StockPolicy>> {
+  const variantIds = items.filter(item => item.variantId).map(item => item.variantId as string)
+  const [allowBackorders, products, variants] = await Promise.all([
+    shopAllowsBackorders(db),
+    db.product.findMany({
+      where: { id: { in: Array.from(new Set(items.map(item => item.productId))) } },
+      select: { id: true, ...backorderSelect }
+    }),
+    variantIds.length > 0
+      ? db.productVariant.findMany({
+        where: { id: { in: Array.from(new Set(variantIds)) } },
+        select: { id: true, productId: true, ...backorderSelect }
+      })
+      : []
+  ])
+  const productsById = new Map<string, any>(products.map((product: any) => [product.id, product]))
+  const variantsById = new Map<string, any>(variants.map((variant: any) => [variant.id, variant]))
+
+  const policies = new Map<string, StockPolicy>()
+  for (const item of items) {
+    const product = productsById.get(item.productId)
+    const variant = item.variantId ? variantsById.get(item.variantId) : undefined
+    if (!product || (item.variantId && variant?.productId !== product.id)) {
+      continue
+    }
+
+    const source = variant || product
+    policies.set(getStockKey(item), {
+      tracked: source.trackQuantity,
+      onHand: source.quantity,
+      policy: resolveBackorderPolicy(product, variant, allowBackorders)
+    })
+  }
+
+  return policies
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { prisma } from '@freedompress/core'
+import { BundleItemInput, BundlePricing, ProductType } from '../types'
+import { calculateBundlePrice, calculateBundleStock, BundleComponentState } from '../utils'
+import { invalidateCatalog } from './catalogCache'
+
+// Check that bundle components exist and can be sold as part of a bundle
+export async function validateBundleComponents(
+  items: BundleItemInput[],
+  bundleId?: string,
+  db: any = prisma
+): Promise<string[]> {
+  const errors: string[] = []
+  const productIds = Array.from(new Set(items.map(item => item.productId)))
+
+  const products: Array<{ id: string; type: ProductType; hasVariants: boolean; deletedAt: Date | null; variants: Array<{ id: string }> }> =
+    await db.product.findMany({
+      where: { id: { in: productIds } },
+      select: {
+        id: true,
+        type: true,
+        hasVariants: true,
+        deletedAt: true,
+        variants: { select: { id: true } }
+      }
+    })
+  const byId = new Map(products.map(product => [product.id, product]))
+
+  items.forEach((item, index) => {
+    const label = `Bundle item ${index + 1}`
+    const product = byId.get(item.productId)
+
+    if (!product || product.deletedAt) {
+      errors.push(`${label}: product not found`)
+      return
+    }
+    if (product.id === bundleId || product.type === ProductType.BUNDLE) {
+      errors.push(`${label}: bundles cannot contain other bundles`)
+      return
+    }
+    if (item.variantId && !product.variants.some(variant => variant.id === item.variantId)) {
+      errors.push(`${label}: variant does not belong to the product`)
+    }
+    if (!item.variantId && product.hasVariants) {
+      errors.push(`${label}: choose a variant of a product that has variants`)
+    }
+  })
+
+  return errors
+}
+
+// Names of the bundles containing any variant matching `variantWhere`.
+// Bundle items restrict variant deletes, so a delete is refused while this
+// is non-empty.
+export async function findBundlesUsingVariants(variantWhere: any, db: any = prisma): Promise<string[]> {
+  const items: Array<{ bundle: { name: string } }> = await db.productBundleItem.findMany({
+    where: { variant: variantWhere },
+    select: { bundle: { select: { name: true } } }
+  })
+  return Array.from(new Set(items.map(item => item.bundle.name)))
+}
+
+// Nested create data for bundle items, in the order given
+export function buildBundleItemsCreateData(items: BundleItemInput[]) {
+  return items.map((item, index) => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    quantity: item.quantity ?? 1,
+    position: index
+  }))
+}
+
+// Recompute a bundle's derived price and stock from its components and return
+// them. They are stored on the bundle so listings, sorting and the inStock
+// filter work as they do for other products. An archived component has no
+// stock to ship, so the bundle has none either.
+export async function syncBundle(bundleId: string, db: any = prisma) {
+  const bundle = await db.product.findUnique({
+    where: { id: bundleId },
+    include: {
+      bundleItems: {
+        include: {
+          product: {
+            select: { price: true, trackQuantity: true, quantity: true, deletedAt: true }
+          },
+          variant: {
+            select: { price: true, trackQuantity: true, quantity: true }
+          }
+        }
+      }
+    }
+  })
+
+  if (!bundle || bundle.type !== ProductType.BUNDLE) {
+    return null
+  }
+
+  const components: BundleComponentState[] = bundle.bundleItems.map((item: any) => {
+    const source = item.variant ?? item.product
+    const archived = Boolean(item.product.deletedAt)
+    return {
+      price: source.price,
+      trackQuantity: archived || source.trackQuantity,
+      stock: archived ? 0 : source.quantity,
+      quantity: item.quantity
+    }
+  })
+
+  const stock = calculateBundleStock(components)
+  const derived = {
+    price: calculateBundlePrice(
+      components,
+      bundle.bundlePricing ?? BundlePricing.FIXED,
+      bundle.price,
+      bundle.bundleDiscount
+    ),
+    trackQuantity: stock !== null,
+    quantity: stock ?? 0
+  }
+
+  await db.product.update({
+    where: { id: bundleId },
+    data: derived
+  })
+
+  if (
+    derived.price !== bundle.price ||
+    derived.trackQuantity !== bundle.trackQuantity ||
+    derived.quantity !== bundle.quantity
+  ) {
+    await invalidateCatalog({ type: 'product', productId: bundleId })
+  }
+
+  return derived
+}
+
+// Refresh every bundle that includes a product, after its price or stock changed
+export async function syncBundlesContaining(productId: string, db: any = prisma) {
+  try {
+    const items: Array<{ bundleId: string }> = await db.productBundleItem.findMany({
+      where: { productId },
+      select: { bundleId: true },
+      distinct: ['bundleId']
+    })
+
+    for (const item of items) {
+      await syncBundle(item.bundleId, db)
+    }
+  } catch (error) {
+    // Bundle price and stock are derived: log and let the product write succeed
+    console.error('Error syncing bundles for product:', {
+      timestamp: new Date().toISOString(),
+      productId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
\ No newline at end of file
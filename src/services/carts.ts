@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto'
+import { prisma } from '@freedompress/core'
+import { Cart, CartItem, StockAvailability } from '../types'
+import { calculateOrderTotals } from '../utils'
+import { checkStockAvailability } from './reservations'
+import { getNumericShopSetting } from './settings'
+
+// Cookie holding a guest cart's sessionId
+export const CART_SESSION_COOKIE = 'shop_cart'
+
+// Guest carts are kept for 30 days
+export const CART_SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+// Who a cart belongs to: a signed-in user, or a guest's cart cookie
+export interface CartOwner {
+  userId?: string
+  sessionId?: string
+}
+
+const cartInclude = {
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          slug: true
+        }
+      },
+      variant: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    },
+    orderBy: {
+      createdAt: 'asc' as const
+    }
+  }
+}
+
+// The owner's current cart with its items, or null when there is none
+export async function findCart(owner: CartOwner, db: any = prisma) {
+  if (!owner.userId && !owner.sessionId) {
+    return null
+  }
+
+  return db.cart.findFirst({
+    where: owner.userId ? { userId: owner.userId } : { sessionId: owner.sessionId, userId: null },
+    include: cartInclude,
+    orderBy: { updatedAt: 'desc' }
+  })
+}
+
+// The owner's cart, created when there is none. Guests without a cart cookie
+// get a new sessionId, which the caller sets as CART_SESSION_COOKIE.
+export async function findOrCreateCart(owner: CartOwner, db: any = prisma) {
+  const existing = await findCart(owner, db)
+  if (existing) {
+    return existing
+  }
+
+  return db.cart.create({
+    data: owner.userId ? { userId: owner.userId } : { sessionId: owner.sessionId || randomUUID() },
+    include: cartInclude
+  })
+}
+
+// Recompute a cart's totals from its items and return the updated cart
+export async function recalculateCart(cartId: string, db: any = prisma) {
+  const cart = await db.cart.findUnique({
+    where: { id: cartId },
+    include: {
+      items: {
+        include: {
+          product: {
+            select: { requiresShipping: true }
+          }
+        }
+      }
+    }
+  })
+
+  const [taxRate, shippingRate] = await Promise.all([
+    getNumericShopSetting('shop_tax_rate', 0, db),
+    getNumericShopSetting('shop_shipping_rate', 0, db)
+  ])
+  const totals = calculateOrderTotals(
+    cart.items.map((item: any) => ({
+      price: item.price,
+      quantity: item.quantity,
+      requiresShipping: item.product.requiresShipping
+    })),
+    taxRate,
+    shippingRate,
+    cart.discountAmount
+  )
+
+  return db.cart.update({
+    where: { id: cartId },
+    data: {
+      subtotal: totals.subtotal,
+      tax: totals.tax,
+      shipping: totals.shipping,
+      total: totals.total,
+      discountAmount: totals.discount
+    },
+    include: cartInclude
+  })
+}
+
+// A cart with each item's stock availability: whether its quantity can be
+// sold and how much of it would wait on a backorder or pre-order
+export async function withCartAvailability(cart: Cart, db: any = prisma): Promise<Cart> {
+  const availability = await checkStockAvailability(cart.items, {}, db)
+  return {
+    ...cart,
+    items: cart.items.map((item: CartItem, index: number) => ({ ...item, availability: availability[index] }))
+  }
+}
+
+// Check a cart's lines against stock with one line's quantity changed (or
+// added) and return that line's availability. Earlier lines take stock
+// first, as they will at checkout.
+export async function checkCartLine(
+  cart: Cart | null,
+  line: { productId: string; variantId?: string | null; quantity: number },
+  db: any = prisma
+): Promise<StockAvailability> {
+  const lines = (cart?.items ?? []).map((item: CartItem) => ({
+    productId: item.productId,
+    variantId: item.variantId ?? null,
+    quantity: item.quantity
+  }))
+  let index = lines.findIndex(item => item.productId === line.productId && item.variantId === (line.variantId ?? null))
+  if (index === -1) {
+    index = lines.length
+    lines.push({ productId: line.productId, variantId: line.variantId ?? null, quantity: line.quantity })
+  } else {
+    lines[index] = { ...lines[index], quantity: line.quantity }
+  }
+
+  const availability = await checkStockAvailability(lines, {}, db)
+  return availability[index]
+}
\ No newline at end of file
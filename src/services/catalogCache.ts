@@ -0,0 +1,245 @@
+// In-process cache for hot catalog reads (product listings and product detail
+// lookups). Storage goes through a small Redis-shaped adapter, so the default
+// in-memory store can be swapped for Redis or a compatible local stand-in.
+// Entries are grouped under tags and dropped when a catalog change touches
+// one of their tags.
+
+export interface CatalogCacheAdapter {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlSeconds: number): Promise<void>
+  del(keys: string[]): Promise<void>
+  sadd(key: string, members: string[]): Promise<void>
+  smembers(key: string): Promise<string[]>
+  // Remove every catalog entry and tag set (not the whole store)
+  flush(): Promise<void>
+}
+
+export interface CatalogCacheMetrics {
+  hits: number
+  misses: number
+  hitRate: number
+  writes: number
+  invalidations: number
+  errors: number
+}
+
+// Catalog changes that invalidate cached reads
+export type CatalogChange =
+  // Created, edited, archived, restored or purged; may move between listings
+  | { type: 'product'; productId: string }
+  // Stock moved without any other edit
+  | { type: 'inventory'; productIds: string[] }
+  | { type: 'category'; categoryId: string }
+  // Pass the member products when the collection is shown or hidden: their
+  // entries only carry tags for the collections they listed
+  | { type: 'collection'; collectionId: string; productIds?: string[] }
+
+// Backstop for changes no event covers, such as publish windows opening
+export const CATALOG_CACHE_TTL_SECONDS = 300
+
+const MAX_MEMORY_ENTRIES = 1000
+
+const TAG_PREFIX = 'shop:catalog:tag:'
+const KEY_PREFIX = 'shop:catalog:'
+
+// Tag naming, shared by the handlers that write entries
+export const catalogTags = {
+  product: (productId: string) => `product:${productId}`,
+  category: (categoryId: string) => `category:${categoryId}`,
+  collection: (collectionId: string) => `collection:${collectionId}`,
+  // Every cached listing: any product may enter or leave one
+  listings: 'listings',
+  // Listings whose membership depends on stock, category or collection rules
+  stockListings: 'listings:stock',
+  categoryListings: 'listings:category',
+  collectionListings: 'listings:collection'
+}
+
+// Default store: a bounded in-memory map, evicting the least recently used
+// entry when full
+export class MemoryCacheAdapter implements CatalogCacheAdapter {
+  private entries = new Map<string, { value: string; expiresAt: number }>()
+  private sets = new Map<string, Set<string>>()
+
+  constructor(private maxEntries: number = MAX_MEMORY_ENTRIES) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return null
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    // Re-insert to mark as recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlSeconds: number) {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async del(keys: string[]) {
+    for (const key of keys) {
+      this.entries.delete(key)
+      this.sets.delete(key)
+    }
+  }
+
+  async sadd(key: string, members: string[]) {
+    const set = this.sets.get(key) ?? new Set<string>()
+    members.forEach(member => set.add(member))
+    // Drop members that were evicted or expired so tag sets stay bounded
+    if (set.size > this.maxEntries) {
+      set.forEach(member => {
+        if (!this.entries.has(member)) {
+          set.delete(member)
+        }
+      })
+    }
+    this.sets.set(key, set)
+  }
+
+  async smembers(key: string) {
+    return Array.from(this.sets.get(key) ?? [])
+  }
+
+  async flush() {
+    this.entries.clear()
+    this.sets.clear()
+  }
+}
+
+let adapter: CatalogCacheAdapter = new MemoryCacheAdapter()
+
+const metrics = {
+  hits: 0,
+  misses: 0,
+  writes: 0,
+  invalidations: 0,
+  errors: 0
+}
+
+function logCacheError(action: string, error: unknown) {
+  metrics.errors++
+  console.error(`Error ${action} catalog cache:`, {
+    timestamp: new Date().toISOString(),
+    error: error instanceof Error ? error.message : 'Unknown error'
+  })
+}
+
+// Replace the cache store, e.g. with a Redis client wrapper. Entries in the
+// previous store are abandoned.
+export function setCatalogCacheAdapter(nextAdapter: CatalogCacheAdapter) {
+  adapter = nextAdapter
+}
+
+// Build a stable key from a namespace and request params
+export function buildCatalogCacheKey(namespace: string, params: Record<string, unknown>): string {
+  const normalized = Object.keys(params)
+    .filter(name => params[name] !== undefined)
+    .sort()
+    .map(name => `${name}=${JSON.stringify(params[name])}`)
+    .join('&')
+  return `${KEY_PREFIX}${namespace}:${normalized}`
+}
+
+// Read an entry. The cache never fails a request: adapter errors count as misses.
+export async function getCatalogCacheEntry<T>(key: string): Promise<T | undefined> {
+  try {
+    const value = await adapter.get(key)
+    if (value !== null) {
+      metrics.hits++
+      return JSON.parse(value) as T
+    }
+  } catch (error) {
+    logCacheError('reading', error)
+  }
+  metrics.misses++
+  return undefined
+}
+
+// Store an entry under the tags it depends on
+export async function setCatalogCacheEntry(
+  key: string,
+  value: unknown,
+  tags: string[],
+  ttlSeconds: number = CATALOG_CACHE_TTL_SECONDS
+) {
+  try {
+    await adapter.set(key, JSON.stringify(value), ttlSeconds)
+    for (const tag of Array.from(new Set(tags))) {
+      await adapter.sadd(TAG_PREFIX + tag, [key])
+    }
+    metrics.writes++
+  } catch (error) {
+    logCacheError('writing', error)
+  }
+}
+
+// Drop every entry stored under any of the tags
+export async function invalidateCatalogTags(tags: string[]) {
+  try {
+    for (const tag of Array.from(new Set(tags))) {
+      const keys = await adapter.smembers(TAG_PREFIX + tag)
+      await adapter.del([...keys, TAG_PREFIX + tag])
+      metrics.invalidations += keys.length
+    }
+  } catch (error) {
+    logCacheError('invalidating', error)
+  }
+}
+
+// Invalidate the cached reads a catalog change can affect
+export async function invalidateCatalog(change: CatalogChange) {
+  switch (change.type) {
+    case 'product':
+      return invalidateCatalogTags([catalogTags.product(change.productId), catalogTags.listings])
+    case 'inventory':
+      return invalidateCatalogTags([
+        ...change.productIds.map(catalogTags.product),
+        catalogTags.stockListings
+      ])
+    case 'category':
+      return invalidateCatalogTags([catalogTags.category(change.categoryId), catalogTags.categoryListings])
+    case 'collection':
+      return invalidateCatalogTags([
+        catalogTags.collection(change.collectionId),
+        catalogTags.collectionListings,
+        ...(change.productIds || []).map(catalogTags.product)
+      ])
+  }
+}
+
+// Drop everything, e.g. after a bulk data fix
+export async function clearCatalogCache() {
+  try {
+    await adapter.flush()
+  } catch (error) {
+    logCacheError('clearing', error)
+  }
+}
+
+export function getCatalogCacheMetrics(): CatalogCacheMetrics {
+  const lookups = metrics.hits + metrics.misses
+  return {
+    ...metrics,
+    hitRate: lookups > 0 ? metrics.hits / lookups : 0
+  }
+}
+
+export function resetCatalogCacheMetrics() {
+  metrics.hits = 0
+  metrics.misses = 0
+  metrics.writes = 0
+  metrics.invalidations = 0
+  metrics.errors = 0
+}
\ No newline at end of file
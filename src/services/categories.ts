@@ -0,0 +1,16 @@
+import { prisma } from '@freedompress/core'
+import { CategoryNode } from '../utils'
+
+// Load the whole category hierarchy. Catalogs have at most a few hundred
+// categories, so tree operations work on the flat list in memory.
+export async function loadCategoryNodes(db: any = prisma): Promise<CategoryNode[]> {
+  return db.category.findMany({
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      parentId: true,
+      sortOrder: true
+    }
+  })
+}
\ No newline at end of file
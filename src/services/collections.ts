@@ -0,0 +1,16 @@
+import { prisma } from '@freedompress/core'
+import { invalidateCatalog } from './catalogCache'
+
+// Drop the cached reads that show a collection after it was shown or hidden,
+// including its member products' pages
+export async function invalidateCollectionVisibility(collectionId: string, db: any = prisma) {
+  const members: Array<{ productId: string }> = await db.productCollection.findMany({
+    where: { collectionId },
+    select: { productId: true }
+  })
+  await invalidateCatalog({
+    type: 'collection',
+    collectionId,
+    productIds: members.map(member => member.productId)
+  })
+}
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@freedompress/core'
+import { OrderDownload, PaymentStatus } from '../types'
+import { getNumericShopSetting } from './settings'
+
+const DEFAULT_EXPIRY_HOURS = 72
+const DEFAULT_DOWNLOAD_LIMIT = 5
+
+function getSigningSecret(): string {
+  const secret = process.env.DOWNLOAD_LINK_SECRET
+  if (!secret) {
+    throw new Error('DOWNLOAD_LINK_SECRET environment variable is required')
+  }
+  return secret
+}
+
+// Sign a link id together with its expiry so neither can be altered
+export function signDownloadLink(linkId: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${linkId}.${expires}`)
+    .digest('base64url')
+}
+
+// Check a signature from a download URL in constant time
+export function verifyDownloadSignature(linkId: string, expires: number, signature: string): boolean {
+  const expected = Buffer.from(signDownloadLink(linkId, expires))
+  const provided = Buffer.from(signature)
+  return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
+
+// Build the signed URL customers use to download a file
+export function buildDownloadUrl(linkId: string, expiresAt: Date): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000)
+  const signature = signDownloadLink(linkId, expires)
+  return `/api/shop/downloads/${linkId}?expires=${expires}&signature=${signature}`
+}
+
+function toOrderDownload(link: any): OrderDownload {
+  return {
+    linkId: link.id,
+    orderItemId: link.orderItemId,
+    assetName: link.asset.name,
+    fileName: link.asset.fileName,
+    url: buildDownloadUrl(link.id, link.expiresAt),
+    expiresAt: link.expiresAt,
+    downloadsRemaining: Math.max(link.maxDownloads - link.downloadCount, 0)
+  }
+}
+
+// Issue download links for the digital assets of a paid order. Safe to call
+// more than once: items that already have a link keep it.
+export async function issueDownloadLinks(orderId: string, db: any = prisma): Promise<OrderDownload[]> {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    select: {
+      paymentStatus: true,
+      items: {
+        select: { id: true, productId: true, variantId: true }
+      }
+    }
+  })
+
+  if (!order || order.paymentStatus !== PaymentStatus.PAID) {
+    return []
+  }
+
+  const expiryHours = await getNumericShopSetting('shop_download_expiry_hours', DEFAULT_EXPIRY_HOURS, db)
+  const maxDownloads = await getNumericShopSetting('shop_download_limit', DEFAULT_DOWNLOAD_LIMIT, db)
+  const expiresAt = new Date(Date.now() + expiryHours * 60 * 60 * 1000)
+
+  for (const item of order.items) {
+    // Product-level assets apply to every variant; variant assets only to theirs
+    const assets: Array<{ id: string }> = await db.digitalAsset.findMany({
+      where: {
+        productId: item.productId,
+        OR: [
+          { variantId: null },
+          ...(item.variantId ? [{ variantId: item.variantId }] : [])
+        ]
+      },
+      select: { id: true }
+    })
+
+    for (const asset of assets) {
+      await db.downloadLink.upsert({
+        where: {
+          orderItemId_assetId: { orderItemId: item.id, assetId: asset.id }
+        },
+        update: {},
+        create: {
+          orderItemId: item.id,
+          assetId: asset.id,
+          expiresAt,
+          maxDownloads: Math.max(1, Math.floor(maxDownloads))
+        }
+      })
+    }
+  }
+
+  return getOrderDownloads(orderId, db)
+}
+
+// Signed download URLs for the links already issued on an order
+export async function getOrderDownloads(orderId: string, db: any = prisma): Promise<OrderDownload[]> {
+  const links = await db.downloadLink.findMany({
+    where: {
+      orderItem: { orderId }
+    },
+    include: {
+      asset: {
+        select: { name: true, fileName: true }
+      }
+    },
+    orderBy: {
+      createdAt: 'asc'
+    }
+  })
+
+  return links.map(toOrderDownload)
+}
+
+// Count a download against its link. Returns false when the link has run out;
+// the conditional update keeps concurrent requests from overshooting the limit.
+export async function consumeDownload(linkId: string, db: any = prisma): Promise<boolean> {
+  const link = await db.downloadLink.findUnique({
+    where: { id: linkId },
+    select: { maxDownloads: true }
+  })
+  if (!link) {
+    return false
+  }
+
+  const result = await db.downloadLink.updateMany({
+    where: {
+      id: linkId,
+      downloadCount: { lt: link.maxDownloads },
+      expiresAt: { gt: new Date() }
+    },
+    data: {
+      downloadCount: { increment: 1 },
+      lastDownloadAt: new Date()
+    }
+  })
+
+  return result.count > 0
+}
\ No newline at end of file
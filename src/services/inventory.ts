@@ -0,0 +1,390 @@
+import { prisma } from '@freedompress/core'
+import {
+  FulfillmentAllocation,
+  InventoryAdjustmentInput,
+  InventoryLevelInput,
+  InventoryMovementReason,
+  ProductType
+} from '../types'
+import {
+  FulfillmentLocation,
+  getStockKey,
+  LocationStock,
+  planFulfillment,
+  rankFulfillmentLocations,
+  sumSellableStock
+} from '../utils'
+import { syncBundlesContaining } from './bundles'
+import { invalidateCatalog } from './catalogCache'
+import { InventoryMovementReference, recordInventoryMovement } from './inventoryMovements'
+
+const fulfillmentLocationSelect = {
+  id: true,
+  name: true,
+  active: true,
+  sellable: true,
+  fulfillmentPriority: true,
+  shipsTo: true
+}
+
+// A quantity of a product (or one of its variants) leaving stock
+export interface InventoryLine {
+  productId: string
+  variantId?: string | null
+  quantity: number
+}
+
+// Replace bundle lines with their components, multiplied by the bundle quantity
+export async function expandBundleLines(lines: InventoryLine[], db: any = prisma): Promise<InventoryLine[]> {
+  const productIds = Array.from(new Set(lines.map(line => line.productId)))
+  const bundles: Array<{ id: string; bundleItems: Array<{ productId: string; variantId: string | null; quantity: number }> }> =
+    await db.product.findMany({
+      where: { id: { in: productIds }, type: ProductType.BUNDLE },
+      select: {
+        id: true,
+        bundleItems: {
+          select: { productId: true, variantId: true, quantity: true }
+        }
+      }
+    })
+  const bundlesById = new Map(bundles.map(bundle => [bundle.id, bundle]))
+
+  return lines.flatMap(line => {
+    const bundle = bundlesById.get(line.productId)
+    if (!bundle) {
+      return [line]
+    }
+    return bundle.bundleItems.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity * line.quantity
+    }))
+  })
+}
+
+// Re-derive `quantity` from location stock for a product and those of its
+// variants that are kept per location. Items without location stock keep
+// their own quantity. Returns true if any total changed.
+export async function syncStockTotals(productId: string, db: any = prisma): Promise<boolean> {
+  const levels: Array<{ variantId: string | null; quantity: number; location: { active: boolean; sellable: boolean } }> =
+    await db.inventoryLevel.findMany({
+      where: { productId },
+      select: {
+        variantId: true,
+        quantity: true,
+        location: {
+          select: { active: true, sellable: true }
+        }
+      }
+    })
+
+  const levelsByVariant = new Map<string | null, typeof levels>()
+  for (const level of levels) {
+    levelsByVariant.set(level.variantId, [...(levelsByVariant.get(level.variantId) || []), level])
+  }
+
+  let changed = false
+  for (const [variantId, itemLevels] of Array.from(levelsByVariant.entries())) {
+    const quantity = sumSellableStock(itemLevels)
+    const result = variantId
+      ? await db.productVariant.updateMany({ where: { id: variantId, NOT: { quantity } }, data: { quantity } })
+      : await db.product.updateMany({ where: { id: productId, NOT: { quantity } }, data: { quantity } })
+    changed = changed || result.count > 0
+  }
+
+  return changed
+}
+
+// Sync stock totals for products whose location stock changed, refreshing
+// cached reads and the bundles they belong to
+export async function refreshStockTotals(productIds: string[], db: any = prisma) {
+  for (const productId of Array.from(new Set(productIds))) {
+    if (await syncStockTotals(productId, db)) {
+      await invalidateCatalog({ type: 'inventory', productIds: [productId] })
+      await syncBundlesContaining(productId, db)
+    }
+  }
+}
+
+// Stock of an item at a location, or in total when no location is given
+async function readStockBalance(
+  item: { productId: string; variantId?: string | null; locationId?: string | null },
+  db: any
+): Promise<number> {
+  if (item.locationId) {
+    const level = await db.inventoryLevel.findFirst({
+      where: { productId: item.productId, variantId: item.variantId ?? null, locationId: item.locationId },
+      select: { quantity: true }
+    })
+    return level?.quantity ?? 0
+  }
+
+  const row = item.variantId
+    ? await db.productVariant.findUnique({ where: { id: item.variantId }, select: { quantity: true } })
+    : await db.product.findUnique({ where: { id: item.productId }, select: { quantity: true } })
+  return row?.quantity ?? 0
+}
+
+// Set stock of a product (or its variants) at locations, then update the
+// summed totals. Each change is recorded as a count correction unless
+// `reason` says otherwise.
+export async function setInventoryLevels(
+  productId: string,
+  levels: InventoryLevelInput[],
+  reference: InventoryMovementReference & { reason?: InventoryMovementReason } = {},
+  db: any = prisma
+) {
+  await db.$transaction(async (tx: any) => {
+    for (const level of levels) {
+      // variantId is nullable, so the compound unique key can't be used for an upsert
+      const existing = await tx.inventoryLevel.findFirst({
+        where: { productId, variantId: level.variantId ?? null, locationId: level.locationId },
+        select: { id: true, quantity: true }
+      })
+      if (existing) {
+        await tx.inventoryLevel.update({
+          where: { id: existing.id },
+          data: { quantity: level.quantity }
+        })
+      } else {
+        await tx.inventoryLevel.create({
+          data: {
+            productId,
+            variantId: level.variantId ?? null,
+            locationId: level.locationId,
+            quantity: level.quantity
+          }
+        })
+      }
+
+      await recordInventoryMovement({
+        productId,
+        variantId: level.variantId,
+        locationId: level.locationId,
+        quantity: level.quantity - (existing?.quantity ?? 0),
+        balance: level.quantity,
+        reason: reference.reason ?? InventoryMovementReason.COUNT_CORRECTION
+      }, reference, tx)
+    }
+  })
+
+  await refreshStockTotals([productId], db)
+}
+
+// Apply a signed stock change entered by an admin and record it. Items
+// stocked per location change at `locationId` and have their totals
+// re-derived; others change their quantity directly.
+export async function adjustInventory(
+  adjustment: InventoryAdjustmentInput,
+  userId?: string | null,
+  db: any = prisma
+) {
+  const movement = await db.$transaction(async (tx: any) => {
+    if (adjustment.locationId) {
+      await tx.inventoryLevel.updateMany({
+        where: {
+          productId: adjustment.productId,
+          variantId: adjustment.variantId ?? null,
+          locationId: adjustment.locationId
+        },
+        data: { quantity: { increment: adjustment.quantity } }
+      })
+    } else if (adjustment.variantId) {
+      await tx.productVariant.update({
+        where: { id: adjustment.variantId },
+        data: { quantity: { increment: adjustment.quantity } }
+      })
+    } else {
+      await tx.product.update({
+        where: { id: adjustment.productId },
+        data: { quantity: { increment: adjustment.quantity } }
+      })
+    }
+
+    return recordInventoryMovement({
+      productId: adjustment.productId,
+      variantId: adjustment.variantId,
+      locationId: adjustment.locationId,
+      quantity: adjustment.quantity,
+      balance: await readStockBalance(adjustment, tx),
+      reason: adjustment.reason
+    }, { orderId: adjustment.orderId, userId, note: adjustment.note }, tx)
+  })
+
+  if (adjustment.locationId) {
+    await refreshStockTotals([adjustment.productId], db)
+  } else {
+    await invalidateCatalog({ type: 'inventory', productIds: [adjustment.productId] })
+    await syncBundlesContaining(adjustment.productId, db)
+  }
+
+  return movement
+}
+
+// Plan which locations ship the given lines, without changing stock
+export async function allocateFulfillment(
+  lines: InventoryLine[],
+  countryCode?: string | null,
+  db: any = prisma
+) {
+  const expanded = await expandBundleLines(lines, db)
+  const stock: LocationStock[] = await db.inventoryLevel.findMany({
+    where: { productId: { in: Array.from(new Set(expanded.map(line => line.productId))) } },
+    select: { productId: true, variantId: true, locationId: true, quantity: true }
+  })
+  const locations: FulfillmentLocation[] = await db.inventoryLocation.findMany({ select: fulfillmentLocationSelect })
+
+  const stockedKeys = new Set(stock.map(getStockKey))
+  return planFulfillment(expanded.filter(line => stockedKeys.has(getStockKey(line))), stock, locations, countryCode)
+}
+
+// Take ordered quantities out of stock inside the caller's transaction and
+// record them as sales. Returns the chosen locations and the products whose
+// stock changed, for `finishStockChange` once the transaction commits.
+async function withdrawStock(
+  lines: InventoryLine[],
+  tx: any,
+  options: { countryCode?: string | null; orderId?: string } = {}
+): Promise<{ allocations: FulfillmentAllocation[]; productIds: string[] }> {
+  const { countryCode, orderId } = options
+  const expanded = await expandBundleLines(lines, tx)
+  const stock: LocationStock[] = await tx.inventoryLevel.findMany({
+    where: { productId: { in: Array.from(new Set(expanded.map(line => line.productId))) } },
+    select: { productId: true, variantId: true, locationId: true, quantity: true }
+  })
+  const stockedKeys = new Set(stock.map(getStockKey))
+  const stockedLines = expanded.filter(line => stockedKeys.has(getStockKey(line)))
+  const allocations: FulfillmentAllocation[] = []
+
+  if (stockedLines.length > 0) {
+    const locations: FulfillmentLocation[] = await tx.inventoryLocation.findMany({ select: fulfillmentLocationSelect })
+    const plan = planFulfillment(stockedLines, stock, locations, countryCode)
+    allocations.push(...plan.allocations)
+
+    // Oversold quantities come out of the best location holding the item, so
+    // the summed total still drops by what was ordered
+    const ranked = rankFulfillmentLocations(locations)
+    for (const line of plan.unallocated) {
+      const held = stock.filter(level => getStockKey(level) === getStockKey(line))
+      const fallback = ranked.find(location => held.some(level => level.locationId === location.id))?.id ?? held[0].locationId
+      allocations.push({ productId: line.productId, variantId: line.variantId, locationId: fallback, quantity: line.quantity })
+    }
+  }
+
+  for (const allocation of allocations) {
+    const result = await tx.inventoryLevel.updateMany({
+      where: {
+        productId: allocation.productId,
+        variantId: allocation.variantId ?? null,
+        locationId: allocation.locationId,
+        ...(allocation.variantId
+          ? { variant: { trackQuantity: true } }
+          : { product: { trackQuantity: true } })
+      },
+      data: { quantity: { decrement: allocation.quantity } }
+    })
+    if (result.count > 0) {
+      await recordInventoryMovement({
+        ...allocation,
+        quantity: -allocation.quantity,
+        balance: await readStockBalance(allocation, tx),
+        reason: InventoryMovementReason.SALE
+      }, { orderId }, tx)
+    }
+  }
+
+  for (const productId of Array.from(new Set(stockedLines.map(line => line.productId)))) {
+    await syncStockTotals(productId, tx)
+  }
+
+  for (const line of expanded.filter(line => !stockedKeys.has(getStockKey(line)))) {
+    const result = line.variantId
+      ? await tx.productVariant.updateMany({
+        where: { id: line.variantId, trackQuantity: true },
+        data: { quantity: { decrement: line.quantity } }
+      })
+      : await tx.product.updateMany({
+        where: { id: line.productId, trackQuantity: true },
+        data: { quantity: { decrement: line.quantity } }
+      })
+    if (result.count > 0) {
+      await recordInventoryMovement({
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity: -line.quantity,
+        balance: await readStockBalance(line, tx),
+        reason: InventoryMovementReason.SALE
+      }, { orderId }, tx)
+    }
+  }
+
+  return { allocations, productIds: Array.from(new Set(expanded.map(line => line.productId))) }
+}
+
+// After stock was withdrawn: bundles sharing these products now have less
+// stock too, and cached listings are stale
+export async function finishStockChange(productIds: string[], db: any = prisma) {
+  await invalidateCatalog({ type: 'inventory', productIds })
+  for (const productId of productIds) {
+    await syncBundlesContaining(productId, db)
+  }
+}
+
+// Take ordered quantities out of stock and record them as sales. Bundles
+// decrement their components; products and variants that don't track
+// quantity are left alone. Items kept per location are picked by the
+// fulfillment rules (see `planFulfillment`) for `countryCode`; the chosen
+// locations are returned.
+export async function decrementInventory(
+  lines: InventoryLine[],
+  db: any = prisma,
+  options: { countryCode?: string | null; orderId?: string } = {}
+): Promise<FulfillmentAllocation[]> {
+  const { allocations, productIds } = await db.$transaction((tx: any) => withdrawStock(lines, tx, options))
+  await finishStockChange(productIds, db)
+  return allocations
+}
+
+// Take an order's items out of stock inside the caller's transaction. The
+// order is claimed first by setting inventoryCommittedAt, so repeated or
+// concurrent calls decrement it once; the losers get null. Call
+// `finishStockChange` with the returned products after the commit.
+export async function commitOrderInventory(
+  orderId: string,
+  tx: any
+): Promise<{ allocations: FulfillmentAllocation[]; productIds: string[] } | null> {
+  const claim = await tx.order.updateMany({
+    where: { id: orderId, inventoryCommittedAt: null },
+    data: { inventoryCommittedAt: new Date() }
+  })
+  if (claim.count === 0) {
+    return null
+  }
+
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { shippingAddress: true }
+  })
+  const items: InventoryLine[] = await tx.orderItem.findMany({
+    where: { orderId },
+    select: { productId: true, variantId: true, quantity: true }
+  })
+
+  return withdrawStock(items, tx, {
+    countryCode: (order?.shippingAddress as { country?: string } | null)?.country,
+    orderId
+  })
+}
+
+// Decrement stock for every item of an order, picking locations that ship
+// to its address. An order is only ever decremented once; later calls
+// return no allocations.
+export async function applyOrderInventory(orderId: string, db: any = prisma): Promise<FulfillmentAllocation[]> {
+  const withdrawal = await db.$transaction((tx: any) => commitOrderInventory(orderId, tx))
+  if (!withdrawal) {
+    return []
+  }
+
+  await finishStockChange(withdrawal.productIds, db)
+  return withdrawal.allocations
+}
\ No newline at end of file
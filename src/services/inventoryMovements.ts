@@ -0,0 +1,107 @@
+import { prisma } from '@freedompress/core'
+import { InventoryMovementReason, ProductType } from '../types'
+import { getStockKey } from '../utils'
+
+// A stock change to record
+export interface InventoryMovementEntry {
+  productId: string
+  variantId?: string | null
+  locationId?: string | null
+  quantity: number // Signed
+  balance: number
+  reason: InventoryMovementReason
+}
+
+// Who or what caused a stock change
+export interface InventoryMovementReference {
+  orderId?: string | null
+  userId?: string | null
+  note?: string
+}
+
+// Append a movement to the inventory ledger. Zero changes are skipped.
+export async function recordInventoryMovement(
+  entry: InventoryMovementEntry,
+  reference: InventoryMovementReference = {},
+  db: any = prisma
+) {
+  if (entry.quantity === 0) {
+    return null
+  }
+
+  const item = entry.variantId
+    ? await db.productVariant.findUnique({ where: { id: entry.variantId }, select: { sku: true } })
+    : await db.product.findUnique({ where: { id: entry.productId }, select: { sku: true } })
+
+  return db.inventoryMovement.create({
+    data: {
+      productId: entry.productId,
+      variantId: entry.variantId ?? null,
+      locationId: entry.locationId ?? null,
+      sku: item?.sku ?? null,
+      quantity: entry.quantity,
+      balance: entry.balance,
+      reason: entry.reason,
+      note: reference.note,
+      orderId: reference.orderId ?? null,
+      userId: reference.userId ?? null
+    }
+  })
+}
+
+// Tracked quantities of a product and its variants, keyed by getStockKey.
+// Bundles are left out: their stock is derived from the components.
+export async function captureStock(productId: string, db: any = prisma): Promise<Map<string, number>> {
+  const product = await db.product.findUnique({
+    where: { id: productId },
+    select: {
+      type: true,
+      trackQuantity: true,
+      quantity: true,
+      variants: {
+        select: { id: true, trackQuantity: true, quantity: true }
+      }
+    }
+  })
+
+  const stock = new Map<string, number>()
+  if (!product || product.type === ProductType.BUNDLE) {
+    return stock
+  }
+
+  if (product.trackQuantity) {
+    stock.set(getStockKey({ productId }), product.quantity)
+  }
+  for (const variant of product.variants) {
+    if (variant.trackQuantity) {
+      stock.set(getStockKey({ productId, variantId: variant.id }), variant.quantity)
+    }
+  }
+
+  return stock
+}
+
+// Record the difference between `before` (from captureStock) and the
+// current stock as movements. Used where quantities are written directly:
+// product and variant edits, imports and rollbacks. New items record their
+// opening stock.
+export async function recordStockChanges(
+  productId: string,
+  before: Map<string, number>,
+  reason: InventoryMovementReason,
+  reference: InventoryMovementReference = {},
+  db: any = prisma
+) {
+  const after = await captureStock(productId, db)
+
+  for (const [key, balance] of Array.from(after.entries())) {
+    const variantId = key.slice(productId.length + 1) || null
+    await recordInventoryMovement({
+      productId,
+      variantId,
+      quantity: balance - (before.get(key) ?? 0),
+      balance,
+      reason
+    }, reference, db)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { prisma } from '@freedompress/core'
+import {
+  FulfillmentAllocation,
+  Order,
+  OrderCreateInput,
+  OrderStatus,
+  PaymentStatus,
+  ProductStatus,
+  StockShortage
+} from '../types'
+import { buildVisibleProductWhere, calculateOrderTotals, generateOrderNumber } from '../utils'
+import { issueDownloadLinks } from './downloads'
+import { InventoryLine } from './inventory'
+import {
+  convertReservations,
+  finishStockHold,
+  flagOrderBackorders,
+  holdOrderStock,
+  releaseReservations,
+  StockReservationResult
+} from './reservations'
+import { getNumericShopSetting } from './settings'
+
+// Outcome of checking out a cart. No order is kept when stock is short.
+export interface PlaceOrderResult {
+  order: Order | null
+  shortages: StockShortage[]
+}
+
+// The parts of a cart that checkout reads
+export interface CheckoutCart {
+  id: string
+  discountAmount: number
+  discountCode?: string | null
+  items: InventoryLine[]
+}
+
+const orderInclude = {
+  items: true
+}
+
+// Turn a cart into a pending order. Lines are priced from the catalog, their
+// stock is held until payment (see `reserveStock`) and lines that wait on a
+// backorder or pre-order are flagged. Items customers can no longer buy, or
+// whose stock another checkout holds, come back as shortages and no order is
+// kept. It all happens in one transaction, so a failure leaves no order.
+export async function placeOrder(
+  cart: CheckoutCart,
+  input: OrderCreateInput,
+  userId?: string,
+  db: any = prisma
+): Promise<PlaceOrderResult> {
+  const { hold, ...result } = await db.$transaction((tx: any) => createPendingOrder(cart, input, userId, tx))
+  if (hold) {
+    await finishStockHold(hold)
+  }
+  return result
+}
+
+// `placeOrder` inside the caller's transaction, with the stock hold to
+// finish after the commit
+async function createPendingOrder(
+  cart: CheckoutCart,
+  input: OrderCreateInput,
+  userId: string | undefined,
+  db: any
+): Promise<PlaceOrderResult & { hold?: StockReservationResult }> {
+  const lines: InventoryLine[] = cart.items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId ?? null,
+    quantity: item.quantity
+  }))
+  const products: Array<{ id: string; price: number; requiresShipping: boolean; variants: Array<{ id: string; price: number }> }> =
+    await db.product.findMany({
+      where: {
+        AND: [
+          { id: { in: Array.from(new Set(lines.map(line => line.productId))) } },
+          buildVisibleProductWhere()
+        ]
+      },
+      select: {
+        id: true,
+        price: true,
+        requiresShipping: true,
+        variants: {
+          where: { status: ProductStatus.ACTIVE },
+          select: { id: true, price: true }
+        }
+      }
+    })
+  const productsById = new Map(products.map(product => [product.id, product]))
+
+  const missing = lines.filter(line => {
+    const product = productsById.get(line.productId)
+    return !product || (line.variantId && !product.variants.some(variant => variant.id === line.variantId))
+  })
+  if (missing.length > 0) {
+    return {
+      order: null,
+      shortages: missing.map(line => ({
+        productId: line.productId,
+        variantId: line.variantId,
+        requested: line.quantity,
+        available: 0
+      }))
+    }
+  }
+
+  const priced = lines.map(line => {
+    const product = productsById.get(line.productId)!
+    const variant = product.variants.find(candidate => candidate.id === line.variantId)
+    return {
+      ...line,
+      price: variant?.price ?? product.price,
+      requiresShipping: product.requiresShipping
+    }
+  })
+
+  const [taxRate, shippingRate] = await Promise.all([
+    getNumericShopSetting('shop_tax_rate', 0, db),
+    getNumericShopSetting('shop_shipping_rate', 0, db)
+  ])
+  const totals = calculateOrderTotals(priced, taxRate, shippingRate, cart.discountAmount)
+
+  const order = await db.order.create({
+    data: {
+      orderNumber: generateOrderNumber(),
+      email: input.email,
+      phone: input.phone,
+      subtotal: totals.subtotal,
+      tax: totals.tax,
+      shipping: totals.shipping,
+      total: totals.total,
+      discountAmount: totals.discount,
+      discountCode: cart.discountCode ?? null,
+      shippingAddress: input.shippingAddress,
+      billingAddress: input.billingAddress,
+      paymentMethod: input.paymentMethod,
+      notes: input.notes,
+      userId: userId ?? null,
+      items: {
+        create: priced.map(line => ({
+          productId: line.productId,
+          variantId: line.variantId ?? null,
+          quantity: line.quantity,
+          price: line.price,
+          total: line.price * line.quantity
+        }))
+      }
+    }
+  })
+
+  const hold = await holdOrderStock(order.id, lines, db)
+  if (hold.shortages.length > 0) {
+    await db.order.delete({ where: { id: order.id } })
+    return { order: null, shortages: hold.shortages }
+  }
+
+  await flagOrderBackorders(order.id, db)
+  await db.cartItem.deleteMany({ where: { cartId: cart.id } })
+
+  return {
+    order: await db.order.findUnique({ where: { id: order.id }, include: orderInclude }),
+    shortages: [],
+    hold
+  }
+}
+
+// Payment went through: confirm the order, take it out of stock (converting
+// its reservations) and issue download links for digital items. Safe to call
+// again for the same payment.
+export async function confirmOrderPayment(
+  orderId: string,
+  paymentId?: string,
+  db: any = prisma
+): Promise<FulfillmentAllocation[]> {
+  await db.order.updateMany({
+    where: { id: orderId, status: OrderStatus.PENDING },
+    data: { status: OrderStatus.CONFIRMED }
+  })
+  await db.order.update({
+    where: { id: orderId },
+    data: {
+      paymentStatus: PaymentStatus.PAID,
+      ...(paymentId ? { paymentId } : {})
+    }
+  })
+
+  const allocations = await convertReservations(orderId, db)
+  await issueDownloadLinks(orderId, db)
+
+  return allocations
+}
+
+// Payment was declined. The order keeps its stock hold until the hold
+// expires, so the shopper can retry.
+export async function recordPaymentFailure(orderId: string, paymentId?: string, db: any = prisma) {
+  await db.order.update({
+    where: { id: orderId },
+    data: {
+      paymentStatus: PaymentStatus.FAILED,
+      ...(paymentId ? { paymentId } : {})
+    }
+  })
+}
+
+// Cancel an unpaid order and give its held stock back straight away.
+// Returns the number of reservations released.
+export async function cancelOrder(orderId: string, db: any = prisma): Promise<number> {
+  await db.order.update({
+    where: { id: orderId },
+    data: { status: OrderStatus.CANCELLED }
+  })
+
+  return releaseReservations(orderId, db)
+}
\ No newline at end of file
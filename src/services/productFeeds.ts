@@ -0,0 +1,78 @@
+import { timingSafeEqual } from 'crypto'
+import { prisma } from '@freedompress/core'
+import { Product, ProductFeedOptions, ProductStatus } from '../types'
+import { buildVisibleProductWhere } from '../utils'
+import { getShopSetting } from './settings'
+import { shopAllowsBackorders } from './backorders'
+import { getReservedQuantities, withReservedQuantities } from './reservations'
+
+// Check a `token` query parameter against the shop_feed_token setting, so
+// channels can fetch feeds on a schedule without an admin session. An
+// empty setting turns token access off.
+export async function verifyFeedToken(token: string, db: any = prisma): Promise<boolean> {
+  const expected = await getShopSetting('shop_feed_token', '', db)
+  if (!expected || !token) {
+    return false
+  }
+
+  const expectedBuffer = Buffer.from(expected)
+  const providedBuffer = Buffer.from(token)
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer)
+}
+
+// Feed settings, with links resolved against `baseUrl`
+export async function getProductFeedOptions(baseUrl: string, db: any = prisma): Promise<ProductFeedOptions> {
+  const [currency, weightUnit, brand, allowBackorders] = await Promise.all([
+    getShopSetting('shop_currency', 'USD', db),
+    getShopSetting('shop_weight_unit', 'kg', db),
+    getShopSetting('shop_feed_brand', '', db),
+    shopAllowsBackorders(db)
+  ])
+
+  return { baseUrl, currency, weightUnit, brand: brand || undefined, allowBackorders }
+}
+
+// Live products with what the feeds need: images, category and active
+// variants with their own images. Stock held by unpaid checkouts is set as
+// `reservedQuantity` so it doesn't count as available.
+export async function loadFeedProducts(now: Date = new Date(), db: any = prisma): Promise<Product[]> {
+  const products: Product[] = await db.product.findMany({
+    where: buildVisibleProductWhere(now),
+    include: {
+      category: {
+        select: {
+          name: true
+        }
+      },
+      images: {
+        where: {
+          variantId: null
+        },
+        orderBy: {
+          position: 'asc'
+        }
+      },
+      variants: {
+        where: {
+          status: ProductStatus.ACTIVE
+        },
+        include: {
+          images: {
+            orderBy: {
+              position: 'asc'
+            }
+          }
+        },
+        orderBy: {
+          createdAt: 'asc'
+        }
+      }
+    },
+    orderBy: {
+      createdAt: 'asc'
+    }
+  })
+
+  const reserved = await getReservedQuantities(products.map(product => product.id), { now }, db)
+  return products.map(product => withReservedQuantities(product, reserved))
+}
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { prisma } from '@freedompress/core'
+import { ProductRevisionAction, ProductSnapshot, ProductType } from '../types'
+import { toProductSnapshot } from '../utils'
+
+// Relations needed to build a snapshot
+const snapshotInclude = {
+  collections: {
+    select: {
+      collectionId: true
+    }
+  },
+  tags: {
+    select: {
+      tagId: true
+    }
+  },
+  images: {
+    orderBy: {
+      position: 'asc'
+    }
+  },
+  bundleItems: {
+    orderBy: {
+      position: 'asc'
+    }
+  },
+  variants: {
+    include: {
+      images: {
+        orderBy: {
+          position: 'asc'
+        }
+      }
+    },
+    orderBy: {
+      createdAt: 'asc'
+    }
+  }
+}
+
+// Attempts at claiming the next version number when writes race for it
+const MAX_REVISION_ATTEMPTS = 5
+
+// Prisma's error code for a unique constraint violation
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'P2002'
+}
+
+// Capture the current state of a product, or null if it no longer exists
+export async function snapshotProduct(productId: string, db: any = prisma): Promise<ProductSnapshot | null> {
+  const product = await db.product.findUnique({
+    where: { id: productId },
+    include: snapshotInclude
+  })
+  return product ? toProductSnapshot(product) : null
+}
+
+// Record a revision for a product. Pass `snapshot` when the product is about
+// to be deleted; otherwise its current state is captured.
+export async function recordProductRevision(
+  productId: string,
+  action: ProductRevisionAction,
+  userId?: string,
+  snapshot?: ProductSnapshot | null,
+  db: any = prisma
+) {
+  try {
+    const state = snapshot ?? await snapshotProduct(productId, db)
+    if (!state) {
+      return null
+    }
+
+    // Concurrent writes can read the same latest version. The unique
+    // (productId, version) index rejects all but one, and the others retry
+    // with the next number.
+    for (let attempt = 1; ; attempt++) {
+      const latest = await db.productRevision.findFirst({
+        where: { productId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      })
+
+      try {
+        return await db.productRevision.create({
+          data: {
+            productId,
+            version: (latest?.version ?? 0) + 1,
+            action,
+            snapshot: state,
+            userId
+          }
+        })
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= MAX_REVISION_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+  } catch (error) {
+    // History must not fail a product write that already succeeded
+    console.error('Error recording product revision:', {
+      timestamp: new Date().toISOString(),
+      productId,
+      action,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+    return null
+  }
+}
+
+function imageCreateData(images: ProductSnapshot['images']) {
+  return images.map((image, index) => ({
+    url: image.url,
+    altText: image.altText,
+    position: image.position ?? index
+  }))
+}
+
+// Variant columns from a snapshot; fields missing from it are cleared
+function variantRestoreData(variant: ProductSnapshot['variants'][number]) {
+  return {
+    name: variant.name ?? '',
+    sku: variant.sku ?? null,
+    barcode: variant.barcode ?? null,
+    price: variant.price ?? 0,
+    comparePrice: variant.comparePrice ?? null,
+    costPrice: variant.costPrice ?? null,
+    quantity: variant.quantity ?? 0,
+    trackQuantity: variant.trackQuantity ?? true,
+    backorderPolicy: variant.backorderPolicy ?? null,
+    expectedShipDate: variant.expectedShipDate ?? null,
+    maxBackorderQuantity: variant.maxBackorderQuantity ?? null,
+    option1Name: variant.option1Name ?? null,
+    option1Value: variant.option1Value ?? null,
+    option2Name: variant.option2Name ?? null,
+    option2Value: variant.option2Value ?? null,
+    option3Name: variant.option3Name ?? null,
+    option3Value: variant.option3Value ?? null,
+    weight: variant.weight ?? null,
+    length: variant.length ?? null,
+    width: variant.width ?? null,
+    height: variant.height ?? null,
+    status: variant.status,
+    images: {
+      deleteMany: {},
+      create: imageCreateData(variant.images || [])
+    }
+  }
+}
+
+// Write a snapshot back onto an existing product. Variants keep their ids so
+// carts and orders that reference them stay valid.
+export async function restoreProductSnapshot(productId: string, snapshot: ProductSnapshot, db: any = prisma) {
+  const existingVariants: Array<{ id: string }> = await db.productVariant.findMany({
+    where: { productId },
+    select: { id: true }
+  })
+  const existingIds = new Set(existingVariants.map(variant => variant.id))
+  const snapshotIds = snapshot.variants.map(variant => variant.id)
+
+  return db.product.update({
+    where: { id: productId },
+    data: {
+      name: snapshot.name,
+      slug: snapshot.slug,
+      slugPinned: snapshot.slugPinned ?? false,
+      version: { increment: 1 },
+      description: snapshot.description,
+      shortDescription: snapshot.shortDescription ?? null,
+      price: snapshot.price,
+      comparePrice: snapshot.comparePrice ?? null,
+      costPrice: snapshot.costPrice ?? null,
+      sku: snapshot.sku ?? null,
+      barcode: snapshot.barcode ?? null,
+      trackQuantity: snapshot.trackQuantity,
+      quantity: snapshot.quantity,
+      lowStockLevel: snapshot.lowStockLevel,
+      backorderPolicy: snapshot.backorderPolicy ?? null,
+      expectedShipDate: snapshot.expectedShipDate ?? null,
+      maxBackorderQuantity: snapshot.maxBackorderQuantity ?? null,
+      status: snapshot.status,
+      featured: snapshot.featured,
+      publishAt: snapshot.publishAt ?? null,
+      unpublishAt: snapshot.unpublishAt ?? null,
+      metaTitle: snapshot.metaTitle ?? null,
+      metaDescription: snapshot.metaDescription ?? null,
+      metaKeywords: snapshot.metaKeywords ?? null,
+      weight: snapshot.weight ?? null,
+      length: snapshot.length ?? null,
+      width: snapshot.width ?? null,
+      height: snapshot.height ?? null,
+      requiresShipping: snapshot.requiresShipping,
+      hasVariants: snapshot.variants.length > 0,
+      type: snapshot.type ?? ProductType.SIMPLE,
+      bundlePricing: snapshot.bundlePricing ?? null,
+      bundleDiscount: snapshot.bundleDiscount ?? null,
+      bundleItems: {
+        deleteMany: {},
+        create: (snapshot.bundleItems || []).map((item, index) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity ?? 1,
+          position: index
+        }))
+      },
+      categoryId: snapshot.categoryId ?? null,
+      collections: {
+        deleteMany: {},
+        create: snapshot.collectionIds.map(collectionId => ({ collectionId }))
+      },
+      tags: {
+        deleteMany: {},
+        create: snapshot.tagIds.map(tagId => ({ tagId }))
+      },
+      images: {
+        deleteMany: {},
+        create: imageCreateData(snapshot.images)
+      },
+      variants: {
+        deleteMany: {
+          id: { notIn: snapshotIds }
+        },
+        update: snapshot.variants
+          .filter(variant => existingIds.has(variant.id))
+          .map(variant => ({
+            where: { id: variant.id },
+            data: variantRestoreData(variant)
+          })),
+        create: snapshot.variants
+          .filter(variant => !existingIds.has(variant.id))
+          .map(variant => ({
+            id: variant.id,
+            ...variantRestoreData(variant),
+            images: {
+              create: imageCreateData(variant.images || [])
+            }
+          }))
+      }
+    }
+  })
+}
\ No newline at end of file
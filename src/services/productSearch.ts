@@ -0,0 +1,167 @@
+import { prisma } from '@freedompress/core'
+import {
+  tokenizeSearchQuery,
+  levenshteinDistance,
+  getMaxTypoDistance,
+  buildSearchMatchQuery
+} from '../utils'
+
+// Ranked ids returned per search; filters and pagination apply on top
+const MAX_SEARCH_RESULTS = 1000
+
+// Vocabulary rows scanned when looking for typo corrections of one term
+const MAX_CORRECTION_CANDIDATES = 500
+
+// Create the FTS5 index and its vocabulary view. Prisma can't model virtual
+// tables, so this runs from the module install hook instead of a migration.
+export async function ensureSearchIndex(db: any = prisma) {
+  await db.$executeRawUnsafe(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS product_search USING fts5(
+      product_id UNINDEXED,
+      name,
+      short_description,
+      description,
+      sku,
+      tags,
+      tokenize = 'unicode61 remove_diacritics 2'
+    )
+  `)
+  await db.$executeRawUnsafe(
+    `CREATE VIRTUAL TABLE IF NOT EXISTS product_search_vocab USING fts5vocab(product_search, 'row')`
+  )
+}
+
+// Replace the index row for a product (or drop it if the product is gone)
+export async function indexProduct(productId: string, db: any = prisma) {
+  try {
+    const product = await db.product.findUnique({
+      where: { id: productId },
+      include: {
+        tags: {
+          include: {
+            tag: {
+              select: {
+                name: true
+              }
+            }
+          }
+        },
+        variants: {
+          select: {
+            sku: true
+          }
+        }
+      }
+    })
+
+    await db.$executeRaw`DELETE FROM product_search WHERE product_id = ${productId}`
+
+    // Archived products are kept out of search
+    if (!product || product.deletedAt) {
+      return
+    }
+
+    // Variant SKUs are indexed alongside the product SKU
+    const skus = [product.sku, ...product.variants.map((variant: { sku?: string }) => variant.sku)]
+      .filter(Boolean)
+      .join(' ')
+    const tags = product.tags.map((item: { tag: { name: string } }) => item.tag.name).join(' ')
+
+    await db.$executeRaw`
+      INSERT INTO product_search (product_id, name, short_description, description, sku, tags)
+      VALUES (${product.id}, ${product.name}, ${product.shortDescription ?? ''}, ${product.description}, ${skus}, ${tags})
+    `
+  } catch (error) {
+    // The index is derived data: log and let the product write succeed
+    console.error('Error indexing product for search:', {
+      timestamp: new Date().toISOString(),
+      productId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+// Remove a product from the search index
+export async function removeProductFromIndex(productId: string, db: any = prisma) {
+  try {
+    await db.$executeRaw`DELETE FROM product_search WHERE product_id = ${productId}`
+  } catch (error) {
+    console.error('Error removing product from search index:', {
+      timestamp: new Date().toISOString(),
+      productId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+// Re-index the whole catalog, e.g. after install or a bulk data fix
+export async function rebuildSearchIndex(db: any = prisma) {
+  await ensureSearchIndex(db)
+  await db.$executeRawUnsafe('DELETE FROM product_search')
+
+  const batchSize = 200
+  let cursor: string | undefined
+
+  while (true) {
+    const products: Array<{ id: string }> = await db.product.findMany({
+      where: { deletedAt: null },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    })
+
+    for (const product of products) {
+      await indexProduct(product.id, db)
+    }
+
+    if (products.length < batchSize) {
+      break
+    }
+    cursor = products[products.length - 1]!.id
+  }
+}
+
+// Find indexed terms within typo distance of `term`. Candidates share the
+// first letter, which keeps the vocabulary scan small.
+async function findTermCorrections(term: string, db: any): Promise<string[]> {
+  const maxDistance = getMaxTypoDistance(term)
+  if (maxDistance === 0) {
+    return []
+  }
+
+  const firstLetter = term[0]!
+  const candidates: Array<{ term: string }> = await db.$queryRaw`
+    SELECT term FROM product_search_vocab
+    WHERE term >= ${firstLetter} AND term < ${firstLetter + '\uffff'}
+      AND length(term) BETWEEN ${term.length - maxDistance} AND ${term.length + maxDistance}
+    LIMIT ${MAX_CORRECTION_CANDIDATES}
+  `
+
+  return candidates
+    .map(candidate => candidate.term)
+    .filter(candidate => candidate !== term && levenshteinDistance(term, candidate) <= maxDistance)
+}
+
+// Return product ids matching `query`, best match first
+export async function searchProductIds(query: string, db: any = prisma): Promise<string[]> {
+  const terms = tokenizeSearchQuery(query)
+  if (terms.length === 0) {
+    return []
+  }
+
+  const corrections = await Promise.all(terms.map(term => findTermCorrections(term, db)))
+  const match = buildSearchMatchQuery(terms, corrections)
+
+  // Column weights follow the table definition: product_id, name,
+  // short_description, description, sku, tags
+  const rows: Array<{ product_id: string }> = await db.$queryRaw`
+    SELECT product_id, bm25(product_search, 0.0, 10.0, 4.0, 1.0, 8.0, 3.0) AS rank
+    FROM product_search
+    WHERE product_search MATCH ${match}
+    ORDER BY rank
+    LIMIT ${MAX_SEARCH_RESULTS}
+  `
+
+  return rows.map(row => row.product_id)
+}
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { ProductRevisionAction, ProductStatus } from '../types'
+import { ScheduledTask, SchedulerContext } from './scheduler'
+import { recordProductRevision } from './productRevisions'
+import { syncProductCollections } from './smartCollections'
+import { invalidateCatalog } from './catalogCache'
+import { invalidateCollectionVisibility } from './collections'
+
+// How often publish windows are checked
+export const PUBLISH_SCHEDULE_INTERVAL_MS = 60 * 1000
+
+// Products and collections changed by one run of the publish schedule
+export interface PublishScheduleResult {
+  publishedProducts: string[]
+  unpublishedProducts: string[]
+  publishedCollections: string[]
+  unpublishedCollections: string[]
+}
+
+// Flip a collection's `published` flag and drop the cached reads that show it
+async function setCollectionPublished(collectionId: string, published: boolean, db: any) {
+  await db.collection.update({
+    where: { id: collectionId },
+    data: { published }
+  })
+  await invalidateCollectionVisibility(collectionId, db)
+}
+
+// Apply publish windows that have opened or closed since the last run.
+// DRAFT products go ACTIVE once publishAt passes (unless already expired) and
+// ACTIVE products go back to DRAFT at unpublishAt. Archived products are
+// never touched.
+export async function runPublishSchedule(
+  context: SchedulerContext,
+  now: Date = new Date()
+): Promise<PublishScheduleResult> {
+  const db = context.prisma
+  const result: PublishScheduleResult = {
+    publishedProducts: [],
+    unpublishedProducts: [],
+    publishedCollections: [],
+    unpublishedCollections: []
+  }
+
+  const productsToPublish: Array<{ id: string; slug: string; publishAt: Date }> = await db.product.findMany({
+    where: {
+      status: ProductStatus.DRAFT,
+      deletedAt: null,
+      publishAt: { lte: now },
+      OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }]
+    },
+    select: { id: true, slug: true, publishAt: true }
+  })
+
+  for (const product of productsToPublish) {
+    await db.product.update({
+      where: { id: product.id },
+      data: { status: ProductStatus.ACTIVE, version: { increment: 1 } }
+    })
+    await syncProductCollections(product.id, db)
+    await recordProductRevision(product.id, ProductRevisionAction.UPDATE, undefined, undefined, db)
+    await invalidateCatalog({ type: 'product', productId: product.id })
+    context.events.emit('shop:product:published', {
+      productId: product.id,
+      slug: product.slug,
+      publishAt: product.publishAt
+    })
+    result.publishedProducts.push(product.id)
+  }
+
+  const productsToUnpublish: Array<{ id: string; slug: string; unpublishAt: Date }> = await db.product.findMany({
+    where: {
+      status: ProductStatus.ACTIVE,
+      deletedAt: null,
+      unpublishAt: { lte: now }
+    },
+    select: { id: true, slug: true, unpublishAt: true }
+  })
+
+  for (const product of productsToUnpublish) {
+    await db.product.update({
+      where: { id: product.id },
+      data: { status: ProductStatus.DRAFT, version: { increment: 1 } }
+    })
+    await syncProductCollections(product.id, db)
+    await recordProductRevision(product.id, ProductRevisionAction.UPDATE, undefined, undefined, db)
+    await invalidateCatalog({ type: 'product', productId: product.id })
+    context.events.emit('shop:product:unpublished', {
+      productId: product.id,
+      slug: product.slug,
+      unpublishAt: product.unpublishAt
+    })
+    result.unpublishedProducts.push(product.id)
+  }
+
+  // Collections default to published; hide ones scheduled for later
+  const collectionsToHide: Array<{ id: string }> = await db.collection.findMany({
+    where: {
+      published: true,
+      publishAt: { gt: now }
+    },
+    select: { id: true }
+  })
+
+  for (const collection of collectionsToHide) {
+    await setCollectionPublished(collection.id, false, db)
+  }
+
+  const collectionsToPublish: Array<{ id: string; slug: string; publishAt: Date }> = await db.collection.findMany({
+    where: {
+      published: false,
+      publishAt: { lte: now },
+      OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }]
+    },
+    select: { id: true, slug: true, publishAt: true }
+  })
+
+  for (const collection of collectionsToPublish) {
+    await setCollectionPublished(collection.id, true, db)
+    context.events.emit('shop:collection:published', {
+      collectionId: collection.id,
+      slug: collection.slug,
+      publishAt: collection.publishAt
+    })
+    result.publishedCollections.push(collection.id)
+  }
+
+  const collectionsToUnpublish: Array<{ id: string; slug: string; unpublishAt: Date }> = await db.collection.findMany({
+    where: {
+      published: true,
+      unpublishAt: { lte: now }
+    },
+    select: { id: true, slug: true, unpublishAt: true }
+  })
+
+  for (const collection of collectionsToUnpublish) {
+    await setCollectionPublished(collection.id, false, db)
+    context.events.emit('shop:collection:unpublished', {
+      collectionId: collection.id,
+      slug: collection.slug,
+      unpublishAt: collection.unpublishAt
+    })
+    result.unpublishedCollections.push(collection.id)
+  }
+
+  return result
+}
+
+export const publishScheduleTask: ScheduledTask = {
+  name: 'shop:publish-schedule',
+  intervalMs: PUBLISH_SCHEDULE_INTERVAL_MS,
+  run: async context => {
+    await runPublishSchedule(context)
+  }
+}
\ No newline at end of file
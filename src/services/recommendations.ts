@@ -0,0 +1,134 @@
+import { prisma } from '@freedompress/core'
+import { OrderStatus, ProductStatus } from '../types'
+import {
+  buildCoPurchaseCounts,
+  buildPublishWindowWhere,
+  buildSimilarityIndex,
+  rankRecommendations,
+  RecommendationCandidate
+} from '../utils'
+import { ScheduledTask } from './scheduler'
+
+// Co-purchase counts only change as orders come in, so a few refreshes a day
+// are enough
+export const RECOMMENDATION_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+// Orders older than this no longer shape co-purchase affinity
+export const CO_PURCHASE_WINDOW_DAYS = 365
+
+const ORDER_ITEM_BATCH_SIZE = 1000
+
+// Products that may be recommended: active, published, not archived and in stock
+export function buildRecommendableWhere(now: Date = new Date()) {
+  return {
+    AND: [
+      { status: ProductStatus.ACTIVE, deletedAt: null },
+      buildPublishWindowWhere(now),
+      { OR: [{ trackQuantity: false }, { trackQuantity: true, quantity: { gt: 0 } }] }
+    ]
+  }
+}
+
+// Group the products of recent, non-cancelled orders by order
+async function loadRecentOrders(db: any, now: Date): Promise<string[][]> {
+  const since = new Date(now.getTime() - CO_PURCHASE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const orders = new Map<string, string[]>()
+  let cursor: string | undefined
+
+  while (true) {
+    const items: Array<{ id: string; orderId: string; productId: string }> = await db.orderItem.findMany({
+      where: {
+        order: {
+          status: { notIn: [OrderStatus.CANCELLED, OrderStatus.REFUNDED] },
+          createdAt: { gte: since }
+        }
+      },
+      select: { id: true, orderId: true, productId: true },
+      orderBy: { id: 'asc' },
+      take: ORDER_ITEM_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    })
+
+    for (const item of items) {
+      const productIds = orders.get(item.orderId)
+      if (productIds) {
+        productIds.push(item.productId)
+      } else {
+        orders.set(item.orderId, [item.productId])
+      }
+    }
+
+    if (items.length < ORDER_ITEM_BATCH_SIZE) {
+      break
+    }
+    cursor = items[items.length - 1]!.id
+  }
+
+  return Array.from(orders.values())
+}
+
+// Recompute the stored recommendations for every recommendable product.
+// Returns the number of products processed.
+export async function refreshProductRecommendations(db: any = prisma, now: Date = new Date()) {
+  const recommendableWhere = buildRecommendableWhere(now)
+
+  const products: Array<{ id: string; categoryId: string | null; tags: Array<{ tagId: string }> }> =
+    await db.product.findMany({
+      where: recommendableWhere,
+      select: {
+        id: true,
+        categoryId: true,
+        tags: {
+          select: {
+            tagId: true
+          }
+        }
+      }
+    })
+
+  const candidates: RecommendationCandidate[] = products.map(product => ({
+    id: product.id,
+    categoryId: product.categoryId,
+    tagIds: product.tags.map(tag => tag.tagId)
+  }))
+  const index = buildSimilarityIndex(candidates)
+  const coPurchases = buildCoPurchaseCounts(await loadRecentOrders(db, now))
+
+  // Products that dropped out of the catalog keep no recommendations
+  await db.productRecommendation.deleteMany({
+    where: {
+      NOT: {
+        product: recommendableWhere
+      }
+    }
+  })
+
+  for (const candidate of candidates) {
+    const recommendations = rankRecommendations(candidate, index, coPurchases.get(candidate.id))
+
+    await db.$transaction([
+      db.productRecommendation.deleteMany({
+        where: { productId: candidate.id }
+      }),
+      db.productRecommendation.createMany({
+        data: recommendations.map((recommendation, position) => ({
+          productId: candidate.id,
+          recommendedId: recommendation.recommendedId,
+          reason: recommendation.reason,
+          score: recommendation.score,
+          position
+        }))
+      })
+    ])
+  }
+
+  return candidates.length
+}
+
+export const recommendationsTask: ScheduledTask = {
+  name: 'shop:recommendations',
+  intervalMs: RECOMMENDATION_REFRESH_INTERVAL_MS,
+  run: async context => {
+    await refreshProductRecommendations(context.prisma)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,438 @@
+import { prisma } from '@freedompress/core'
+import {
+  FulfillmentAllocation,
+  OrderItemStockStatus,
+  ReservationStatus,
+  StockAvailability,
+  StockReservation,
+  StockShortage
+} from '../types'
+import { calculateBundleStock, evaluateStockRequest, getStockKey } from '../utils'
+import { ScheduledTask } from './scheduler'
+import { commitOrderInventory, expandBundleLines, finishStockChange, InventoryLine } from './inventory'
+import { loadStockPolicies, StockPolicy } from './backorders'
+import { invalidateCatalog } from './catalogCache'
+import { getNumericShopSetting } from './settings'
+
+const DEFAULT_RESERVATION_TTL_MINUTES = 15
+
+// How often expired reservations are released
+export const RESERVATION_EXPIRY_INTERVAL_MS = 60 * 1000
+
+// Outcome of placing reservations for a checkout. Nothing is reserved when
+// any item is short.
+export interface StockReservationResult {
+  reservations: StockReservation[]
+  shortages: StockShortage[]
+}
+
+// Reservations that still hold stock
+function activeReservationWhere(now: Date) {
+  return { status: ReservationStatus.ACTIVE, expiresAt: { gt: now } }
+}
+
+// Stock held by active reservations on the given products and their
+// variants, keyed by getStockKey
+export async function getReservedQuantities(
+  productIds: string[],
+  options: { now?: Date; excludeOrderId?: string } = {},
+  db: any = prisma
+): Promise<Map<string, number>> {
+  const reserved = new Map<string, number>()
+  if (productIds.length === 0) {
+    return reserved
+  }
+
+  const reservations: Array<{ productId: string; variantId: string | null; quantity: number }> =
+    await db.stockReservation.findMany({
+      where: {
+        ...activeReservationWhere(options.now ?? new Date()),
+        productId: { in: Array.from(new Set(productIds)) },
+        ...(options.excludeOrderId ? { orderId: { not: options.excludeOrderId } } : {})
+      },
+      select: { productId: true, variantId: true, quantity: true }
+    })
+
+  for (const reservation of reservations) {
+    const key = getStockKey(reservation)
+    reserved.set(key, (reserved.get(key) ?? 0) + reservation.quantity)
+  }
+
+  return reserved
+}
+
+// Copy of a product with `reservedQuantity` set on it and its variants
+export function withReservedQuantities<T extends { id: string; variants?: Array<{ id: string }> }>(
+  product: T,
+  reserved: Map<string, number>
+): T {
+  return {
+    ...product,
+    reservedQuantity: reserved.get(getStockKey({ productId: product.id })) ?? 0,
+    ...(product.variants
+      ? {
+        variants: product.variants.map(variant => ({
+          ...variant,
+          reservedQuantity: reserved.get(getStockKey({ productId: product.id, variantId: variant.id })) ?? 0
+        }))
+      }
+      : {})
+  }
+}
+
+// Products that show stock on hand but have all of it held by checkouts, so
+// stock filters treat them as out of stock. A product's holds include its
+// variants'; bundles are out when a component's holds leave no complete set.
+export async function getProductsHeldOutOfStock(now: Date = new Date(), db: any = prisma): Promise<string[]> {
+  const holds: Array<{ productId: string; variantId: string | null; _sum: { quantity: number | null } }> =
+    await db.stockReservation.groupBy({
+      by: ['productId', 'variantId'],
+      where: activeReservationWhere(now),
+      _sum: { quantity: true }
+    })
+  if (holds.length === 0) {
+    return []
+  }
+
+  const reserved = new Map<string, number>()
+  const reservedByProduct = new Map<string, number>()
+  for (const hold of holds) {
+    const quantity = hold._sum.quantity ?? 0
+    reserved.set(getStockKey(hold), quantity)
+    reservedByProduct.set(hold.productId, (reservedByProduct.get(hold.productId) ?? 0) + quantity)
+  }
+  const heldProductIds = Array.from(reservedByProduct.keys())
+
+  const [products, bundles] = await Promise.all([
+    db.product.findMany({
+      where: { id: { in: heldProductIds }, trackQuantity: true, quantity: { gt: 0 } },
+      select: { id: true, quantity: true }
+    }),
+    db.product.findMany({
+      where: { trackQuantity: true, quantity: { gt: 0 }, bundleItems: { some: { productId: { in: heldProductIds } } } },
+      select: {
+        id: true,
+        bundleItems: {
+          select: {
+            productId: true,
+            variantId: true,
+            quantity: true,
+            product: { select: { trackQuantity: true, quantity: true } },
+            variant: { select: { trackQuantity: true, quantity: true } }
+          }
+        }
+      }
+    })
+  ])
+
+  const heldOut = (products as Array<{ id: string; quantity: number }>)
+    .filter(product => product.quantity - (reservedByProduct.get(product.id) ?? 0) <= 0)
+    .map(product => product.id)
+
+  for (const bundle of bundles as Array<{ id: string; bundleItems: any[] }>) {
+    const stock = calculateBundleStock(bundle.bundleItems.map(item => {
+      const source = item.variant ?? item.product
+      return {
+        price: 0,
+        trackQuantity: source.trackQuantity,
+        stock: source.quantity - (reserved.get(getStockKey(item)) ?? 0),
+        quantity: item.quantity
+      }
+    }))
+    if (stock !== null && stock <= 0) {
+      heldOut.push(bundle.id)
+    }
+  }
+
+  return heldOut
+}
+
+// A bundle line waits as long as its slowest component
+function combineBundleAvailability(
+  line: InventoryLine,
+  parts: Array<{ perBundle: number; availability: StockAvailability }>
+): StockAvailability {
+  const waiting = parts.filter(part => part.availability.stockStatus !== OrderItemStockStatus.IN_STOCK)
+  const tracked = parts.filter(part => part.availability.available !== null)
+  const shipDates = waiting
+    .map(part => part.availability.expectedShipDate)
+    .filter((date): date is Date => Boolean(date))
+
+  return {
+    productId: line.productId,
+    variantId: line.variantId,
+    quantity: line.quantity,
+    available: tracked.length > 0
+      ? Math.min(...tracked.map(part => Math.floor((part.availability.available as number) / part.perBundle)))
+      : null,
+    allowed: parts.every(part => part.availability.allowed),
+    stockStatus: waiting.some(part => part.availability.stockStatus === OrderItemStockStatus.PREORDER)
+      ? OrderItemStockStatus.PREORDER
+      : waiting.length > 0 ? OrderItemStockStatus.BACKORDERED : OrderItemStockStatus.IN_STOCK,
+    backorderedQuantity: Math.min(line.quantity, Math.max(0, ...waiting.map(part =>
+      Math.ceil(part.availability.backorderedQuantity / part.perBundle)
+    ))),
+    expectedShipDate: shipDates.length > 0 ? new Date(Math.max(...shipDates.map(date => date.getTime()))) : null
+  }
+}
+
+// Check whether each line can be sold under its backorder policy, and how
+// much of it would wait for stock. Stock reserved by other checkouts and
+// taken by earlier lines isn't available. Carts use this to reject
+// quantities that can't be sold; `excludeOrderId` leaves out the order's own
+// reservations.
+export async function checkStockAvailability(
+  lines: InventoryLine[],
+  options: { now?: Date; excludeOrderId?: string } = {},
+  db: any = prisma
+): Promise<StockAvailability[]> {
+  const now = options.now ?? new Date()
+  const componentsByLine: InventoryLine[][] = []
+  for (const line of lines) {
+    componentsByLine.push(await expandBundleLines([line], db))
+  }
+  const items = componentsByLine.flat()
+  const [policies, reserved] = await Promise.all([
+    loadStockPolicies(items, db),
+    getReservedQuantities(items.map(item => item.productId), { now, excludeOrderId: options.excludeOrderId }, db)
+  ])
+
+  const taken = new Map<string, number>()
+  const evaluate = (item: InventoryLine): StockAvailability => {
+    const key = getStockKey(item)
+    const stock = policies.get(key)
+    if (!stock) {
+      return {
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        available: 0,
+        allowed: false,
+        stockStatus: OrderItemStockStatus.IN_STOCK,
+        backorderedQuantity: 0
+      }
+    }
+    if (!stock.tracked) {
+      return {
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        available: null,
+        allowed: true,
+        stockStatus: OrderItemStockStatus.IN_STOCK,
+        backorderedQuantity: 0
+      }
+    }
+
+    const available = stock.onHand - (reserved.get(key) ?? 0) - (taken.get(key) ?? 0)
+    taken.set(key, (taken.get(key) ?? 0) + item.quantity)
+    return {
+      productId: item.productId,
+      variantId: item.variantId,
+      ...evaluateStockRequest(item.quantity, available, stock.policy, now)
+    }
+  }
+
+  return lines.map((line, index) => {
+    const components = componentsByLine[index]
+    const isBundle = components.length !== 1 || components[0] !== line
+    if (!isBundle) {
+      return evaluate(line)
+    }
+    return combineBundleAvailability(line, components.map(component => ({
+      perBundle: component.quantity / line.quantity,
+      availability: evaluate(component)
+    })))
+  })
+}
+
+// Record on each item of a new order whether it ships now, waits on a
+// backorder or is a pre-order, so fulfillment knows which lines are
+// waiting. Call at checkout, before the order's stock is decremented.
+export async function flagOrderBackorders(orderId: string, db: any = prisma): Promise<StockAvailability[]> {
+  const items: Array<{ id: string; productId: string; variantId: string | null; quantity: number }> =
+    await db.orderItem.findMany({
+      where: { orderId },
+      select: { id: true, productId: true, variantId: true, quantity: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  const availability = await checkStockAvailability(items, { excludeOrderId: orderId }, db)
+
+  for (let index = 0; index < items.length; index++) {
+    await db.orderItem.update({
+      where: { id: items[index].id },
+      data: {
+        stockStatus: availability[index].stockStatus,
+        backorderedQuantity: availability[index].backorderedQuantity,
+        expectedShipDate: availability[index].expectedShipDate ?? null
+      }
+    })
+  }
+
+  return availability
+}
+
+// Hold stock for an unpaid order until shop_reservation_ttl_minutes pass.
+// Bundles reserve their components; items that don't track quantity need no
+// hold. Stock reserved by other checkouts isn't available. Items that may be
+// backordered or pre-ordered are held beyond stock, up to their
+// maxBackorderQuantity. Checking out the same order again replaces its
+// earlier reservations.
+export async function reserveStock(
+  orderId: string,
+  lines: InventoryLine[],
+  db: any = prisma
+): Promise<StockReservationResult> {
+  const result: StockReservationResult = await db.$transaction((tx: any) => holdOrderStock(orderId, lines, tx))
+  await finishStockHold(result)
+  return result
+}
+
+// `reserveStock` inside the caller's transaction. Call `finishStockHold`
+// with the result after the commit.
+export async function holdOrderStock(
+  orderId: string,
+  lines: InventoryLine[],
+  tx: any
+): Promise<StockReservationResult> {
+  const ttlMinutes = await getNumericShopSetting('shop_reservation_ttl_minutes', DEFAULT_RESERVATION_TTL_MINUTES, tx)
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + ttlMinutes * 60 * 1000)
+
+  // Lines for the same item are checked against the same stock
+  const needed = new Map<string, InventoryLine>()
+  for (const line of await expandBundleLines(lines, tx)) {
+    const key = getStockKey(line)
+    const existing = needed.get(key)
+    needed.set(key, { ...line, quantity: (existing?.quantity ?? 0) + line.quantity })
+  }
+  const items = Array.from(needed.values())
+
+  const [policies, reserved] = await Promise.all([
+    loadStockPolicies(items, tx),
+    getReservedQuantities(items.map(item => item.productId), { now, excludeOrderId: orderId }, tx)
+  ])
+
+  const tracked = items.filter(item => policies.get(getStockKey(item))?.tracked)
+  const shortages: StockShortage[] = []
+  for (const item of tracked) {
+    const stock = policies.get(getStockKey(item)) as StockPolicy
+    const available = stock.onHand - (reserved.get(getStockKey(item)) ?? 0)
+    if (!evaluateStockRequest(item.quantity, available, stock.policy, now).allowed) {
+      shortages.push({
+        productId: item.productId,
+        variantId: item.variantId,
+        requested: item.quantity,
+        available: Math.max(0, available)
+      })
+    }
+  }
+
+  if (shortages.length > 0) {
+    return { reservations: [], shortages }
+  }
+
+  await tx.stockReservation.updateMany({
+    where: { orderId, status: ReservationStatus.ACTIVE },
+    data: { status: ReservationStatus.RELEASED }
+  })
+
+  const reservations: StockReservation[] = []
+  for (const item of tracked) {
+    reservations.push(await tx.stockReservation.create({
+      data: {
+        orderId,
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        quantity: item.quantity,
+        expiresAt
+      }
+    }))
+  }
+
+  return { reservations, shortages: [] }
+}
+
+// Held stock moves products in and out of in-stock listings
+export async function finishStockHold(result: StockReservationResult) {
+  if (result.reservations.length > 0) {
+    await invalidateCatalog({
+      type: 'inventory',
+      productIds: Array.from(new Set(result.reservations.map(reservation => reservation.productId)))
+    })
+  }
+}
+
+// Release the active reservations matching `where` and invalidate the
+// listings their stock affects. Returns the number released.
+async function releaseWhere(where: any, db: any): Promise<number> {
+  const held: Array<{ productId: string }> = await db.stockReservation.findMany({
+    where,
+    select: { productId: true },
+    distinct: ['productId']
+  })
+  if (held.length === 0) {
+    return 0
+  }
+
+  const { count } = await db.stockReservation.updateMany({
+    where,
+    data: { status: ReservationStatus.RELEASED }
+  })
+  await invalidateCatalog({ type: 'inventory', productIds: held.map(hold => hold.productId) })
+  return count
+}
+
+// Payment confirmed: take the order out of stock and mark its reservations
+// converted. Expired reservations are converted too, since the sale went
+// through. Both happen in one transaction once the order is claimed (see
+// `commitOrderInventory`), so repeated or concurrent calls decrement it once,
+// with or without reservations.
+export async function convertReservations(orderId: string, db: any = prisma): Promise<FulfillmentAllocation[]> {
+  const withdrawal = await db.$transaction(async (tx: any) => {
+    const committed = await commitOrderInventory(orderId, tx)
+    if (committed) {
+      await tx.stockReservation.updateMany({
+        where: { orderId, status: { not: ReservationStatus.CONVERTED } },
+        data: { status: ReservationStatus.CONVERTED }
+      })
+    }
+    return committed
+  })
+  if (!withdrawal) {
+    return []
+  }
+
+  await finishStockChange(withdrawal.productIds, db)
+  return withdrawal.allocations
+}
+
+// Give up an order's held stock straight away, e.g. when it is cancelled.
+// Returns the number of reservations released.
+export async function releaseReservations(orderId: string, db: any = prisma): Promise<number> {
+  return releaseWhere({ orderId, status: ReservationStatus.ACTIVE }, db)
+}
+
+// Release every active hold on a product and its variants, e.g. when it is
+// archived. Returns the number released.
+export async function releaseProductReservations(productId: string, db: any = prisma): Promise<number> {
+  return releaseWhere({ productId, status: ReservationStatus.ACTIVE }, db)
+}
+
+// Release reservations whose TTL has passed. They stop counting against
+// stock as soon as they expire; this keeps their status accurate and
+// refreshes cached stock listings.
+export async function releaseExpiredReservations(now: Date = new Date(), db: any = prisma): Promise<number> {
+  return releaseWhere({ status: ReservationStatus.ACTIVE, expiresAt: { lte: now } }, db)
+}
+
+export const reservationExpiryTask: ScheduledTask = {
+  name: 'shop:reservation-expiry',
+  intervalMs: RESERVATION_EXPIRY_INTERVAL_MS,
+  run: async context => {
+    const released = await releaseExpiredReservations(new Date(), context.prisma)
+    if (released > 0) {
+      context.events.emit('shop:reservations:expired', { released })
+    }
+  }
+}
\ No newline at end of file
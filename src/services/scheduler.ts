@@ -0,0 +1,65 @@
+// Minimal in-process scheduler for recurring module tasks. Tasks are started
+// when the module activates and stopped when it deactivates.
+
+export interface SchedulerContext {
+  prisma: any
+  events: {
+    emit: (event: string, payload?: any) => void
+  }
+}
+
+export interface ScheduledTask {
+  name: string
+  intervalMs: number
+  run: (context: SchedulerContext) => Promise<void>
+}
+
+const timers = new Map<string, ReturnType<typeof setInterval>>()
+const running = new Set<string>()
+
+// Run a task once, skipping the tick if the previous run is still going
+export async function runScheduledTask(task: ScheduledTask, context: SchedulerContext) {
+  if (running.has(task.name)) {
+    return
+  }
+
+  running.add(task.name)
+  try {
+    await task.run(context)
+  } catch (error) {
+    console.error(`Error running scheduled task ${task.name}:`, {
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: process.env.NODE_ENV === 'development' ? (error as Error).stack : undefined
+    })
+  } finally {
+    running.delete(task.name)
+  }
+}
+
+// Start each task on its interval, running it once straight away
+export function startScheduledTasks(tasks: ScheduledTask[], context: SchedulerContext) {
+  for (const task of tasks) {
+    if (timers.has(task.name)) {
+      continue
+    }
+
+    const timer = setInterval(() => {
+      void runScheduledTask(task, context)
+    }, task.intervalMs)
+
+    // Don't keep the process alive just for the scheduler
+    if (typeof timer === 'object' && typeof timer.unref === 'function') {
+      timer.unref()
+    }
+
+    timers.set(task.name, timer)
+    void runScheduledTask(task, context)
+  }
+}
+
+// Stop all scheduled tasks
+export function stopScheduledTasks() {
+  timers.forEach(timer => clearInterval(timer))
+  timers.clear()
+}
\ No newline at end of file
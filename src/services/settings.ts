@@ -0,0 +1,29 @@
+import { prisma } from '@freedompress/core'
+
+// Read a shop setting stored by the install hook, falling back to `fallback`
+// when it is missing or empty
+export async function getShopSetting(key: string, fallback: string, db: any = prisma): Promise<string> {
+  const setting = await db.setting.findUnique({
+    where: { key },
+    select: { value: true }
+  })
+  return setting?.value ? setting.value : fallback
+}
+
+// Absolute storefront URL for links in feeds and sitemaps: shop_site_url,
+// or the origin the request came in on when that is not set
+export async function getStorefrontUrl(
+  req: { headers: Record<string, string | string[] | undefined> },
+  db: any = prisma
+): Promise<string> {
+  const forwardedProto = req.headers['x-forwarded-proto']
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0] || 'https'
+  const siteUrl = await getShopSetting('shop_site_url', `${proto}://${req.headers.host}`, db)
+  return siteUrl.replace(/\/+$/, '')
+}
+
+// Numeric shop setting; invalid values fall back to `fallback`
+export async function getNumericShopSetting(key: string, fallback: number, db: any = prisma): Promise<number> {
+  const value = parseFloat(await getShopSetting(key, String(fallback), db))
+  return isNaN(value) ? fallback : value
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { prisma } from '@freedompress/core'
+import {
+  buildVisibleProductWhere,
+  SitemapEntry,
+  SitemapSection,
+  SITEMAP_MAX_URLS
+} from '../utils'
+
+// Size and last change of a sitemap section
+export interface SitemapSectionStats {
+  total: number
+  lastModified: Date | null
+}
+
+// Products that have a live storefront page
+export function buildSitemapProductWhere(now: Date = new Date()) {
+  return buildVisibleProductWhere(now)
+}
+
+function getSectionModel(section: SitemapSection, db: any) {
+  return section === 'products' ? db.product : db.category
+}
+
+function getSectionWhere(section: SitemapSection, now: Date) {
+  return section === 'products' ? buildSitemapProductWhere(now) : {}
+}
+
+export async function getSitemapSectionStats(
+  section: SitemapSection,
+  now: Date = new Date(),
+  db: any = prisma
+): Promise<SitemapSectionStats> {
+  const stats = await getSectionModel(section, db).aggregate({
+    where: getSectionWhere(section, now),
+    _max: { updatedAt: true },
+    _count: { _all: true }
+  })
+
+  return { total: stats._count._all, lastModified: stats._max.updatedAt ?? null }
+}
+
+// One page of a section's storefront URLs, with `updatedAt` as lastmod.
+// Ordered by id so pages stay stable as rows are added.
+export async function loadSitemapEntries(
+  section: SitemapSection,
+  page: number,
+  baseUrl: string,
+  now: Date = new Date(),
+  db: any = prisma
+): Promise<SitemapEntry[]> {
+  const rows: Array<{ slug: string; updatedAt: Date }> = await getSectionModel(section, db).findMany({
+    where: getSectionWhere(section, now),
+    select: { slug: true, updatedAt: true },
+    orderBy: { id: 'asc' },
+    skip: (page - 1) * SITEMAP_MAX_URLS,
+    take: SITEMAP_MAX_URLS
+  })
+
+  const path = section === 'products' ? '/shop/product' : '/shop/category'
+  return rows.map(row => ({
+    loc: `${baseUrl}${path}/${encodeURIComponent(row.slug)}`,
+    lastmod: row.updatedAt
+  }))
+}
\ No newline at end of file
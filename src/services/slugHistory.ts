@@ -0,0 +1,50 @@
+import { prisma } from '@freedompress/core'
+
+// Record that a product's slug changed. The previous slug keeps redirecting
+// to the product; the new slug is released from any product's history, since
+// a live slug always wins. Pass a null previous slug for new products.
+export async function recordSlugChange(
+  productId: string,
+  previousSlug: string | null,
+  slug: string,
+  db: any = prisma
+) {
+  if (previousSlug === slug) {
+    return
+  }
+
+  try {
+    await db.productSlugHistory.deleteMany({
+      where: { slug }
+    })
+
+    if (previousSlug) {
+      await db.productSlugHistory.upsert({
+        where: { slug: previousSlug },
+        create: { slug: previousSlug, productId },
+        update: { productId, createdAt: new Date() }
+      })
+    }
+  } catch (error) {
+    // History only drives redirects: log and let the product write succeed
+    console.error('Error recording product slug change:', {
+      timestamp: new Date().toISOString(),
+      productId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+// Find the product a retired slug now points to
+export async function findSlugRedirect(slug: string, db: any = prisma) {
+  const entry = await db.productSlugHistory.findUnique({
+    where: { slug },
+    include: {
+      product: {
+        select: { id: true, slug: true, status: true, deletedAt: true, publishAt: true, unpublishAt: true }
+      }
+    }
+  })
+
+  return entry?.product ?? null
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { prisma } from '@freedompress/core'
+import { CollectionRules } from '../types'
+import {
+  collectionRulesToFilter,
+  compileProductFilter,
+  expandCategoryFilter,
+  isCollectionRules,
+  CategoryNode
+} from '../utils'
+import { ScheduledTask } from './scheduler'
+import { loadCategoryNodes } from './categories'
+import { invalidateCatalog } from './catalogCache'
+
+// Time-based rules ("created in the last 30 days") drift without product
+// changes, so all smart collections are re-evaluated on this interval
+export const SMART_COLLECTION_SYNC_INTERVAL_MS = 60 * 60 * 1000
+
+interface SmartCollection {
+  id: string
+  rules: CollectionRules
+}
+
+// Category rules match the category and everything below it
+function compileCollectionRules(rules: CollectionRules, categories: CategoryNode[]) {
+  return compileProductFilter(expandCategoryFilter(collectionRulesToFilter(rules), categories))
+}
+
+async function findSmartCollections(db: any): Promise<SmartCollection[]> {
+  const collections: Array<{ id: string; rules: unknown }> = await db.collection.findMany({
+    select: { id: true, rules: true }
+  })
+  return collections.filter((collection): collection is SmartCollection => isCollectionRules(collection.rules))
+}
+
+// Replace a smart collection's membership with the products its rules match
+export async function syncCollectionMembership(
+  collection: SmartCollection,
+  db: any = prisma,
+  categories?: CategoryNode[]
+) {
+  const matches: Array<{ id: string }> = await db.product.findMany({
+    where: compileCollectionRules(collection.rules, categories ?? await loadCategoryNodes(db)),
+    select: { id: true }
+  })
+  const matchingIds = matches.map(product => product.id)
+
+  const current: Array<{ productId: string }> = await db.productCollection.findMany({
+    where: { collectionId: collection.id },
+    select: { productId: true }
+  })
+  const currentIds = new Set(current.map(item => item.productId))
+
+  const removed = await db.productCollection.deleteMany({
+    where: {
+      collectionId: collection.id,
+      productId: { notIn: matchingIds }
+    }
+  })
+
+  const added = matchingIds.filter(productId => !currentIds.has(productId))
+  if (added.length > 0) {
+    await db.productCollection.createMany({
+      data: added.map(productId => ({ productId, collectionId: collection.id }))
+    })
+  }
+
+  if (removed.count > 0 || added.length > 0) {
+    await invalidateCatalog({ type: 'collection', collectionId: collection.id })
+  }
+
+  return matchingIds.length
+}
+
+// Re-evaluate every smart collection for one product after it changes
+export async function syncProductCollections(productId: string, db: any = prisma) {
+  try {
+    const collections = await findSmartCollections(db)
+    const categories = collections.length > 0 ? await loadCategoryNodes(db) : []
+
+    for (const collection of collections) {
+      const match = await db.product.findFirst({
+        where: {
+          AND: [
+            { id: productId },
+            compileCollectionRules(collection.rules, categories)
+          ]
+        },
+        select: { id: true }
+      })
+
+      if (match) {
+        const existing = await db.productCollection.findUnique({
+          where: {
+            productId_collectionId: { productId, collectionId: collection.id }
+          }
+        })
+        if (!existing) {
+          await db.productCollection.create({
+            data: { productId, collectionId: collection.id }
+          })
+        }
+      } else {
+        await db.productCollection.deleteMany({
+          where: { productId, collectionId: collection.id }
+        })
+      }
+    }
+  } catch (error) {
+    // Membership is derived from the rules: log and let the product write succeed
+    console.error('Error syncing smart collections for product:', {
+      timestamp: new Date().toISOString(),
+      productId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+// Rebuild the membership of all smart collections
+export async function syncAllSmartCollections(db: any = prisma) {
+  const collections = await findSmartCollections(db)
+  const categories = await loadCategoryNodes(db)
+  for (const collection of collections) {
+    await syncCollectionMembership(collection, db, categories)
+  }
+}
+
+export const smartCollectionsTask: ScheduledTask = {
+  name: 'shop:smart-collections',
+  intervalMs: SMART_COLLECTION_SYNC_INTERVAL_MS,
+  run: async context => {
+    await syncAllSmartCollections(context.prisma)
+  }
+}
\ No newline at end of file
@@ -3,6 +3,8 @@ export interface Product {
   id: string
   name: string
   slug: string
+  slugPinned: boolean
+  version: number
   description: string
   shortDescription?: string
   
@@ -18,9 +20,19 @@ export interface Product {
   quantity: number
   lowStockLevel: number
   
+  // Backorders and pre-orders; no policy follows shop_allow_backorders
+  backorderPolicy?: BackorderPolicy
+  expectedShipDate?: Date
+  maxBackorderQuantity?: number // Units that may be sold beyond stock
+  
   // Status
   status: ProductStatus
   featured: boolean
+  deletedAt?: Date
+  
+  // Scheduled publishing
+  publishAt?: Date
+  unpublishAt?: Date
   
   // SEO
   metaTitle?: string
@@ -37,6 +49,11 @@ export interface Product {
   // Variants
   hasVariants: boolean
   
+  // Bundles
+  type: ProductType
+  bundlePricing?: BundlePricing
+  bundleDiscount?: number
+  
   createdAt: Date
   updatedAt: Date
   
@@ -48,6 +65,29 @@ export interface Product {
   images: ProductImage[]
   reviews: ProductReview[]
   tags: ProductTag[]
+  
+  bundleItems?: ProductBundleItem[]
+  inventoryLevels?: InventoryLevel[]
+  
+  // Held by unpaid checkouts; set on single product responses
+  reservedQuantity?: number
+  
+  // Category path from the root, included on single product responses
+  breadcrumbs?: CategoryBreadcrumb[]
+}
+
+export interface ProductBundleItem {
+  id: string
+  quantity: number
+  position: number
+  
+  // Relations
+  bundleId: string
+  bundle?: Product
+  productId: string
+  product?: Product
+  variantId?: string
+  variant?: ProductVariant
 }
 
 export interface ProductVariant {
@@ -68,6 +108,11 @@ export interface ProductVariant {
   quantity: number
   trackQuantity: boolean
   
+  // Backorders and pre-orders; unset fields follow the product
+  backorderPolicy?: BackorderPolicy
+  expectedShipDate?: Date
+  maxBackorderQuantity?: number
+  
   // Options
   option1Name?: string
   option1Value?: string
@@ -91,6 +136,10 @@ export interface ProductVariant {
   // Relations
   product: Product
   images: ProductImage[]
+  inventoryLevels?: InventoryLevel[]
+  
+  // Held by unpaid checkouts; set on single product responses
+  reservedQuantity?: number
 }
 
 export interface ProductImage {
@@ -109,6 +158,192 @@ export interface ProductImage {
   variant?: ProductVariant
 }
 
+// Product state captured by a revision. Relations are stored by id so a
+// snapshot can be written back with the regular input builders.
+export interface ProductSnapshot {
+  name: string
+  slug: string
+  slugPinned?: boolean
+  description: string
+  shortDescription?: string | null
+  price: number
+  comparePrice?: number | null
+  costPrice?: number | null
+  sku?: string | null
+  barcode?: string | null
+  trackQuantity: boolean
+  quantity: number
+  lowStockLevel: number
+  backorderPolicy?: BackorderPolicy | null
+  expectedShipDate?: string | null
+  maxBackorderQuantity?: number | null
+  status: ProductStatus
+  featured: boolean
+  publishAt?: string | null
+  unpublishAt?: string | null
+  metaTitle?: string | null
+  metaDescription?: string | null
+  metaKeywords?: string | null
+  weight?: number | null
+  length?: number | null
+  width?: number | null
+  height?: number | null
+  requiresShipping: boolean
+  hasVariants: boolean
+  // Absent from snapshots taken before bundles existed
+  type?: ProductType
+  bundlePricing?: BundlePricing | null
+  bundleDiscount?: number | null
+  categoryId?: string | null
+  collectionIds: string[]
+  tagIds: string[]
+  images: ProductImageInput[]
+  variants: Array<ProductVariantInput & { id: string }>
+  bundleItems?: BundleItemInput[]
+}
+
+export interface ProductRevision {
+  id: string
+  productId: string
+  version: number
+  action: ProductRevisionAction
+  snapshot: ProductSnapshot
+  
+  createdAt: Date
+  
+  // Relations
+  userId?: string
+  user?: User
+}
+
+// Returned by the product detail API for a slug the product no longer uses
+export interface ProductRedirect {
+  redirect: true
+  statusCode: 301
+  slug: string
+  location: string
+}
+
+export interface ProductRevisionChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+// A product suggested alongside another, from co-purchases or, failing
+// that, a shared category and tags
+export interface ProductRecommendation {
+  product: Product
+  reason: RecommendationReason
+  score: number
+}
+
+// A warehouse or store that holds stock
+export interface InventoryLocation {
+  id: string
+  name: string
+  code: string
+  type: InventoryLocationType
+  
+  // Address
+  address1?: string
+  city?: string
+  country?: string
+  
+  // Fulfillment rules
+  active: boolean
+  sellable: boolean // Stock here counts toward availability
+  fulfillmentPriority: number // Lowest is picked first
+  shipsTo?: string[] | null // Country codes served; null ships everywhere
+  
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Stock of a product, or one of its variants, at one location
+export interface InventoryLevel {
+  id: string
+  quantity: number
+  
+  createdAt: Date
+  updatedAt: Date
+  
+  // Relations
+  productId: string
+  variantId?: string
+  locationId: string
+  location?: InventoryLocation
+}
+
+// Signed stock change with the balance it left behind
+export interface InventoryMovement {
+  id: string
+  productId: string
+  variantId?: string
+  sku?: string
+  quantity: number
+  balance: number // At the location when one is set, otherwise in total
+  reason: InventoryMovementReason
+  note?: string
+  
+  createdAt: Date
+  
+  // Relations
+  locationId?: string
+  location?: InventoryLocation
+  orderId?: string
+  userId?: string
+}
+
+// Stock held for an unpaid order until it is paid or expires
+export interface StockReservation {
+  id: string
+  quantity: number
+  status: ReservationStatus
+  expiresAt: Date
+  
+  createdAt: Date
+  updatedAt: Date
+  
+  // Relations
+  productId: string
+  variantId?: string
+  orderId: string
+}
+
+// Whether a quantity of an item can be sold, and how much of it would wait
+// for stock
+export interface StockAvailability {
+  productId: string
+  variantId?: string | null
+  quantity: number
+  available: number | null // On hand less reservations and earlier lines; null when not tracked
+  allowed: boolean
+  stockStatus: OrderItemStockStatus
+  backorderedQuantity: number
+  expectedShipDate?: Date | null
+}
+
+// Storefront stock label of a product or variant. 'backorder' and
+// 'preorder' items have no stock left to sell but can still be ordered.
+export type InventoryStatus = 'in_stock' | 'low_stock' | 'out_of_stock' | 'backorder' | 'preorder'
+
+// An item checkout couldn't reserve enough of
+export interface StockShortage {
+  productId: string
+  variantId?: string | null
+  requested: number
+  available: number
+}
+
+// Quantity of an order line picked from one location
+export interface FulfillmentAllocation {
+  productId: string
+  variantId?: string | null
+  locationId: string
+  quantity: number
+}
+
 export interface Category {
   id: string
   name: string
@@ -139,6 +374,18 @@ export interface Category {
   products: Product[]
 }
 
+// Category with its descendants, as returned by the category tree API
+export interface CategoryTreeNode extends Omit<Category, 'parent' | 'children' | 'products'> {
+  children: CategoryTreeNode[]
+  productCount: number
+}
+
+export interface CategoryBreadcrumb {
+  id: string
+  name: string
+  slug: string
+}
+
 export interface Collection {
   id: string
   name: string
@@ -157,8 +404,13 @@ export interface Collection {
   featured: boolean
   sortOrder: number
   
+  // Scheduled publishing
+  published: boolean
+  publishAt?: Date
+  unpublishAt?: Date
+  
   // Rules for automatic collection
-  rules?: any
+  rules?: CollectionRules | null
   
   createdAt: Date
   updatedAt: Date
@@ -232,6 +484,9 @@ export interface CartItem {
   product: Product
   variantId?: string
   variant?: ProductVariant
+  
+  // Whether the quantity can be sold, and how much of it would wait
+  availability?: StockAvailability
 }
 
 export interface Order {
@@ -267,6 +522,9 @@ export interface Order {
   // Notes
   notes?: string
   
+  // Set when the order's items are taken out of stock
+  inventoryCommittedAt?: Date
+  
   createdAt: Date
   updatedAt: Date
   
@@ -282,6 +540,11 @@ export interface OrderItem {
   price: number
   total: number
   
+  // Lines waiting for stock
+  stockStatus: OrderItemStockStatus
+  backorderedQuantity: number
+  expectedShipDate?: Date
+  
   createdAt: Date
   updatedAt: Date
   
@@ -294,6 +557,59 @@ export interface OrderItem {
   variant?: ProductVariant
 }
 
+export interface DigitalAsset {
+  id: string
+  name: string
+  fileName: string
+  storageKey: string
+  mimeType?: string
+  fileSize?: number
+  
+  createdAt: Date
+  updatedAt: Date
+  
+  // Relations
+  productId: string
+  product?: Product
+  variantId?: string
+  variant?: ProductVariant
+}
+
+export interface DigitalAssetInput {
+  name: string
+  fileName: string
+  storageKey: string
+  mimeType?: string
+  fileSize?: number
+  variantId?: string
+}
+
+export interface DownloadLink {
+  id: string
+  expiresAt: Date
+  maxDownloads: number
+  downloadCount: number
+  lastDownloadAt?: Date
+  
+  createdAt: Date
+  
+  // Relations
+  orderItemId: string
+  assetId: string
+  asset?: DigitalAsset
+}
+
+// A download offered to the customer for a paid order
+export interface OrderDownload {
+  linkId: string
+  orderItemId: string
+  assetName: string
+  fileName: string
+  url: string
+  expiresAt: Date
+  downloadsRemaining: number
+}
+
 export interface ProductReview {
   id: string
   rating: number
@@ -395,6 +711,63 @@ export enum ProductStatus {
   ARCHIVED = 'ARCHIVED'
 }
 
+export enum ProductType {
+  SIMPLE = 'SIMPLE',
+  BUNDLE = 'BUNDLE'
+}
+
+export enum BundlePricing {
+  FIXED = 'FIXED',
+  COMPONENT_SUM = 'COMPONENT_SUM'
+}
+
+export enum ProductRevisionAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  ROLLBACK = 'ROLLBACK',
+  IMPORT = 'IMPORT',
+  RESTORE = 'RESTORE',
+  PURGE = 'PURGE'
+}
+
+export enum InventoryLocationType {
+  WAREHOUSE = 'WAREHOUSE',
+  STORE = 'STORE'
+}
+
+export enum InventoryMovementReason {
+  SALE = 'SALE',
+  RETURN = 'RETURN',
+  RESTOCK = 'RESTOCK',
+  DAMAGE = 'DAMAGE',
+  COUNT_CORRECTION = 'COUNT_CORRECTION',
+  MANUAL = 'MANUAL'
+}
+
+export enum BackorderPolicy {
+  DENY = 'DENY',
+  BACKORDER = 'BACKORDER',
+  PREORDER = 'PREORDER'
+}
+
+export enum OrderItemStockStatus {
+  IN_STOCK = 'IN_STOCK',
+  BACKORDERED = 'BACKORDERED',
+  PREORDER = 'PREORDER'
+}
+
+export enum ReservationStatus {
+  ACTIVE = 'ACTIVE',
+  CONVERTED = 'CONVERTED',
+  RELEASED = 'RELEASED'
+}
+
+export enum RecommendationReason {
+  BOUGHT_TOGETHER = 'BOUGHT_TOGETHER',
+  SIMILAR = 'SIMILAR'
+}
+
 export enum OrderStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
@@ -427,6 +800,9 @@ export enum AddressType {
 // Input Types
 export interface ProductCreateInput {
   name: string
+  slug?: string
+  // Keep the slug when the product is renamed
+  slugPinned?: boolean
   description: string
   shortDescription?: string
   price: number
@@ -437,8 +813,15 @@ export interface ProductCreateInput {
   trackQuantity?: boolean
   quantity?: number
   lowStockLevel?: number
+  // null returns the field to its default (shop setting or product)
+  backorderPolicy?: BackorderPolicy | null
+  expectedShipDate?: Date | string | null
+  maxBackorderQuantity?: number | null
   status?: ProductStatus
   featured?: boolean
+  // Scheduled publishing window; null clears a bound
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   metaTitle?: string
   metaDescription?: string
   metaKeywords?: string
@@ -451,10 +834,112 @@ export interface ProductCreateInput {
   collections?: string[]
   tags?: string[]
   images?: ProductImageInput[]
+  variants?: ProductVariantInput[]
+  // Option matrix used to seed variants when `variants` is not provided,
+  // e.g. { Size: ['S', 'M'], Color: ['Red', 'Blue'] }
+  variantOptions?: VariantOptionsInput
+  // Bundle products only
+  type?: ProductType
+  bundlePricing?: BundlePricing
+  bundleDiscount?: number | null
+  bundleItems?: BundleItemInput[]
+}
+
+export interface BundleItemInput {
+  productId: string
+  variantId?: string
+  quantity?: number
 }
 
 export interface ProductUpdateInput extends Partial<ProductCreateInput> {
   id: string
+  // Version the edit is based on; stale edits are rejected with 409
+  version?: number
+}
+
+export interface CategoryCreateInput {
+  name: string
+  slug?: string
+  description?: string
+  metaTitle?: string
+  metaDescription?: string
+  image?: string
+  imageAlt?: string
+  // null moves the category to the top level
+  parentId?: string | null
+  featured?: boolean
+  sortOrder?: number
+}
+
+export interface CategoryUpdateInput extends Partial<CategoryCreateInput> {
+  id: string
+}
+
+// Smart rules are set through /api/shop/collections/[id]/rules
+export interface CollectionCreateInput {
+  name: string
+  slug?: string
+  description?: string
+  metaTitle?: string
+  metaDescription?: string
+  image?: string
+  imageAlt?: string
+  featured?: boolean
+  sortOrder?: number
+  // Scheduled publishing window; null clears a bound
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+}
+
+export interface CollectionUpdateInput extends Partial<CollectionCreateInput> {
+  id: string
+}
+
+export interface InventoryLocationInput {
+  name: string
+  code: string
+  type?: InventoryLocationType
+  address1?: string
+  city?: string
+  country?: string
+  active?: boolean
+  sellable?: boolean
+  fulfillmentPriority?: number
+  shipsTo?: string[] | null
+}
+
+export interface InventoryLocationUpdateInput extends Partial<InventoryLocationInput> {
+  id: string
+}
+
+// Stock to set for a product (or variant) at a location
+export interface InventoryLevelInput {
+  variantId?: string
+  locationId: string
+  quantity: number
+}
+
+// Signed stock change entered by an admin. Items stocked per location
+// need the location.
+export interface InventoryAdjustmentInput {
+  productId: string
+  variantId?: string
+  locationId?: string
+  quantity: number
+  reason: InventoryMovementReason
+  orderId?: string // e.g. the order a return came back from
+  note?: string
+}
+
+export interface InventoryMovementQuery {
+  sku?: string
+  productId?: string
+  variantId?: string
+  locationId?: string
+  reason?: InventoryMovementReason
+  limit?: number
+  after?: string
+  before?: string
 }
 
 export interface ProductImageInput {
@@ -463,6 +948,116 @@ export interface ProductImageInput {
   position?: number
 }
 
+export interface ProductVariantInput {
+  // Existing variant id (updates only); variants without an id are created
+  id?: string
+  name?: string
+  sku?: string
+  barcode?: string
+  price?: number
+  comparePrice?: number
+  costPrice?: number
+  quantity?: number
+  trackQuantity?: boolean
+  backorderPolicy?: BackorderPolicy | null
+  expectedShipDate?: Date | string | null
+  maxBackorderQuantity?: number | null
+  option1Name?: string
+  option1Value?: string
+  option2Name?: string
+  option2Value?: string
+  option3Name?: string
+  option3Value?: string
+  weight?: number
+  length?: number
+  width?: number
+  height?: number
+  status?: ProductStatus
+  images?: ProductImageInput[]
+}
+
+export type VariantOptionsInput = Record<string, string[]>
+
+// Bulk import/export row: relations are referenced by slug or name instead of id
+export interface ProductImportRow extends Omit<ProductCreateInput, 'categoryId' | 'collections' | 'tags'> {
+  category?: string // Category slug
+  collections?: string[] // Collection slugs
+  tags?: string[] // Tag names, created when missing
+}
+
+export interface ProductImportRequest {
+  format: 'csv' | 'json'
+  data: string | ProductImportRow[]
+  dryRun?: boolean
+}
+
+export interface ProductImportRowResult {
+  row: number
+  sku?: string
+  action: 'create' | 'update' | 'error'
+  productId?: string
+  errors: string[]
+}
+
+export interface ProductImportResult {
+  dryRun: boolean
+  total: number
+  created: number
+  updated: number
+  failed: number
+  rows: ProductImportRowResult[]
+}
+
+// Shopping channel feeds (Google Merchant Center, Meta catalog)
+export type ProductFeedChannel = 'google' | 'meta'
+
+// One feed entry: a simple product, or one variant of a product with
+// variants. Prices carry their currency ("19.99 USD") and weights their
+// unit ("1.2 kg"), as the channels expect.
+export interface ProductFeedItem {
+  id: string
+  itemGroupId?: string // Parent product id, set on variants
+  title: string
+  description: string
+  link: string
+  imageLink?: string
+  additionalImageLinks: string[]
+  availability: 'in stock' | 'out of stock' | 'backorder' | 'preorder' | 'available for order'
+  condition: 'new'
+  price: string
+  salePrice?: string
+  gtin?: string
+  mpn?: string
+  brand?: string
+  productType?: string
+  shippingWeight?: string
+}
+
+// Settings a feed is built with
+export interface ProductFeedOptions {
+  baseUrl: string // Absolute storefront URL that product links and images hang off
+  currency: string
+  weightUnit: string
+  brand?: string
+  allowBackorders?: boolean // shop_allow_backorders, for items without a backorder policy
+}
+
+// A feed entry left out because the channel requires fields it lacks
+export interface ProductFeedIssue {
+  id: string
+  productId: string
+  variantId?: string
+  missing: string[] // Channel attribute names, e.g. "image_link"
+}
+
+export interface ProductFeedReport {
+  channel: ProductFeedChannel
+  total: number
+  included: number
+  skipped: number
+  issues: ProductFeedIssue[]
+}
+
 export interface CartItemInput {
   productId: string
   variantId?: string
@@ -502,15 +1097,48 @@ export interface ShopApiResponse<T = any> {
 export interface PaginatedResponse<T = any> {
   data: T[]
   pagination: {
-    page: number
+    // Offset mode only (requests that pass `page`)
+    page?: number
+    total?: number
+    totalPages?: number
     limit: number
-    total: number
-    totalPages: number
     hasNext: boolean
     hasPrev: boolean
+    // Cursor mode only: pass back as `after` / `before` for the adjacent page
+    nextCursor?: string | null
+    prevCursor?: string | null
   }
 }
 
+// Facets
+export type ProductFacetName = 'category' | 'tag' | 'collection' | 'price' | 'options'
+
+export interface FacetCount {
+  value: string
+  label: string
+  count: number
+}
+
+export interface PriceFacetBucket {
+  min: number
+  max?: number
+  label: string
+  count: number
+}
+
+export interface ProductFacets {
+  category?: FacetCount[]
+  tag?: FacetCount[]
+  collection?: FacetCount[]
+  price?: PriceFacetBucket[]
+  // Keyed by option name, e.g. { Color: [{ value: 'Red', label: 'Red', count: 12 }] }
+  options?: Record<string, FacetCount[]>
+}
+
+export interface ProductListResponse extends PaginatedResponse<Product> {
+  facets?: ProductFacets
+}
+
 // Query Types
 export interface ProductQuery {
   page?: number
@@ -524,8 +1152,53 @@ export interface ProductQuery {
   minPrice?: number
   maxPrice?: number
   inStock?: boolean
-  sortBy?: 'name' | 'price' | 'createdAt' | 'updatedAt'
+  sortBy?: 'name' | 'price' | 'createdAt' | 'updatedAt' | 'relevance'
   sortOrder?: 'asc' | 'desc'
+  // Comma-separated facet names to aggregate, or "all"
+  facets?: string
+  // Structured filter, passed as JSON in the query string
+  filter?: string | ProductFilterExpression
+  // Opaque cursors from a previous page; ignored in offset mode
+  after?: string
+  before?: string
+  // Admin only: include archived products, or list only archived ones
+  deleted?: 'include' | 'only'
+  // Sparse fieldsets: comma-separated product columns and relations
+  fields?: string
+  include?: string
+}
+
+// Product filter expressions
+export type ProductFilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin'
+
+export interface ProductFilterCondition {
+  // Allow-listed field, or `attribute.<option name>` for variant options
+  field: string
+  op: ProductFilterOperator
+  value: string | number | boolean | Array<string | number>
+}
+
+export type ProductFilterExpression =
+  | ProductFilterCondition
+  | { and: ProductFilterExpression[] }
+  | { or: ProductFilterExpression[] }
+  | { not: ProductFilterExpression }
+
+// Smart collection rules, stored in Collection.rules. A collection with rules
+// has its product membership maintained automatically.
+export type CollectionRuleMatch = 'all' | 'any'
+
+export interface CollectionRule {
+  // Any product filter field except `collection`
+  field: string
+  // `withinDays` matches `createdAt` in the last `value` days
+  op: ProductFilterOperator | 'withinDays'
+  value: string | number | boolean | Array<string | number>
+}
+
+export interface CollectionRules {
+  match: CollectionRuleMatch
+  conditions: CollectionRule[]
 }
 
 export interface OrderQuery {
@@ -538,6 +1211,8 @@ export interface OrderQuery {
   endDate?: Date
   sortBy?: 'orderNumber' | 'createdAt' | 'total'
   sortOrder?: 'asc' | 'desc'
+  after?: string
+  before?: string
 }
 
 // Component Props Types
@@ -547,12 +1222,23 @@ export interface ProductListProps {
   error?: string
   pagination?: PaginatedResponse<Product>['pagination']
   onLoadMore?: () => void
+  allowBackorders?: boolean // Passed on to each ProductCard
 }
 
 export interface ProductCardProps {
   product: Product
   showAddToCart?: boolean
   showQuickView?: boolean
+  structuredData?: boolean // Embed schema.org Product JSON-LD for the card
+  allowBackorders?: boolean // shop_allow_backorders, for products without a backorder policy
+  className?: string
+}
+
+export interface ProductRecommendationsProps {
+  recommendations: ProductRecommendation[]
+  title?: string
+  loading?: boolean
+  allowBackorders?: boolean // Passed on to each ProductCard
   className?: string
 }
 
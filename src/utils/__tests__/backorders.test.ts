@@ -0,0 +1,94 @@
+import { BackorderPolicy, OrderItemStockStatus } from '../../types'
+import { evaluateStockRequest, resolveBackorderPolicy } from '../backorders'
+
+const now = new Date('2026-06-01T00:00:00.000Z')
+const shipDate = new Date('2026-07-01T00:00:00.000Z')
+
+describe('resolveBackorderPolicy', () => {
+  it('lets each variant field override the product', () => {
+    expect(resolveBackorderPolicy(
+      { backorderPolicy: BackorderPolicy.BACKORDER, expectedShipDate: '2026-07-01T00:00:00.000Z', maxBackorderQuantity: 5 },
+      { backorderPolicy: BackorderPolicy.PREORDER, maxBackorderQuantity: null },
+      false
+    )).toEqual({ policy: BackorderPolicy.PREORDER, expectedShipDate: shipDate, maxBackorderQuantity: 5 })
+  })
+
+  it('follows the shop setting when no policy is set', () => {
+    expect(resolveBackorderPolicy({}, null, true).policy).toBe(BackorderPolicy.BACKORDER)
+    expect(resolveBackorderPolicy({}, null, false)).toEqual({
+      policy: BackorderPolicy.DENY,
+      expectedShipDate: null,
+      maxBackorderQuantity: null
+    })
+  })
+})
+
+describe('evaluateStockRequest', () => {
+  it('sells only available units under DENY', () => {
+    const deny = { policy: BackorderPolicy.DENY, expectedShipDate: shipDate, maxBackorderQuantity: null }
+
+    expect(evaluateStockRequest(5, 5, deny, now)).toMatchObject({
+      allowed: true,
+      stockStatus: OrderItemStockStatus.IN_STOCK,
+      backorderedQuantity: 0,
+      expectedShipDate: null
+    })
+    expect(evaluateStockRequest(6, 5, deny, now).allowed).toBe(false)
+    expect(evaluateStockRequest(1, -2, deny, now).allowed).toBe(false)
+  })
+
+  it('backorders the units beyond stock', () => {
+    const backorder = { policy: BackorderPolicy.BACKORDER, expectedShipDate: shipDate, maxBackorderQuantity: null }
+
+    expect(evaluateStockRequest(8, 5, backorder, now)).toEqual({
+      quantity: 8,
+      available: 5,
+      allowed: true,
+      stockStatus: OrderItemStockStatus.BACKORDERED,
+      backorderedQuantity: 3,
+      expectedShipDate: shipDate
+    })
+    expect(evaluateStockRequest(2, 5, backorder, now)).toMatchObject({
+      allowed: true,
+      stockStatus: OrderItemStockStatus.IN_STOCK,
+      backorderedQuantity: 0,
+      expectedShipDate: null
+    })
+  })
+
+  it('caps units sold beyond stock, counting earlier backorders', () => {
+    const capped = { policy: BackorderPolicy.BACKORDER, expectedShipDate: shipDate, maxBackorderQuantity: 3 }
+
+    expect(evaluateStockRequest(8, 5, capped, now).allowed).toBe(true)
+    expect(evaluateStockRequest(9, 5, capped, now).allowed).toBe(false)
+    expect(evaluateStockRequest(1, -2, capped, now).allowed).toBe(true)
+    expect(evaluateStockRequest(2, -2, capped, now).allowed).toBe(false)
+  })
+
+  it('holds the whole line as a preorder until the ship date', () => {
+    const preorder = { policy: BackorderPolicy.PREORDER, expectedShipDate: shipDate, maxBackorderQuantity: null }
+    const undated = { policy: BackorderPolicy.PREORDER, expectedShipDate: null, maxBackorderQuantity: null }
+
+    expect(evaluateStockRequest(2, 5, preorder, now)).toMatchObject({
+      allowed: true,
+      stockStatus: OrderItemStockStatus.PREORDER,
+      backorderedQuantity: 2,
+      expectedShipDate: shipDate
+    })
+    expect(evaluateStockRequest(2, 5, undated, now).stockStatus).toBe(OrderItemStockStatus.PREORDER)
+  })
+
+  it('treats a preorder past its ship date as a backorder', () => {
+    const shipped = {
+      policy: BackorderPolicy.PREORDER,
+      expectedShipDate: new Date('2026-05-01T00:00:00.000Z'),
+      maxBackorderQuantity: null
+    }
+
+    expect(evaluateStockRequest(2, 5, shipped, now).stockStatus).toBe(OrderItemStockStatus.IN_STOCK)
+    expect(evaluateStockRequest(7, 5, shipped, now)).toMatchObject({
+      stockStatus: OrderItemStockStatus.BACKORDERED,
+      backorderedQuantity: 2
+    })
+  })
+})
\ No newline at end of file
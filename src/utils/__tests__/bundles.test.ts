@@ -0,0 +1,87 @@
+import { BundlePricing, ProductType } from '../../types'
+import { calculateBundlePrice, calculateBundleStock, validateBundleData } from '../bundles'
+
+describe('calculateBundlePrice', () => {
+  const components = [
+    { price: 12.5, trackQuantity: true, stock: 10, quantity: 2 },
+    { price: 4.99, trackQuantity: true, stock: 10, quantity: 1 }
+  ]
+
+  it('keeps the bundle price for fixed pricing', () => {
+    expect(calculateBundlePrice(components, BundlePricing.FIXED, 25, 50)).toBe(25)
+  })
+
+  it('sums component prices times their quantities', () => {
+    expect(calculateBundlePrice(components, BundlePricing.COMPONENT_SUM, 0)).toBe(29.99)
+  })
+
+  it('applies the discount and rounds to cents', () => {
+    expect(calculateBundlePrice(components, BundlePricing.COMPONENT_SUM, 0, 15)).toBe(25.49)
+    expect(calculateBundlePrice(components, BundlePricing.COMPONENT_SUM, 0, null)).toBe(29.99)
+  })
+})
+
+describe('calculateBundleStock', () => {
+  it('is limited by the scarcest tracked component', () => {
+    expect(calculateBundleStock([
+      { price: 10, trackQuantity: true, stock: 10, quantity: 3 },
+      { price: 10, trackQuantity: true, stock: 7, quantity: 1 }
+    ])).toBe(3)
+  })
+
+  it('ignores untracked components and is null when none are tracked', () => {
+    expect(calculateBundleStock([
+      { price: 10, trackQuantity: false, stock: 0, quantity: 1 },
+      { price: 10, trackQuantity: true, stock: 4, quantity: 2 }
+    ])).toBe(2)
+    expect(calculateBundleStock([{ price: 10, trackQuantity: false, stock: 0, quantity: 1 }])).toBeNull()
+  })
+
+  it('treats oversold components as empty', () => {
+    expect(calculateBundleStock([
+      { price: 10, trackQuantity: true, stock: -3, quantity: 1 },
+      { price: 10, trackQuantity: true, stock: 5, quantity: 1 }
+    ])).toBe(0)
+  })
+})
+
+describe('validateBundleData', () => {
+  const base = { name: 'Gift set', description: 'Set', price: 20 }
+
+  it('accepts a bundle with distinct components', () => {
+    expect(validateBundleData({
+      ...base,
+      type: ProductType.BUNDLE,
+      bundlePricing: BundlePricing.COMPONENT_SUM,
+      bundleDiscount: 10,
+      bundleItems: [{ productId: 'p1', quantity: 2 }, { productId: 'p2', variantId: 'v1' }]
+    })).toEqual({ valid: true, errors: [] })
+  })
+
+  it('rejects repeated components, bad quantities and out of range discounts', () => {
+    const result = validateBundleData({
+      ...base,
+      type: ProductType.BUNDLE,
+      bundleDiscount: 120,
+      bundleItems: [{ productId: 'p1', quantity: 0 }, { productId: 'p1' }]
+    })
+    expect(result.errors).toEqual([
+      'Bundle item 1 quantity must be a positive whole number',
+      'Bundle item 2 repeats another component',
+      'Bundle discount must be between 0 and 100 percent'
+    ])
+  })
+
+  it('rejects variants on bundles and bundle items on simple products', () => {
+    expect(validateBundleData({
+      ...base,
+      type: ProductType.BUNDLE,
+      variants: [{ name: 'Red', price: 20 }]
+    }).errors).toEqual(['Bundles cannot have variants of their own'])
+    expect(validateBundleData({
+      ...base,
+      type: ProductType.SIMPLE,
+      bundleItems: [{ productId: 'p1' }]
+    }).errors).toEqual(['Only bundle products can have bundle items'])
+  })
+})
\ No newline at end of file
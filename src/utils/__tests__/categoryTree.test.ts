@@ -0,0 +1,55 @@
+import { buildCategoryTree, expandCategoryFilter, getCategoryPath, wouldCreateCategoryCycle } from '../categoryTree'
+
+// clothing > shoes > running; accessories is a second root
+const categories = [
+  { id: 'c1', name: 'Clothing', slug: 'clothing', parentId: null, sortOrder: 0 },
+  { id: 'c2', name: 'Shoes', slug: 'shoes', parentId: 'c1', sortOrder: 0 },
+  { id: 'c3', name: 'Running', slug: 'running', parentId: 'c2', sortOrder: 0 },
+  { id: 'c4', name: 'Accessories', slug: 'accessories', parentId: null, sortOrder: 1 }
+]
+
+describe('wouldCreateCategoryCycle', () => {
+  it('rejects moving a category under itself or a descendant', () => {
+    expect(wouldCreateCategoryCycle(categories, 'c1', 'c1')).toBe(true)
+    expect(wouldCreateCategoryCycle(categories, 'c1', 'c2')).toBe(true)
+    expect(wouldCreateCategoryCycle(categories, 'c1', 'c3')).toBe(true)
+  })
+
+  it('allows moving under another branch or to the root', () => {
+    expect(wouldCreateCategoryCycle(categories, 'c3', 'c1')).toBe(false)
+    expect(wouldCreateCategoryCycle(categories, 'c2', 'c4')).toBe(false)
+    expect(wouldCreateCategoryCycle(categories, 'c2', null)).toBe(false)
+  })
+})
+
+describe('category hierarchy', () => {
+  it('nests categories and stops at a loop already in the data', () => {
+    const looped = [
+      { id: 'a', name: 'A', slug: 'a', parentId: null, sortOrder: 0 },
+      { id: 'b', name: 'B', slug: 'b', parentId: 'c', sortOrder: 0 },
+      { id: 'c', name: 'C', slug: 'c', parentId: 'b', sortOrder: 0 }
+    ]
+
+    expect(buildCategoryTree(looped)).toEqual([
+      { id: 'a', name: 'A', slug: 'a', parentId: null, sortOrder: 0, productCount: 0, children: [] }
+    ])
+    expect(getCategoryPath(looped, 'b').map(step => step.id)).toEqual(['c', 'b'])
+  })
+
+  it('builds breadcrumbs from the root down', () => {
+    expect(getCategoryPath(categories, 'c3')).toEqual([
+      { id: 'c1', name: 'Clothing', slug: 'clothing' },
+      { id: 'c2', name: 'Shoes', slug: 'shoes' },
+      { id: 'c3', name: 'Running', slug: 'running' }
+    ])
+  })
+
+  it('matches descendant categories in filters', () => {
+    expect(expandCategoryFilter({ and: [{ field: 'category', op: 'eq', value: 'shoes' }] }, categories)).toEqual({
+      and: [{ field: 'category', op: 'in', value: ['shoes', 'running'] }]
+    })
+    expect(expandCategoryFilter({ field: 'category', op: 'ne', value: 'clothing' }, categories)).toEqual(
+      { field: 'category', op: 'nin', value: ['clothing', 'shoes', 'running'] }
+    )
+  })
+})
\ No newline at end of file
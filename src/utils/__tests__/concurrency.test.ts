@@ -0,0 +1,28 @@
+import { buildProductETag, ifMatchSatisfied } from '../concurrency'
+
+describe('buildProductETag', () => {
+  it('is a strong tag over the id and version', () => {
+    expect(buildProductETag({ id: 'p1', version: 3 })).toBe('"p1-v3"')
+  })
+})
+
+describe('ifMatchSatisfied', () => {
+  const etag = buildProductETag({ id: 'p1', version: 3 })
+
+  it('passes requests without If-Match', () => {
+    expect(ifMatchSatisfied(undefined, etag)).toBe(true)
+  })
+
+  it('matches the current tag in a list or as a wildcard', () => {
+    expect(ifMatchSatisfied('"p1-v3"', etag)).toBe(true)
+    expect(ifMatchSatisfied('"p1-v2", "p1-v3"', etag)).toBe(true)
+    expect(ifMatchSatisfied(['"p1-v1"', '"p1-v3"'], etag)).toBe(true)
+    expect(ifMatchSatisfied('*', etag)).toBe(true)
+  })
+
+  it('rejects stale and weak tags', () => {
+    expect(ifMatchSatisfied('"p1-v2"', etag)).toBe(false)
+    expect(ifMatchSatisfied('W/"p1-v3"', etag)).toBe(false)
+    expect(ifMatchSatisfied('', etag)).toBe(false)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { parseCSV, escapeCSVField, toCSV } from '../csv'
+
+describe('parseCSV', () => {
+  it('keys records by the trimmed header row', () => {
+    expect(parseCSV(' sku , name\nA-1,Mug\nA-2,Cup')).toEqual([
+      { sku: 'A-1', name: 'Mug' },
+      { sku: 'A-2', name: 'Cup' }
+    ])
+  })
+
+  it('reads quoted fields with commas, escaped quotes and line breaks', () => {
+    const text = 'sku,description\r\nA-1,"Holds 12 oz, ""large"" size\r\nDishwasher safe"\r\n'
+    expect(parseCSV(text)).toEqual([
+      { sku: 'A-1', description: 'Holds 12 oz, "large" size\r\nDishwasher safe' }
+    ])
+  })
+
+  it('strips a byte order mark and skips blank lines', () => {
+    expect(parseCSV('\ufeffsku,name\n\nA-1,Mug\n,\n')).toEqual([{ sku: 'A-1', name: 'Mug' }])
+  })
+
+  it('fills missing trailing columns with empty strings', () => {
+    expect(parseCSV('sku,name,price\nA-1,Mug')).toEqual([{ sku: 'A-1', name: 'Mug', price: '' }])
+  })
+
+  it('returns no records for empty input', () => {
+    expect(parseCSV('')).toEqual([])
+  })
+})
+
+describe('escapeCSVField', () => {
+  it('leaves plain values unquoted', () => {
+    expect(escapeCSVField('Mug')).toBe('Mug')
+    expect(escapeCSVField(12.5)).toBe('12.5')
+    expect(escapeCSVField(false)).toBe('false')
+  })
+
+  it('quotes values containing separators, quotes or line breaks', () => {
+    expect(escapeCSVField('a,b')).toBe('"a,b"')
+    expect(escapeCSVField('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCSVField('line\nbreak')).toBe('"line\nbreak"')
+  })
+
+  it('writes empty fields for missing values and ISO strings for dates', () => {
+    expect(escapeCSVField(undefined)).toBe('')
+    expect(escapeCSVField(null)).toBe('')
+    expect(escapeCSVField(new Date('2026-01-02T03:04:05Z'))).toBe('2026-01-02T03:04:05.000Z')
+  })
+})
+
+describe('toCSV', () => {
+  it('round-trips through parseCSV', () => {
+    const records = [
+      { sku: 'A-1', name: 'Mug, "large"', price: 12 },
+      { sku: 'A-2', name: 'Cup\nwith lid', price: undefined }
+    ]
+    const text = toCSV(records, ['sku', 'name', 'price'])
+
+    expect(text.split('\r\n')[0]).toBe('sku,name,price')
+    expect(parseCSV(text)).toEqual([
+      { sku: 'A-1', name: 'Mug, "large"', price: '12' },
+      { sku: 'A-2', name: 'Cup\nwith lid', price: '' }
+    ])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { ProductFilterExpression } from '../../types'
+import { parseFacetsParam, withoutFacetConditions } from '../facets'
+
+describe('withoutFacetConditions', () => {
+  const conditions: ProductFilterExpression[] = [
+    { field: 'status', op: 'eq', value: 'ACTIVE' },
+    { field: 'category', op: 'eq', value: 'shoes' },
+    { field: 'price', op: 'gte', value: 25 },
+    { field: 'price', op: 'lte', value: 50 },
+    { field: 'attribute.Color', op: 'eq', value: 'Red' },
+    { or: [{ field: 'category', op: 'eq', value: 'hats' }, { field: 'featured', op: 'eq', value: true }] }
+  ]
+
+  it('drops only the facet\'s own conditions', () => {
+    expect(withoutFacetConditions(conditions, 'category')).toEqual([
+      { field: 'status', op: 'eq', value: 'ACTIVE' },
+      { field: 'price', op: 'gte', value: 25 },
+      { field: 'price', op: 'lte', value: 50 },
+      { field: 'attribute.Color', op: 'eq', value: 'Red' },
+      { or: [{ field: 'category', op: 'eq', value: 'hats' }, { field: 'featured', op: 'eq', value: true }] }
+    ])
+    expect(withoutFacetConditions(conditions, 'price')).toHaveLength(4)
+  })
+
+  it('treats attribute conditions as the options facet', () => {
+    expect(withoutFacetConditions(conditions, 'options')).not.toContainEqual(
+      { field: 'attribute.Color', op: 'eq', value: 'Red' }
+    )
+    expect(withoutFacetConditions(conditions, 'tag')).toEqual(conditions)
+  })
+})
+
+describe('parseFacetsParam', () => {
+  it('keeps allow-listed facets and expands "all"', () => {
+    expect(parseFacetsParam('tag, price,unknown')).toEqual(['tag', 'price'])
+    expect(parseFacetsParam('all')).toEqual(['category', 'tag', 'collection', 'price', 'options'])
+    expect(parseFacetsParam(undefined)).toEqual([])
+  })
+})
\ No newline at end of file
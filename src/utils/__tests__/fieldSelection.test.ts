@@ -0,0 +1,65 @@
+import {
+  buildProductQueryShape,
+  parseSelectionParam,
+  PRODUCT_LIST_INCLUDES,
+  PRODUCT_SELECTABLE_FIELDS
+} from '../fieldSelection'
+
+describe('parseSelectionParam', () => {
+  it('leaves values undefined when the param was not sent', () => {
+    expect(parseSelectionParam(undefined, PRODUCT_SELECTABLE_FIELDS, 'fields')).toEqual({ errors: [] })
+  })
+
+  it('trims, dedupes and joins repeated params', () => {
+    expect(parseSelectionParam([' name,price', 'name,'], PRODUCT_SELECTABLE_FIELDS, 'fields')).toEqual({
+      values: ['name', 'price'],
+      errors: []
+    })
+  })
+
+  it('rejects names outside the allow-list', () => {
+    const result = parseSelectionParam('name,costPrice,deletedAt', PRODUCT_SELECTABLE_FIELDS, 'fields')
+
+    expect(result.values).toBeUndefined()
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatch(/^Unknown fields: costPrice, deletedAt\. Allowed: id, name/)
+  })
+
+  it('selects no relations for an empty include', () => {
+    expect(parseSelectionParam('', PRODUCT_LIST_INCLUDES, 'include')).toEqual({ values: [], errors: [] })
+  })
+})
+
+describe('buildProductQueryShape', () => {
+  const relations = {
+    category: { category: { select: { id: true, name: true } } },
+    images: { images: { orderBy: { sortOrder: 'asc' } } },
+    reviewCount: { _count: { select: { reviews: true } } }
+  }
+
+  it('includes the chosen relations when no fields are picked', () => {
+    expect(buildProductQueryShape(undefined, ['category', 'reviewCount'], relations)).toEqual({
+      include: {
+        category: { select: { id: true, name: true } },
+        _count: { select: { reviews: true } }
+      }
+    })
+  })
+
+  it('selects the picked columns, the id and required columns with the relations', () => {
+    expect(buildProductQueryShape(['name'], ['images'], relations, ['price'])).toEqual({
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        images: { orderBy: { sortOrder: 'asc' } }
+      }
+    })
+  })
+
+  it('skips include names without a relation fragment', () => {
+    expect(buildProductQueryShape(['name'], ['variants'], relations)).toEqual({
+      select: { id: true, name: true }
+    })
+  })
+})
\ No newline at end of file
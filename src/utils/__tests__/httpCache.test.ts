@@ -0,0 +1,71 @@
+import { buildWeakETag, latestDate, isNotModified, buildCatalogCacheControl } from '../httpCache'
+
+describe('buildWeakETag', () => {
+  it('is stable for the same parts and changes with any of them', () => {
+    const updatedAt = new Date('2026-05-01T10:00:00.000Z')
+    const etag = buildWeakETag(['/api/shop/products', 'public', 12, updatedAt])
+
+    expect(etag).toMatch(/^W\/"[0-9a-f]{16}"$/)
+    expect(buildWeakETag(['/api/shop/products', 'public', 12, new Date(updatedAt)])).toBe(etag)
+    expect(buildWeakETag(['/api/shop/products', 'private', 12, updatedAt])).not.toBe(etag)
+    expect(buildWeakETag(['/api/shop/products', 'public', 13, updatedAt])).not.toBe(etag)
+  })
+
+  it('treats null and undefined parts as empty', () => {
+    expect(buildWeakETag(['a', null])).toBe(buildWeakETag(['a', undefined]))
+  })
+})
+
+describe('latestDate', () => {
+  it('picks the latest valid date', () => {
+    expect(latestDate([
+      '2026-01-01T00:00:00.000Z',
+      null,
+      new Date('2026-03-01T00:00:00.000Z'),
+      'not a date'
+    ])).toEqual(new Date('2026-03-01T00:00:00.000Z'))
+  })
+
+  it('is null when no date is known', () => {
+    expect(latestDate([null, undefined])).toBeNull()
+  })
+})
+
+describe('isNotModified', () => {
+  const validators = {
+    etag: 'W/"abc"',
+    lastModified: new Date('2026-05-01T10:00:00.500Z')
+  }
+
+  it('compares If-None-Match tags weakly', () => {
+    expect(isNotModified({ 'if-none-match': '"abc"' }, validators)).toBe(true)
+    expect(isNotModified({ 'if-none-match': 'W/"old", W/"abc"' }, validators)).toBe(true)
+    expect(isNotModified({ 'if-none-match': '*' }, validators)).toBe(true)
+    expect(isNotModified({ 'if-none-match': 'W/"old"' }, validators)).toBe(false)
+  })
+
+  it('prefers If-None-Match over If-Modified-Since', () => {
+    expect(isNotModified({
+      'if-none-match': 'W/"old"',
+      'if-modified-since': 'Fri, 01 May 2026 10:00:00 GMT'
+    }, validators)).toBe(false)
+  })
+
+  it('compares If-Modified-Since at one-second precision', () => {
+    expect(isNotModified({ 'if-modified-since': 'Fri, 01 May 2026 10:00:00 GMT' }, validators)).toBe(true)
+    expect(isNotModified({ 'if-modified-since': 'Fri, 01 May 2026 09:59:59 GMT' }, validators)).toBe(false)
+    expect(isNotModified({ 'if-modified-since': 'yesterday' }, validators)).toBe(false)
+  })
+
+  it('is false without conditional headers', () => {
+    expect(isNotModified({}, validators)).toBe(false)
+    expect(isNotModified({ 'if-modified-since': 'Fri, 01 May 2026 10:00:00 GMT' }, { etag: 'W/"abc"' })).toBe(false)
+  })
+})
+
+describe('buildCatalogCacheControl', () => {
+  it('lets shared caches store public responses only', () => {
+    expect(buildCatalogCacheControl('public')).toBe('public, max-age=60, s-maxage=300, stale-while-revalidate=600')
+    expect(buildCatalogCacheControl('private')).toBe('private, no-cache')
+  })
+})
\ No newline at end of file
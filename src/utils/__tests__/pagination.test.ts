@@ -0,0 +1,127 @@
+import {
+  encodeCursor,
+  decodeCursor,
+  buildCursorQuery,
+  buildCursorPage,
+  buildOffsetPagination
+} from '../pagination'
+
+describe('cursor codec', () => {
+  it('round-trips string, number, boolean and date values', () => {
+    const values = ['Mug', 12.5, true, new Date('2026-03-04T05:06:07.000Z')]
+    for (const value of values) {
+      const token = encodeCursor({ field: 'sort', value, id: 'p1' })
+      expect(decodeCursor(token, 'sort')).toEqual({ field: 'sort', value, id: 'p1' })
+    }
+  })
+
+  it('produces URL-safe tokens', () => {
+    const token = encodeCursor({ field: 'name', value: '??>>~~', id: 'p1' })
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/)
+  })
+
+  it('rejects tokens for another sort field', () => {
+    const token = encodeCursor({ field: 'price', value: 10, id: 'p1' })
+    expect(decodeCursor(token, 'name')).toBeNull()
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(decodeCursor('not-a-cursor', 'price')).toBeNull()
+    expect(decodeCursor(Buffer.from('{"f":"price","v":{},"i":"p1"}').toString('base64url'), 'price')).toBeNull()
+    expect(decodeCursor(Buffer.from('{"f":"price","v":1}').toString('base64url'), 'price')).toBeNull()
+  })
+
+  it('rejects values outside the allowed list', () => {
+    const token = encodeCursor({ field: 'status', value: 'GONE', id: 'p1' })
+    expect(decodeCursor(token, 'status', ['ACTIVE', 'DRAFT'])).toBeNull()
+    expect(decodeCursor(encodeCursor({ field: 'status', value: 'DRAFT', id: 'p1' }), 'status', ['ACTIVE', 'DRAFT']))
+      .toEqual({ field: 'status', value: 'DRAFT', id: 'p1' })
+  })
+})
+
+describe('buildCursorQuery', () => {
+  it('orders by the field with id as tie-breaker and no condition on the first page', () => {
+    expect(buildCursorQuery('price', 'asc', undefined, 'after')).toEqual({
+      orderBy: [{ price: 'asc' }, { id: 'asc' }]
+    })
+  })
+
+  it('selects rows past the cursor in the sort direction', () => {
+    const cursor = { field: 'price', value: 10, id: 'p5' }
+    expect(buildCursorQuery('price', 'asc', cursor, 'after')).toEqual({
+      where: { OR: [{ price: { gt: 10 } }, { price: 10, id: { gt: 'p5' } }] },
+      orderBy: [{ price: 'asc' }, { id: 'asc' }]
+    })
+    expect(buildCursorQuery('price', 'desc', cursor, 'after')).toEqual({
+      where: { OR: [{ price: { lt: 10 } }, { price: 10, id: { lt: 'p5' } }] },
+      orderBy: [{ price: 'desc' }, { id: 'desc' }]
+    })
+  })
+
+  it('walks the order in reverse when paging backwards', () => {
+    const cursor = { field: 'price', value: 10, id: 'p5' }
+    expect(buildCursorQuery('price', 'desc', cursor, 'before')).toEqual({
+      where: { OR: [{ price: { gt: 10 } }, { price: 10, id: { gt: 'p5' } }] },
+      orderBy: [{ price: 'asc' }, { id: 'asc' }]
+    })
+  })
+
+  it('lists the values past the cursor for fields without range filters', () => {
+    const statuses = ['ACTIVE', 'ARCHIVED', 'DRAFT']
+    const cursor = { field: 'status', value: 'ARCHIVED', id: 'p5' }
+
+    expect(buildCursorQuery('status', 'asc', cursor, 'after', statuses).where).toEqual({
+      OR: [{ status: { in: ['DRAFT'] } }, { status: 'ARCHIVED', id: { gt: 'p5' } }]
+    })
+    expect(buildCursorQuery('status', 'asc', cursor, 'before', statuses).where).toEqual({
+      OR: [{ status: { in: ['ACTIVE'] } }, { status: 'ARCHIVED', id: { lt: 'p5' } }]
+    })
+  })
+
+  it('only pages within the last value once no later values remain', () => {
+    const cursor = { field: 'featured', value: false, id: 'p5' }
+    expect(buildCursorQuery('featured', 'desc', cursor, 'after', [false, true]).where).toEqual({
+      featured: false,
+      id: { lt: 'p5' }
+    })
+  })
+})
+
+describe('buildCursorPage', () => {
+  const rows = [{ id: 'a', price: 1 }, { id: 'b', price: 2 }, { id: 'c', price: 3 }]
+
+  it('trims the extra row and links to the next page', () => {
+    const page = buildCursorPage(rows, { field: 'price', limit: 2, direction: 'after', hasCursor: false })
+
+    expect(page.data.map(row => row.id)).toEqual(['a', 'b'])
+    expect(page.pagination).toMatchObject({ limit: 2, hasNext: true, hasPrev: false, prevCursor: null })
+    expect(decodeCursor(page.pagination.nextCursor!, 'price')).toEqual({ field: 'price', value: 2, id: 'b' })
+  })
+
+  it('flips pages fetched backwards and always allows returning forwards', () => {
+    const page = buildCursorPage([rows[1], rows[0]], { field: 'price', limit: 2, direction: 'before', hasCursor: true })
+
+    expect(page.data.map(row => row.id)).toEqual(['a', 'b'])
+    expect(page.pagination.hasNext).toBe(true)
+    expect(page.pagination.hasPrev).toBe(false)
+  })
+
+  it('has no cursors for an empty page', () => {
+    const page = buildCursorPage([], { field: 'price', limit: 2, direction: 'after', hasCursor: true })
+    expect(page.pagination).toMatchObject({ hasNext: false, hasPrev: false, nextCursor: null, prevCursor: null })
+  })
+})
+
+describe('buildOffsetPagination', () => {
+  it('computes page counts and neighbours', () => {
+    expect(buildOffsetPagination(2, 10, 25)).toEqual({
+      page: 2,
+      limit: 10,
+      total: 25,
+      totalPages: 3,
+      hasNext: true,
+      hasPrev: true
+    })
+    expect(buildOffsetPagination(1, 10, 0)).toMatchObject({ totalPages: 0, hasNext: false, hasPrev: false })
+  })
+})
\ No newline at end of file
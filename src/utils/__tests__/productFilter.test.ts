@@ -0,0 +1,174 @@
+import { ProductStatus } from '../../types'
+import { compileProductFilter, parseProductFilter, validateProductFilter } from '../productFilter'
+
+describe('parseProductFilter', () => {
+  it('parses JSON strings and passes objects through', () => {
+    expect(parseProductFilter('{"field":"price","op":"lt","value":20}')).toEqual({ field: 'price', op: 'lt', value: 20 })
+    expect(parseProductFilter({ field: 'featured', op: 'eq', value: true })).toEqual({ field: 'featured', op: 'eq', value: true })
+  })
+
+  it('treats a missing filter as none', () => {
+    expect(parseProductFilter(undefined)).toBeUndefined()
+    expect(parseProductFilter('')).toBeUndefined()
+  })
+
+  it('throws on malformed JSON', () => {
+    expect(() => parseProductFilter('{"field":')).toThrow()
+  })
+})
+
+describe('validateProductFilter', () => {
+  it('accepts nested and/or/not expressions over known fields', () => {
+    const result = validateProductFilter({
+      and: [
+        { field: 'price', op: 'gte', value: 10 },
+        { or: [{ field: 'tag', op: 'in', value: ['sale', 'new'] }, { not: { field: 'featured', op: 'eq', value: false } }] },
+        { field: 'attribute.Color', op: 'eq', value: 'Red' }
+      ]
+    })
+    expect(result).toEqual({ valid: true, errors: [] })
+  })
+
+  it('rejects unknown fields and operators a field does not allow', () => {
+    const result = validateProductFilter({
+      and: [
+        { field: 'password', op: 'eq', value: 'x' },
+        { field: 'featured', op: 'gt', value: true },
+        { field: 'attribute.', op: 'eq', value: 'Red' }
+      ]
+    })
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      'filter.and[0]: unknown filter field "password"',
+      'filter.and[1]: operator "gt" is not allowed for featured',
+      'filter.and[2]: unknown filter field "attribute."'
+    ])
+  })
+
+  it('checks value types, including list values', () => {
+    const result = validateProductFilter({
+      or: [
+        { field: 'price', op: 'lt', value: '20' },
+        { field: 'status', op: 'in', value: [ProductStatus.ACTIVE, 'GONE'] },
+        { field: 'tag', op: 'nin', value: [] }
+      ]
+    })
+    expect(result.errors).toEqual([
+      'filter.or[0]: invalid value for price',
+      'filter.or[1]: invalid value in list for status',
+      'filter.or[2]: nin expects a list of 1 to 100 values'
+    ])
+  })
+
+  it('rejects empty groups and deep nesting', () => {
+    expect(validateProductFilter({ and: [] }).errors).toEqual(['filter.and: expected a non-empty array'])
+
+    let deep: any = { field: 'price', op: 'gt', value: 1 }
+    for (let i = 0; i < 7; i++) {
+      deep = { not: deep }
+    }
+    expect(validateProductFilter(deep).errors[0]).toMatch(/nested too deeply/)
+  })
+
+  it('limits the number of conditions', () => {
+    const conditions = Array.from({ length: 51 }, () => ({ field: 'price', op: 'gt', value: 1 }))
+    expect(validateProductFilter({ and: conditions }).errors).toEqual(['filter has too many conditions (max 50)'])
+  })
+})
+
+describe('compileProductFilter', () => {
+  it('compiles comparisons on columns', () => {
+    expect(compileProductFilter({ field: 'price', op: 'lte', value: 20 })).toEqual({ price: { lte: 20 } })
+    expect(compileProductFilter({ field: 'createdAt', op: 'gt', value: '2026-01-01T00:00:00.000Z' })).toEqual({
+      createdAt: { gt: new Date('2026-01-01T00:00:00.000Z') }
+    })
+  })
+
+  it('compiles relation fields to slug matches', () => {
+    expect(compileProductFilter({ field: 'category', op: 'eq', value: 'mugs' })).toEqual({ category: { slug: 'mugs' } })
+    expect(compileProductFilter({ field: 'tag', op: 'ne', value: 'sale' })).toEqual({
+      NOT: { tags: { some: { tag: { slug: 'sale' } } } }
+    })
+    expect(compileProductFilter({ field: 'collection', op: 'in', value: ['summer', 'winter'] })).toEqual({
+      OR: [
+        { collections: { some: { collection: { slug: 'summer' } } } },
+        { collections: { some: { collection: { slug: 'winter' } } } }
+      ]
+    })
+  })
+
+  it('adds collectionWhere to collection matches', () => {
+    const collectionWhere = { published: true }
+    expect(compileProductFilter({ field: 'collection', op: 'eq', value: 'summer' }, { collectionWhere })).toEqual({
+      collections: { some: { collection: { AND: [{ slug: 'summer' }, { published: true }] } } }
+    })
+  })
+
+  it('matches variant options for attribute fields', () => {
+    expect(compileProductFilter({ field: 'attribute.Size', op: 'nin', value: ['XL'] })).toEqual({
+      NOT: {
+        OR: [{
+          variants: {
+            some: {
+              status: ProductStatus.ACTIVE,
+              OR: [
+                { option1Name: 'Size', option1Value: 'XL' },
+                { option2Name: 'Size', option2Value: 'XL' },
+                { option3Name: 'Size', option3Value: 'XL' }
+              ]
+            }
+          }
+        }]
+      }
+    })
+  })
+
+  it('compiles inStock from tracking and quantity', () => {
+    expect(compileProductFilter({ field: 'inStock', op: 'eq', value: true })).toEqual({
+      OR: [{ trackQuantity: false }, { trackQuantity: true, quantity: { gt: 0 } }]
+    })
+    expect(compileProductFilter({ field: 'inStock', op: 'eq', value: false })).toEqual({
+      trackQuantity: true,
+      quantity: { lte: 0 }
+    })
+  })
+
+  it('treats products held out of stock by reservations as out of stock', () => {
+    const options = { heldOutProductIds: ['p1'] }
+    expect(compileProductFilter({ field: 'inStock', op: 'eq', value: true }, options)).toEqual({
+      AND: [
+        { OR: [{ trackQuantity: false }, { trackQuantity: true, quantity: { gt: 0 } }] },
+        { id: { notIn: ['p1'] } }
+      ]
+    })
+    expect(compileProductFilter({ field: 'inStock', op: 'eq', value: false }, options)).toEqual({
+      OR: [{ trackQuantity: true, quantity: { lte: 0 } }, { id: { in: ['p1'] } }]
+    })
+  })
+
+  it('compiles and/or/not groups recursively, passing options down', () => {
+    expect(compileProductFilter({
+      and: [
+        { field: 'featured', op: 'eq', value: true },
+        { or: [{ field: 'sku', op: 'eq', value: 'A-1' }, { not: { field: 'inStock', op: 'eq', value: true } }] }
+      ]
+    }, { heldOutProductIds: ['p1'] })).toEqual({
+      AND: [
+        { featured: true },
+        {
+          OR: [
+            { sku: 'A-1' },
+            {
+              NOT: {
+                AND: [
+                  { OR: [{ trackQuantity: false }, { trackQuantity: true, quantity: { gt: 0 } }] },
+                  { id: { notIn: ['p1'] } }
+                ]
+              }
+            }
+          ]
+        }
+      ]
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { parseCSV, toCSV } from '../csv'
+import { csvRecordsToImportRows, importRowsToCSVRecords, PRODUCT_CSV_COLUMNS } from '../productImport'
+
+describe('product CSV round trip', () => {
+  const reimport = (rows: Parameters<typeof importRowsToCSVRecords>[0]) =>
+    csvRecordsToImportRows(parseCSV(toCSV(importRowsToCSVRecords(rows), PRODUCT_CSV_COLUMNS)))
+
+  it('groups variant lines under their product SKU', () => {
+    const [imported, ...rest] = reimport([{
+      sku: 'MUG',
+      name: 'Mug',
+      slug: 'mug',
+      description: 'A mug',
+      price: 12,
+      variants: [{ sku: 'MUG-R', option1Value: 'Red' }, { sku: 'MUG-B', option1Value: 'Blue' }]
+    }])
+
+    expect(rest).toEqual([])
+    expect(imported.data.variants?.map(variant => variant.sku)).toEqual(['MUG-R', 'MUG-B'])
+    expect(imported.errors).toEqual([])
+  })
+
+  it('groups variant lines by slug for products without a SKU', () => {
+    const imported = reimport([
+      {
+        name: 'Tee',
+        slug: 'tee',
+        description: 'A tee',
+        price: 20,
+        variants: [{ sku: 'TEE-S', option1Value: 'S' }, { sku: 'TEE-M', option1Value: 'M' }]
+      },
+      { name: 'Cap', slug: 'cap', description: 'A cap', price: 15 }
+    ])
+
+    expect(imported.map(item => item.data.slug)).toEqual(['tee', 'cap'])
+    expect(imported[0].data.sku).toBeUndefined()
+    expect(imported[0].data.variants?.map(variant => variant.sku)).toEqual(['TEE-S', 'TEE-M'])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { ProductStatus } from '../../types'
+import { toProductSnapshot, diffProductSnapshots } from '../revisions'
+
+const storedProduct = {
+  id: 'p1',
+  name: 'Mug',
+  slug: 'mug',
+  description: 'A mug',
+  price: 12,
+  trackQuantity: true,
+  quantity: 5,
+  lowStockLevel: 2,
+  status: ProductStatus.ACTIVE,
+  featured: false,
+  requiresShipping: true,
+  hasVariants: true,
+  categoryId: 'c1',
+  collections: [{ collectionId: 'col2' }, { collectionId: 'col1' }],
+  tags: [{ tagId: 't1' }],
+  images: [{ id: 'i1', url: '/mug.jpg', altText: null, position: 0 }],
+  variants: [
+    { id: 'v1', name: 'Red', sku: 'MUG-R', price: 12, quantity: 2, comparePrice: null, option1Name: 'Color', option1Value: 'Red', images: [] },
+    { id: 'v2', name: 'Blue', sku: 'MUG-B', price: 12, quantity: 3, comparePrice: null, option1Name: 'Color', option1Value: 'Blue', images: [] }
+  ]
+}
+
+describe('toProductSnapshot', () => {
+  it('captures columns, relation ids and variants without nulls', () => {
+    const snapshot = toProductSnapshot(storedProduct)
+
+    expect(snapshot.name).toBe('Mug')
+    expect(snapshot.comparePrice).toBeNull()
+    expect(snapshot.collectionIds).toEqual(['col1', 'col2'])
+    expect(snapshot.tagIds).toEqual(['t1'])
+    expect(snapshot.images).toEqual([{ url: '/mug.jpg', altText: undefined, position: 0 }])
+    expect(snapshot.variants[0]).toEqual({
+      id: 'v1',
+      name: 'Red',
+      sku: 'MUG-R',
+      price: 12,
+      quantity: 2,
+      option1Name: 'Color',
+      option1Value: 'Red',
+      images: []
+    })
+    expect(snapshot).not.toHaveProperty('id')
+  })
+})
+
+describe('diffProductSnapshots', () => {
+  const before = toProductSnapshot(storedProduct)
+
+  it('reports nothing for identical snapshots', () => {
+    expect(diffProductSnapshots(before, toProductSnapshot(storedProduct))).toEqual([])
+  })
+
+  it('lists changed columns and relations', () => {
+    const after = toProductSnapshot({
+      ...storedProduct,
+      price: 15,
+      status: ProductStatus.DRAFT,
+      tags: [{ tagId: 't1' }, { tagId: 't2' }]
+    })
+
+    expect(diffProductSnapshots(before, after)).toEqual([
+      { field: 'price', before: 12, after: 15 },
+      { field: 'status', before: ProductStatus.ACTIVE, after: ProductStatus.DRAFT },
+      { field: 'tagIds', before: ['t1'], after: ['t1', 't2'] }
+    ])
+  })
+
+  it('compares variants by id', () => {
+    const after = toProductSnapshot({
+      ...storedProduct,
+      variants: [
+        { ...storedProduct.variants[0], quantity: 1 },
+        { id: 'v3', name: 'Green', price: 12, quantity: 4, images: [] }
+      ]
+    })
+
+    const changes = diffProductSnapshots(before, after)
+    expect(changes.map(change => change.field)).toEqual(['variants.v1', 'variants.v2', 'variants.v3'])
+    expect(changes[0]).toMatchObject({ before: { quantity: 2 }, after: { quantity: 1 } })
+    expect(changes[1]).toMatchObject({ before: { id: 'v2' }, after: null })
+    expect(changes[2]).toMatchObject({ before: null, after: { id: 'v3' } })
+  })
+
+  it('treats a missing snapshot as every field changing', () => {
+    const changes = diffProductSnapshots(null, before)
+
+    expect(changes).toContainEqual({ field: 'name', before: null, after: 'Mug' })
+    expect(changes).toContainEqual({ field: 'variants.v1', before: null, after: before.variants[0] })
+    expect(changes.some(change => change.field === 'comparePrice')).toBe(false)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { BackorderPolicy, OrderItemStockStatus, StockAvailability } from '../types'
+
+// Backorder fields as stored on a product or variant
+export interface BackorderSettings {
+  backorderPolicy?: BackorderPolicy | null
+  expectedShipDate?: Date | string | null
+  maxBackorderQuantity?: number | null
+}
+
+export interface ResolvedBackorderPolicy {
+  policy: BackorderPolicy
+  expectedShipDate: Date | null
+  maxBackorderQuantity: number | null // null: no cap
+}
+
+// Backorder fields of a variant, each falling back to the product's
+export function mergeBackorderSettings(
+  product: BackorderSettings,
+  variant: BackorderSettings | null | undefined
+): BackorderSettings {
+  return {
+    backorderPolicy: variant?.backorderPolicy ?? product.backorderPolicy,
+    expectedShipDate: variant?.expectedShipDate ?? product.expectedShipDate,
+    maxBackorderQuantity: variant?.maxBackorderQuantity ?? product.maxBackorderQuantity
+  }
+}
+
+// The policy that applies to a product or one of its variants. Each variant
+// field overrides the product's; a product without a policy follows the
+// shop's shop_allow_backorders setting.
+export function resolveBackorderPolicy(
+  product: BackorderSettings,
+  variant: BackorderSettings | null | undefined,
+  allowBackorders: boolean
+): ResolvedBackorderPolicy {
+  const settings = mergeBackorderSettings(product, variant)
+
+  return {
+    policy: settings.backorderPolicy ?? (allowBackorders ? BackorderPolicy.BACKORDER : BackorderPolicy.DENY),
+    expectedShipDate: settings.expectedShipDate ? new Date(settings.expectedShipDate) : null,
+    maxBackorderQuantity: settings.maxBackorderQuantity ?? null
+  }
+}
+
+// Decide how `quantity` units of an item with `available` units can be
+// sold. DENY sells only what is available. BACKORDER sells the rest to wait
+// for stock, and PREORDER holds the whole line until the expected ship date
+// (after which it behaves as BACKORDER). Either way, no more than
+// maxBackorderQuantity units in total are sold beyond stock; `available`
+// below zero means some already have been.
+export function evaluateStockRequest(
+  quantity: number,
+  available: number,
+  policy: ResolvedBackorderPolicy,
+  now: Date = new Date()
+): Pick<StockAvailability, 'quantity' | 'available' | 'allowed' | 'stockStatus' | 'backorderedQuantity' | 'expectedShipDate'> {
+  const beyondStock = quantity - Math.max(0, Math.min(quantity, available))
+
+  if (policy.policy === BackorderPolicy.DENY) {
+    return {
+      quantity,
+      available,
+      allowed: beyondStock === 0,
+      stockStatus: OrderItemStockStatus.IN_STOCK,
+      backorderedQuantity: 0,
+      expectedShipDate: null
+    }
+  }
+
+  const allowed = policy.maxBackorderQuantity === null ||
+    beyondStock <= policy.maxBackorderQuantity + Math.min(0, available)
+  const preorder = policy.policy === BackorderPolicy.PREORDER &&
+    (!policy.expectedShipDate || policy.expectedShipDate > now)
+
+  if (preorder) {
+    return {
+      quantity,
+      available,
+      allowed,
+      stockStatus: OrderItemStockStatus.PREORDER,
+      backorderedQuantity: quantity,
+      expectedShipDate: policy.expectedShipDate
+    }
+  }
+
+  return {
+    quantity,
+    available,
+    allowed,
+    stockStatus: beyondStock > 0 ? OrderItemStockStatus.BACKORDERED : OrderItemStockStatus.IN_STOCK,
+    backorderedQuantity: beyondStock,
+    expectedShipDate: beyondStock > 0 ? policy.expectedShipDate : null
+  }
+}
+
+// Validate backorder fields on product or variant input
+export function validateBackorderSettings(data: BackorderSettings, label: string = 'Product'): string[] {
+  const errors: string[] = []
+
+  if (
+    data.backorderPolicy !== undefined &&
+    data.backorderPolicy !== null &&
+    !Object.values(BackorderPolicy).includes(data.backorderPolicy)
+  ) {
+    errors.push(`${label} backorder policy must be one of: ${Object.values(BackorderPolicy).join(', ')}`)
+  }
+
+  if (data.expectedShipDate && isNaN(new Date(data.expectedShipDate).getTime())) {
+    errors.push(`${label} expected ship date must be a valid date`)
+  }
+
+  if (
+    data.maxBackorderQuantity !== undefined &&
+    data.maxBackorderQuantity !== null &&
+    (!Number.isInteger(data.maxBackorderQuantity) || data.maxBackorderQuantity < 0)
+  ) {
+    errors.push(`${label} max backorder quantity must be a non-negative integer`)
+  }
+
+  return errors
+}
\ No newline at end of file
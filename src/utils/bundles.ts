@@ -0,0 +1,97 @@
+import { BundleItemInput, BundlePricing, ProductCreateInput, ProductType, ProductUpdateInput } from '../types'
+
+const MAX_BUNDLE_ITEMS = 50
+
+// Price and stock of one bundle component, resolved to the variant when the
+// component is pinned to one
+export interface BundleComponentState {
+  price: number
+  trackQuantity: boolean
+  stock: number
+  // Units of this component in one bundle
+  quantity: number
+}
+
+// Price of a bundle: fixed bundles keep their own price, component-sum
+// bundles cost the component total less the percentage discount
+export function calculateBundlePrice(
+  components: BundleComponentState[],
+  pricing: BundlePricing,
+  fixedPrice: number,
+  discountPercent?: number | null
+): number {
+  if (pricing === BundlePricing.FIXED) {
+    return fixedPrice
+  }
+
+  const total = components.reduce((sum, component) => sum + component.price * component.quantity, 0)
+  const discounted = total * (1 - (discountPercent ?? 0) / 100)
+  return Math.round(discounted * 100) / 100
+}
+
+// Number of complete bundles the tracked components can supply, or null when
+// no component tracks inventory
+export function calculateBundleStock(components: BundleComponentState[]): number | null {
+  const limits = components
+    .filter(component => component.trackQuantity)
+    .map(component => Math.floor(Math.max(component.stock, 0) / component.quantity))
+
+  return limits.length > 0 ? Math.min(...limits) : null
+}
+
+// Validate the bundle fields present in a product payload. Whether a bundle
+// has components at all depends on the stored product, so handlers check that.
+export function validateBundleData(data: ProductCreateInput | ProductUpdateInput): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (data.type !== undefined && !Object.values(ProductType).includes(data.type)) {
+    errors.push(`Product type must be one of ${Object.values(ProductType).join(', ')}`)
+  }
+
+  if (data.type === ProductType.SIMPLE && data.bundleItems && data.bundleItems.length > 0) {
+    errors.push('Only bundle products can have bundle items')
+  }
+
+  if (data.bundleItems) {
+    if (data.bundleItems.length === 0) {
+      errors.push('Bundles need at least one component')
+    } else if (data.bundleItems.length > MAX_BUNDLE_ITEMS) {
+      errors.push(`Bundles support at most ${MAX_BUNDLE_ITEMS} components`)
+    }
+
+    const seen = new Set<string>()
+    data.bundleItems.forEach((item: BundleItemInput, index: number) => {
+      const label = `Bundle item ${index + 1}`
+      if (!item.productId) {
+        errors.push(`${label} needs a productId`)
+      }
+      if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1)) {
+        errors.push(`${label} quantity must be a positive whole number`)
+      }
+
+      const key = `${item.productId}:${item.variantId ?? ''}`
+      if (seen.has(key)) {
+        errors.push(`${label} repeats another component`)
+      }
+      seen.add(key)
+    })
+  }
+
+  if (data.bundlePricing && !Object.values(BundlePricing).includes(data.bundlePricing)) {
+    errors.push(`Bundle pricing must be one of ${Object.values(BundlePricing).join(', ')}`)
+  }
+
+  if (data.bundleDiscount !== undefined && data.bundleDiscount !== null &&
+    (data.bundleDiscount < 0 || data.bundleDiscount > 100)) {
+    errors.push('Bundle discount must be between 0 and 100 percent')
+  }
+
+  if (data.type === ProductType.BUNDLE && ((data.variants && data.variants.length > 0) || data.variantOptions)) {
+    errors.push('Bundles cannot have variants of their own')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
\ No newline at end of file
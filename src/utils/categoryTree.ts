@@ -0,0 +1,136 @@
+import { CategoryBreadcrumb, CategoryTreeNode, ProductFilterExpression } from '../types'
+
+// Fields of a category needed to work with the hierarchy
+export interface CategoryNode {
+  id: string
+  name: string
+  slug: string
+  parentId?: string | null
+  sortOrder: number
+}
+
+function compareCategories(a: CategoryNode, b: CategoryNode): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+}
+
+function groupByParent<T extends CategoryNode>(categories: T[]): Map<string | null, T[]> {
+  const byParent = new Map<string | null, T[]>()
+  for (const category of categories) {
+    const parentId = category.parentId ?? null
+    byParent.set(parentId, [...(byParent.get(parentId) || []), category])
+  }
+  return byParent
+}
+
+// Nest a flat category list into a tree ordered by sortOrder, then name.
+// Categories whose parent is missing are treated as roots.
+export function buildCategoryTree<T extends CategoryNode & { productCount?: number }>(
+  categories: T[]
+): CategoryTreeNode[] {
+  const ids = new Set(categories.map(category => category.id))
+  const byParent = groupByParent(categories.map(category => ({
+    ...category,
+    parentId: category.parentId && ids.has(category.parentId) ? category.parentId : null
+  })))
+  const visited = new Set<string>()
+
+  const build = (parentId: string | null): CategoryTreeNode[] =>
+    (byParent.get(parentId) || [])
+      .filter(category => !visited.has(category.id))
+      .sort(compareCategories)
+      .map(category => {
+        visited.add(category.id)
+        return {
+          ...(category as any),
+          productCount: category.productCount ?? 0,
+          children: build(category.id)
+        }
+      })
+
+  return build(null)
+}
+
+// Ids of every category below `categoryId` (not including itself)
+export function getDescendantIds(categories: CategoryNode[], categoryId: string): string[] {
+  const byParent = groupByParent(categories)
+  const descendants: string[] = []
+  const queue = [categoryId]
+  const seen = new Set(queue)
+
+  while (queue.length > 0) {
+    const children = byParent.get(queue.shift()!) || []
+    for (const child of children) {
+      if (!seen.has(child.id)) {
+        seen.add(child.id)
+        descendants.push(child.id)
+        queue.push(child.id)
+      }
+    }
+  }
+
+  return descendants
+}
+
+// Path from the root category down to `categoryId`
+export function getCategoryPath(categories: CategoryNode[], categoryId: string): CategoryBreadcrumb[] {
+  const byId = new Map(categories.map(category => [category.id, category]))
+  const path: CategoryBreadcrumb[] = []
+  const seen = new Set<string>()
+  let current = byId.get(categoryId)
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.unshift({ id: current.id, name: current.name, slug: current.slug })
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+
+  return path
+}
+
+// Moving a category under itself or one of its descendants would create a loop
+export function wouldCreateCategoryCycle(
+  categories: CategoryNode[],
+  categoryId: string,
+  parentId: string | null | undefined
+): boolean {
+  if (!parentId) {
+    return false
+  }
+  return parentId === categoryId || getDescendantIds(categories, categoryId).includes(parentId)
+}
+
+// Rewrite category conditions so a category also matches its descendants,
+// e.g. `category eq shoes` also matches products in "running-shoes"
+export function expandCategoryFilter(
+  expression: ProductFilterExpression,
+  categories: CategoryNode[]
+): ProductFilterExpression {
+  if ('and' in expression) {
+    return { and: expression.and.map(child => expandCategoryFilter(child, categories)) }
+  }
+  if ('or' in expression) {
+    return { or: expression.or.map(child => expandCategoryFilter(child, categories)) }
+  }
+  if ('not' in expression) {
+    return { not: expandCategoryFilter(expression.not, categories) }
+  }
+  if (expression.field !== 'category') {
+    return expression
+  }
+
+  const bySlug = new Map(categories.map(category => [category.slug, category]))
+  const byId = new Map(categories.map(category => [category.id, category]))
+  const slugs = (Array.isArray(expression.value) ? expression.value : [expression.value]).map(String)
+  const expanded = new Set<string>()
+
+  for (const slug of slugs) {
+    expanded.add(slug)
+    const category = bySlug.get(slug)
+    if (category) {
+      getDescendantIds(categories, category.id).forEach(id => expanded.add(byId.get(id)!.slug))
+    }
+  }
+
+  const negated = expression.op === 'ne' || expression.op === 'nin'
+  return { field: 'category', op: negated ? 'nin' : 'in', value: Array.from(expanded) }
+}
\ No newline at end of file
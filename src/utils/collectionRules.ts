@@ -0,0 +1,92 @@
+import { CollectionRule, CollectionRules, ProductFilterExpression } from '../types'
+import { validateProductFilter } from './productFilter'
+
+const MAX_RULE_CONDITIONS = 50
+const MAX_WITHIN_DAYS = 3650
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Check that stored rules have the expected shape before using them
+export function isCollectionRules(value: unknown): value is CollectionRules {
+  return Boolean(
+    value &&
+    typeof value === 'object' &&
+    ((value as CollectionRules).match === 'all' || (value as CollectionRules).match === 'any') &&
+    Array.isArray((value as CollectionRules).conditions) &&
+    (value as CollectionRules).conditions.length > 0
+  )
+}
+
+// Translate one rule into a filter condition. Relative dates are resolved
+// against `now`, so time-based rules have to be re-evaluated periodically.
+function ruleToFilter(rule: CollectionRule, now: Date): ProductFilterExpression {
+  if (rule.op === 'withinDays') {
+    return {
+      field: rule.field,
+      op: 'gte',
+      value: new Date(now.getTime() - Number(rule.value) * DAY_MS).toISOString()
+    }
+  }
+  return { field: rule.field, op: rule.op, value: rule.value }
+}
+
+// Convert collection rules into a product filter expression
+export function collectionRulesToFilter(rules: CollectionRules, now: Date = new Date()): ProductFilterExpression {
+  const conditions = rules.conditions.map(rule => ruleToFilter(rule, now))
+  return rules.match === 'all' ? { and: conditions } : { or: conditions }
+}
+
+// Validate smart collection rules
+export function validateCollectionRules(rules: unknown): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return { valid: false, errors: ['Rules must be an object with match and conditions'] }
+  }
+
+  const { match, conditions } = rules as CollectionRules
+
+  if (match !== 'all' && match !== 'any') {
+    errors.push('match must be "all" or "any"')
+  }
+
+  if (!Array.isArray(conditions) || conditions.length === 0) {
+    errors.push('conditions must be a non-empty array')
+    return { valid: false, errors }
+  }
+
+  if (conditions.length > MAX_RULE_CONDITIONS) {
+    errors.push(`Collections support at most ${MAX_RULE_CONDITIONS} rule conditions`)
+  }
+
+  conditions.forEach((rule, index) => {
+    const label = `conditions[${index}]`
+
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label}: expected a condition`)
+      return
+    }
+
+    // Membership of other collections would make rules depend on each other
+    if (rule.field === 'collection') {
+      errors.push(`${label}: rules cannot reference other collections`)
+      return
+    }
+
+    if (rule.op === 'withinDays') {
+      if (rule.field !== 'createdAt') {
+        errors.push(`${label}: withinDays only applies to createdAt`)
+      } else if (!Number.isInteger(rule.value) || (rule.value as number) < 1 || (rule.value as number) > MAX_WITHIN_DAYS) {
+        errors.push(`${label}: withinDays expects a whole number of days between 1 and ${MAX_WITHIN_DAYS}`)
+      }
+      return
+    }
+
+    const validation = validateProductFilter({ field: rule.field, op: rule.op, value: rule.value })
+    errors.push(...validation.errors.map(error => error.replace(/^filter/, label)))
+  })
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
\ No newline at end of file
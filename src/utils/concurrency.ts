@@ -0,0 +1,19 @@
+// Strong entity tag for a stored product version
+export function buildProductETag(product: { id: string; version: number }): string {
+  return `"${product.id}-v${product.version}"`
+}
+
+// Check an If-Match header against the current entity tag. `*` matches any
+// existing resource; weak tags never match, as If-Match uses strong comparison.
+export function ifMatchSatisfied(header: string | string[] | undefined, etag: string): boolean {
+  if (header === undefined) {
+    return true
+  }
+
+  const tags = (Array.isArray(header) ? header.join(',') : header)
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean)
+
+  return tags.some(tag => tag === '*' || tag === etag)
+}
\ No newline at end of file
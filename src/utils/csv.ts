@@ -0,0 +1,91 @@
+// Parse CSV text (RFC 4180) into records keyed by the header row
+export function parseCSV(text: string): Array<Record<string, string>> {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left behind by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header, ...dataRows] = rows
+  if (!header) {
+    return []
+  }
+
+  const columns = header.map(column => column.trim())
+
+  return dataRows
+    .filter(values => values.some(value => value.trim().length > 0))
+    .map(values => {
+      const record: Record<string, string> = {}
+      columns.forEach((column, index) => {
+        record[column] = values[index] ?? ''
+      })
+      return record
+    })
+}
+
+// Escape a single CSV field, quoting only when needed
+export function escapeCSVField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value)
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+// Serialize records to CSV using the given column order
+export function toCSV(records: Array<Record<string, unknown>>, columns: string[]): string {
+  const lines = [columns.map(escapeCSVField).join(',')]
+
+  for (const record of records) {
+    lines.push(columns.map(column => escapeCSVField(record[column])).join(','))
+  }
+
+  return lines.join('\r\n')
+}
\ No newline at end of file
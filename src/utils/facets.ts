@@ -0,0 +1,119 @@
+import { FacetCount, PriceFacetBucket, ProductFacetName, ProductFilterExpression } from '../types'
+
+export const PRODUCT_FACETS: ProductFacetName[] = ['category', 'tag', 'collection', 'price', 'options']
+
+// Price ranges used for the price facet; the last bucket is open-ended
+export const PRICE_FACET_BUCKETS: Array<{ min: number; max?: number }> = [
+  { min: 0, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 200 },
+  { min: 200 }
+]
+
+// Whether a filter field belongs to a facet; variant options are filtered
+// as `attribute.<option name>`
+function isFacetField(facet: ProductFacetName, field: string): boolean {
+  return facet === 'options' ? field.startsWith('attribute.') : field === facet
+}
+
+// Drop a facet's own top-level conditions so it is counted as if nothing
+// were chosen in it: picking a category still lists the sibling categories,
+// narrowed only by the other filters
+export function withoutFacetConditions(
+  conditions: ProductFilterExpression[],
+  facet: ProductFacetName
+): ProductFilterExpression[] {
+  return conditions.filter(condition => !('field' in condition && isFacetField(facet, condition.field)))
+}
+
+// Parse the `facets` query param ("category,tag" or "all") against the allow-list
+export function parseFacetsParam(value?: string | string[]): ProductFacetName[] {
+  if (!value) {
+    return []
+  }
+
+  const requested = (Array.isArray(value) ? value.join(',') : value)
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+
+  if (requested.includes('all') || requested.includes('true')) {
+    return [...PRODUCT_FACETS]
+  }
+
+  return PRODUCT_FACETS.filter(name => requested.includes(name))
+}
+
+// Label a price bucket, e.g. "$25 - $50" or "$200+"
+export function formatPriceBucketLabel(
+  bucket: { min: number; max?: number },
+  formatAmount: (amount: number) => string
+): string {
+  return bucket.max === undefined
+    ? `${formatAmount(bucket.min)}+`
+    : `${formatAmount(bucket.min)} - ${formatAmount(bucket.max)}`
+}
+
+// Build price facet entries from per-bucket product counts
+export function buildPriceFacet(
+  counts: number[],
+  formatAmount: (amount: number) => string,
+  buckets: Array<{ min: number; max?: number }> = PRICE_FACET_BUCKETS
+): PriceFacetBucket[] {
+  return buckets.map((bucket, index) => ({
+    ...bucket,
+    label: formatPriceBucketLabel(bucket, formatAmount),
+    count: counts[index] ?? 0
+  }))
+}
+
+// Count distinct products per variant option value. A product with several
+// variants sharing "Color: Red" is counted once for Red.
+export function aggregateOptionFacets(variants: Array<{
+  productId: string
+  option1Name?: string | null
+  option1Value?: string | null
+  option2Name?: string | null
+  option2Value?: string | null
+  option3Name?: string | null
+  option3Value?: string | null
+}>): Record<string, FacetCount[]> {
+  const products = new Map<string, Map<string, Set<string>>>()
+
+  const add = (name?: string | null, value?: string | null, productId?: string) => {
+    if (!name || !value || !productId) return
+    if (!products.has(name)) {
+      products.set(name, new Map())
+    }
+    const values = products.get(name)!
+    if (!values.has(value)) {
+      values.set(value, new Set())
+    }
+    values.get(value)!.add(productId)
+  }
+
+  for (const variant of variants) {
+    add(variant.option1Name, variant.option1Value, variant.productId)
+    add(variant.option2Name, variant.option2Value, variant.productId)
+    add(variant.option3Name, variant.option3Value, variant.productId)
+  }
+
+  const facets: Record<string, FacetCount[]> = {}
+  products.forEach((values, name) => {
+    facets[name] = sortFacetCounts(
+      Array.from(values.entries()).map(([value, productIds]) => ({
+        value,
+        label: value,
+        count: productIds.size
+      }))
+    )
+  })
+
+  return facets
+}
+
+// Sort facet counts by count, then label
+export function sortFacetCounts(counts: FacetCount[]): FacetCount[] {
+  return [...counts].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+}
\ No newline at end of file
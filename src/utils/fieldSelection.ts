@@ -0,0 +1,108 @@
+// Product columns clients may pick with `fields=`. Internal columns such as
+// the cost price and archive state are left out.
+export const PRODUCT_SELECTABLE_FIELDS = [
+  'id',
+  'name',
+  'slug',
+  'description',
+  'shortDescription',
+  'price',
+  'comparePrice',
+  'sku',
+  'barcode',
+  'trackQuantity',
+  'quantity',
+  'lowStockLevel',
+  'backorderPolicy',
+  'expectedShipDate',
+  'maxBackorderQuantity',
+  'status',
+  'featured',
+  'publishAt',
+  'unpublishAt',
+  'metaTitle',
+  'metaDescription',
+  'metaKeywords',
+  'weight',
+  'length',
+  'width',
+  'height',
+  'requiresShipping',
+  'hasVariants',
+  'type',
+  'bundlePricing',
+  'bundleDiscount',
+  'categoryId',
+  'version',
+  'createdAt',
+  'updatedAt'
+]
+
+// Relations a product listing may load with `include=`
+export const PRODUCT_LIST_INCLUDES = ['category', 'collections', 'tags', 'images', 'variants', 'reviewCount']
+
+// Relations the product detail endpoint may load with `include=`
+export const PRODUCT_DETAIL_INCLUDES = [
+  'category',
+  'collections',
+  'tags',
+  'images',
+  'variants',
+  'bundleItems',
+  'reviews',
+  'breadcrumbs'
+]
+
+// Parse a comma-separated `fields` or `include` param against an allow-list.
+// `values` is undefined when the param was not sent.
+export function parseSelectionParam(
+  value: string | string[] | undefined,
+  allowed: string[],
+  param: string
+): { values?: string[]; errors: string[] } {
+  if (value === undefined) {
+    return { errors: [] }
+  }
+
+  const requested = (Array.isArray(value) ? value.join(',') : value)
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+
+  const unknown = requested.filter(name => !allowed.includes(name))
+  if (unknown.length > 0) {
+    return {
+      errors: [`Unknown ${param}: ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`]
+    }
+  }
+
+  return { values: Array.from(new Set(requested)), errors: [] }
+}
+
+// Build the Prisma query shape for a product read. `relations` maps include
+// names to their Prisma fragments; names without a fragment are skipped.
+// Without `fields` the relations are loaded with `include`; with `fields`
+// everything goes into one `select`, which always has `id` and any
+// `required` columns (such as the sort field cursors are built from).
+export function buildProductQueryShape(
+  fields: string[] | undefined,
+  include: string[],
+  relations: Record<string, Record<string, unknown>>,
+  required: string[] = []
+): { include: Record<string, unknown> } | { select: Record<string, unknown> } {
+  const relationArgs: Record<string, unknown> = {}
+  for (const name of include) {
+    Object.assign(relationArgs, relations[name])
+  }
+
+  if (!fields) {
+    return { include: relationArgs }
+  }
+
+  const select: Record<string, unknown> = { id: true }
+  for (const field of [...fields, ...required]) {
+    select[field] = true
+  }
+
+  return { select: { ...select, ...relationArgs } }
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+// Who a catalog response is for. Anonymous responses may be stored by shared
+// caches; anything behind a session must not be.
+export type CacheAudience = 'public' | 'private'
+
+export interface CacheValidators {
+  etag: string
+  lastModified?: Date
+}
+
+// Cache lifetimes for anonymous catalog reads, in seconds
+export const PUBLIC_CATALOG_CACHE = {
+  maxAge: 60,
+  sharedMaxAge: 300,
+  staleWhileRevalidate: 600
+}
+
+// Two 32-bit FNV-1a passes with different offsets, hex encoded. Entity tags
+// only need to change with their input, and this keeps the helper usable
+// outside Node.
+function hashKey(input: string): string {
+  let first = 0x811c9dc5
+  let second = 0x01000193
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i)
+    first = Math.imul(first ^ code, 0x01000193)
+    second = Math.imul(second ^ code, 0x01000193)
+  }
+  return (first >>> 0).toString(16).padStart(8, '0') + (second >>> 0).toString(16).padStart(8, '0')
+}
+
+// Weak entity tag over everything a response depends on: update times, row
+// counts, the query and the audience
+export function buildWeakETag(parts: Array<string | number | boolean | Date | null | undefined>): string {
+  const key = parts
+    .map(part => part instanceof Date ? part.toISOString() : String(part ?? ''))
+    .join('|')
+  return `W/"${hashKey(key)}"`
+}
+
+// The latest of several update times; null when none are known
+export function latestDate(dates: Array<Date | string | null | undefined>): Date | null {
+  let latest: Date | null = null
+  for (const value of dates) {
+    if (!value) {
+      continue
+    }
+    const date = new Date(value)
+    if (!isNaN(date.getTime()) && (!latest || date > latest)) {
+      latest = date
+    }
+  }
+  return latest
+}
+
+// Evaluate If-None-Match / If-Modified-Since. If-None-Match wins when both are
+// sent, and compares tags weakly as RFC 9110 requires for GET.
+export function isNotModified(
+  headers: { 'if-none-match'?: string; 'if-modified-since'?: string },
+  validators: CacheValidators
+): boolean {
+  const ifNoneMatch = headers['if-none-match']
+  if (ifNoneMatch) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '')
+    const current = opaque(validators.etag)
+    return ifNoneMatch.split(',').some(tag => tag.trim() === '*' || opaque(tag) === current)
+  }
+
+  const ifModifiedSince = headers['if-modified-since']
+  if (ifModifiedSince && validators.lastModified) {
+    const since = Date.parse(ifModifiedSince)
+    // HTTP dates have one-second precision
+    const modified = Math.floor(validators.lastModified.getTime() / 1000) * 1000
+    return !isNaN(since) && modified <= since
+  }
+
+  return false
+}
+
+// Cache-Control for catalog reads. Anonymous responses can be cached by a CDN
+// and served stale while it revalidates; signed-in responses (which may
+// include drafts for admins) stay in the browser and are revalidated on use.
+export function buildCatalogCacheControl(audience: CacheAudience): string {
+  if (audience === 'private') {
+    return 'private, no-cache'
+  }
+
+  const { maxAge, sharedMaxAge, staleWhileRevalidate } = PUBLIC_CATALOG_CACHE
+  return `public, max-age=${maxAge}, s-maxage=${sharedMaxAge}, stale-while-revalidate=${staleWhileRevalidate}`
+}
\ No newline at end of file
@@ -1,6 +1,32 @@
 import slugify from 'slugify'
 import currency from 'currency.js'
-import { ProductCreateInput, ProductUpdateInput } from '../types'
+import {
+  ProductCreateInput,
+  ProductUpdateInput,
+  ProductVariantInput,
+  VariantOptionsInput,
+  CategoryCreateInput,
+  CategoryUpdateInput,
+  CollectionCreateInput,
+  CollectionUpdateInput,
+  BundlePricing,
+  DigitalAssetInput,
+  InventoryAdjustmentInput,
+  InventoryMovementReason,
+  OrderCreateInput,
+  CartItemInput,
+  InventoryStatus,
+  OrderItemStockStatus
+} from '../types'
+import { validatePublishWindow } from './publishWindow'
+import { validateBundleData } from './bundles'
+import {
+  BackorderSettings,
+  evaluateStockRequest,
+  resolveBackorderPolicy,
+  validateBackorderSettings
+} from './backorders'
+import { sumSellableStock } from './inventoryLocations'
 
 // Slug generation
 export function generateSlug(text: string): string {
@@ -71,7 +97,8 @@ export function validateProductData(data: ProductCreateInput | ProductUpdateInpu
     errors.push('Product description is required')
   }
 
-  if (data.price === undefined || data.price === null) {
+  // Component-sum bundles derive their price from the components
+  if ((data.price === undefined || data.price === null) && data.bundlePricing !== BundlePricing.COMPONENT_SUM) {
     errors.push('Product price is required')
   }
 
@@ -80,6 +107,10 @@ export function validateProductData(data: ProductCreateInput | ProductUpdateInpu
     errors.push('Product name must be less than 255 characters')
   }
 
+  if (data.slug && !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(data.slug)) {
+    errors.push('Product slug may only contain lowercase letters, numbers and hyphens')
+  }
+
   // Validate price
   if (data.price !== undefined && data.price < 0) {
     errors.push('Product price must be positive')
@@ -123,39 +154,247 @@ export function validateProductData(data: ProductCreateInput | ProductUpdateInpu
   }
 
   // Validate product variants data
-  if ((data as any).variants && Array.isArray((data as any).variants)) {
-    const variants = (data as any).variants
-    variants.forEach((variant: any, index: number) => {
-      if (variant.price !== undefined && variant.price < 0) {
-        errors.push(`Variant ${index + 1} price must be positive`)
-      }
-      if (variant.comparePrice !== undefined && variant.comparePrice < 0) {
-        errors.push(`Variant ${index + 1} compare price must be positive`)
-      }
-      if (variant.quantity !== undefined && variant.quantity < 0) {
-        errors.push(`Variant ${index + 1} quantity must be non-negative`)
-      }
-      if (variant.sku && variant.sku.length > 100) {
-        errors.push(`Variant ${index + 1} SKU must be less than 100 characters`)
-      }
-      if (variant.option1Value && variant.option1Value.length > 255) {
-        errors.push(`Variant ${index + 1} option1Value must be less than 255 characters`)
-      }
-      if (variant.option2Value && variant.option2Value.length > 255) {
-        errors.push(`Variant ${index + 1} option2Value must be less than 255 characters`)
-      }
-      if (variant.option3Value && variant.option3Value.length > 255) {
-        errors.push(`Variant ${index + 1} option3Value must be less than 255 characters`)
-      }
+  if (data.variants && Array.isArray(data.variants)) {
+    data.variants.forEach((variant, index) => {
+      errors.push(...validateVariantData(variant, `Variant ${index + 1}`).errors)
     })
   }
 
+  // Validate variant option matrix
+  if (data.variantOptions) {
+    errors.push(...validateVariantOptions(data.variantOptions).errors)
+  }
+
+  // Validate scheduled publish window
+  errors.push(...validatePublishWindow(data))
+
+  // Validate bundle fields
+  errors.push(...validateBundleData(data).errors)
+
+  // Validate backorder and pre-order fields
+  errors.push(...validateBackorderSettings(data))
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Validate a single product variant
+export function validateVariantData(
+  variant: ProductVariantInput,
+  label: string = 'Variant'
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (variant.name && variant.name.length > 255) {
+    errors.push(`${label} name must be less than 255 characters`)
+  }
+  if (variant.price !== undefined && variant.price < 0) {
+    errors.push(`${label} price must be positive`)
+  }
+  if (variant.comparePrice !== undefined && variant.comparePrice < 0) {
+    errors.push(`${label} compare price must be positive`)
+  }
+  if (variant.costPrice !== undefined && variant.costPrice < 0) {
+    errors.push(`${label} cost price must be positive`)
+  }
+  if (variant.quantity !== undefined && variant.quantity < 0) {
+    errors.push(`${label} quantity must be non-negative`)
+  }
+  if (variant.sku && variant.sku.length > 100) {
+    errors.push(`${label} SKU must be less than 100 characters`)
+  }
+  if (variant.option1Value && variant.option1Value.length > 255) {
+    errors.push(`${label} option1Value must be less than 255 characters`)
+  }
+  if (variant.option2Value && variant.option2Value.length > 255) {
+    errors.push(`${label} option2Value must be less than 255 characters`)
+  }
+  if (variant.option3Value && variant.option3Value.length > 255) {
+    errors.push(`${label} option3Value must be less than 255 characters`)
+  }
+  errors.push(...validateBackorderSettings(variant, label))
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Validate a variant option matrix (at most three options, each with values)
+export function validateVariantOptions(options: VariantOptionsInput): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+  const optionNames = Object.keys(options)
+
+  if (optionNames.length > 3) {
+    errors.push('Products support at most 3 variant options')
+  }
+
+  for (const optionName of optionNames) {
+    const values = options[optionName]
+    if (!optionName.trim()) {
+      errors.push('Variant option name is required')
+    }
+    if (!Array.isArray(values) || values.length === 0) {
+      errors.push(`Variant option ${optionName} must have at least one value`)
+    } else if (new Set(values).size !== values.length) {
+      errors.push(`Variant option ${optionName} has duplicate values`)
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Validate category data
+export function validateCategoryData(data: CategoryCreateInput | CategoryUpdateInput): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!data.name || data.name.trim().length === 0) {
+    errors.push('Category name is required')
+  }
+
+  if (data.name && data.name.length > 255) {
+    errors.push('Category name must be less than 255 characters')
+  }
+
+  if (data.slug !== undefined && !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(data.slug)) {
+    errors.push('Category slug may only contain lowercase letters, numbers and hyphens')
+  }
+
+  if (data.sortOrder !== undefined && !Number.isInteger(data.sortOrder)) {
+    errors.push('Sort order must be a whole number')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Validate collection data
+export function validateCollectionData(data: CollectionCreateInput | CollectionUpdateInput): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!data.name || data.name.trim().length === 0) {
+    errors.push('Collection name is required')
+  }
+
+  if (data.name && data.name.length > 255) {
+    errors.push('Collection name must be less than 255 characters')
+  }
+
+  if (data.slug !== undefined && !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(data.slug)) {
+    errors.push('Collection slug may only contain lowercase letters, numbers and hyphens')
+  }
+
+  if (data.sortOrder !== undefined && !Number.isInteger(data.sortOrder)) {
+    errors.push('Sort order must be a whole number')
+  }
+
+  errors.push(...validatePublishWindow(data))
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Validate a digital asset attached to a product
+export function validateDigitalAssetData(data: DigitalAssetInput): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!data.name || data.name.trim().length === 0) {
+    errors.push('Asset name is required')
+  }
+
+  if (!data.fileName || data.fileName.trim().length === 0) {
+    errors.push('File name is required')
+  } else if (/[\\/"]/.test(data.fileName)) {
+    errors.push('File name cannot contain slashes or quotes')
+  }
+
+  // Local files must stay inside the asset directory
+  if (!data.storageKey || data.storageKey.trim().length === 0) {
+    errors.push('Storage key is required')
+  } else if (!/^https?:\/\//.test(data.storageKey) &&
+    (data.storageKey.startsWith('/') || data.storageKey.split(/[\\/]/).includes('..'))) {
+    errors.push('Storage key must be a relative path inside the asset directory or an http(s) URL')
+  }
+
+  if (data.fileSize !== undefined && (!Number.isInteger(data.fileSize) || data.fileSize < 0)) {
+    errors.push('File size must be a non-negative whole number')
+  }
+
   return {
     valid: errors.length === 0,
     errors
   }
 }
 
+// Content-Disposition header for a file download. `filename` is an ASCII
+// fallback with quotes, backslashes and control characters replaced, and
+// `filename*` carries the real name as percent-encoded UTF-8 (RFC 6266).
+export function buildAttachmentDisposition(fileName: string): string {
+  const fallback = fileName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]|["\\]/g, '_')
+    .trim() || 'download'
+  const encoded = encodeURIComponent(fileName)
+    .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+// Reasons an admin can give for a stock change; sales come from orders
+export const ADJUSTABLE_MOVEMENT_REASONS: InventoryMovementReason[] = [
+  InventoryMovementReason.RETURN,
+  InventoryMovementReason.RESTOCK,
+  InventoryMovementReason.DAMAGE,
+  InventoryMovementReason.COUNT_CORRECTION,
+  InventoryMovementReason.MANUAL
+]
+
+// Validate a manual inventory adjustment
+export function validateInventoryAdjustment(data: InventoryAdjustmentInput): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!data.productId) {
+    errors.push('Product is required')
+  }
+
+  if (!Number.isInteger(data.quantity) || data.quantity === 0) {
+    errors.push('Quantity must be a non-zero whole number (negative to remove stock)')
+  }
+
+  if (!ADJUSTABLE_MOVEMENT_REASONS.includes(data.reason)) {
+    errors.push(`Reason must be one of: ${ADJUSTABLE_MOVEMENT_REASONS.join(', ')}`)
+  }
+
+  if (data.note && data.note.length > 500) {
+    errors.push('Note must be less than 500 characters')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Build a display name from a variant's option values, e.g. "Red / Large"
+export function getVariantName(variant: {
+  option1Value?: string
+  option2Value?: string
+  option3Value?: string
+}): string {
+  return [variant.option1Value, variant.option2Value, variant.option3Value]
+    .filter(Boolean)
+    .join(' / ')
+}
+
 // Generate SKU
 export function generateSKU(productName: string, variant?: string): string {
   const nameCode = productName
@@ -172,21 +411,42 @@ export function generateSKU(productName: string, variant?: string): string {
   return `${nameCode}${variantCode}${timestamp}`
 }
 
-// Calculate inventory status
-export function getInventoryStatus(product: {
+// Calculate inventory status. Stock kept per location counts the sellable
+// locations; `quantity` already holds that sum when levels aren't loaded.
+// Stock reserved by unpaid checkouts isn't available. Items that can still
+// be ordered under their backorder policy are 'backorder' or 'preorder'
+// rather than out of stock; those without a policy follow `allowBackorders`.
+export function getInventoryStatus(product: BackorderSettings & {
   trackQuantity: boolean
   quantity: number
   lowStockLevel: number
-}): 'in_stock' | 'low_stock' | 'out_of_stock' {
+  inventoryLevels?: Array<{ quantity: number; location?: { active: boolean; sellable: boolean } | null }>
+  reservedQuantity?: number
+}, allowBackorders: boolean = false, now: Date = new Date()): InventoryStatus {
   if (!product.trackQuantity) {
     return 'in_stock'
   }
   
-  if (product.quantity <= 0) {
+  const onHand = product.inventoryLevels && product.inventoryLevels.length > 0
+    ? sumSellableStock(product.inventoryLevels)
+    : product.quantity
+  const quantity = onHand - (product.reservedQuantity ?? 0)
+  
+  // Whether one more unit can be sold, and whether it would wait
+  const request = evaluateStockRequest(1, quantity, resolveBackorderPolicy(product, null, allowBackorders), now)
+  if (!request.allowed) {
     return 'out_of_stock'
   }
   
-  if (product.quantity <= product.lowStockLevel) {
+  if (request.stockStatus === OrderItemStockStatus.PREORDER) {
+    return 'preorder'
+  }
+  
+  if (request.stockStatus === OrderItemStockStatus.BACKORDERED) {
+    return 'backorder'
+  }
+  
+  if (quantity <= product.lowStockLevel) {
     return 'low_stock'
   }
   
@@ -245,10 +505,90 @@ export function validateZipCode(zipCode: string, country: string = 'US'): boolea
   return regex ? regex.test(zipCode) : true // Default to valid for unknown countries
 }
 
+// Most units of one item a cart line can hold
+export const MAX_CART_LINE_QUANTITY = 99
+
+// Validate an item added to the cart, or a new quantity for one
+export function validateCartItemInput(data: Partial<CartItemInput>, requireProduct: boolean = true): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (requireProduct && (!data.productId || typeof data.productId !== 'string')) {
+    errors.push('Product is required')
+  }
+
+  if (data.variantId !== undefined && data.variantId !== null && typeof data.variantId !== 'string') {
+    errors.push('Variant must be an ID')
+  }
+
+  if (!Number.isInteger(data.quantity) || (data.quantity as number) < 1 || (data.quantity as number) > MAX_CART_LINE_QUANTITY) {
+    errors.push(`Quantity must be a whole number from 1 to ${MAX_CART_LINE_QUANTITY}`)
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Validate checkout details for a new order
+export function validateOrderData(data: OrderCreateInput): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!data.email || !validateEmail(data.email)) {
+    errors.push('A valid email address is required')
+  }
+
+  if (data.phone && !validatePhone(data.phone)) {
+    errors.push('Phone number is invalid')
+  }
+
+  for (const [label, address] of [['Shipping', data.shippingAddress], ['Billing', data.billingAddress]] as const) {
+    if (!address) {
+      errors.push(`${label} address is required`)
+      continue
+    }
+    for (const field of ['firstName', 'lastName', 'address1', 'city', 'country', 'zipCode'] as const) {
+      if (!address[field] || !address[field].trim()) {
+        errors.push(`${label} address ${field} is required`)
+      }
+    }
+    if (address.zipCode && address.country && !validateZipCode(address.zipCode, address.country)) {
+      errors.push(`${label} address ZIP code is invalid`)
+    }
+  }
+
+  if (!data.paymentMethod) {
+    errors.push('Payment method is required')
+  }
+
+  if (data.notes && data.notes.length > 1000) {
+    errors.push('Notes must be less than 1000 characters')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Generate a customer-facing order number, e.g. "ORD-LX2K9QZ-4821"
+export function generateOrderNumber(): string {
+  const timestamp = Date.now().toString(36).toUpperCase()
+  const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
+  return `ORD-${timestamp}-${random}`
+}
+
+// Check whether any item has to be shipped. Digital goods set
+// requiresShipping to false; items that don't say are assumed physical.
+export function orderRequiresShipping(items: Array<{ requiresShipping?: boolean }>): boolean {
+  return items.some(item => item.requiresShipping !== false)
+}
+
 // Calculate order totals
 export function calculateOrderTotals(items: Array<{
   price: number
   quantity: number
+  requiresShipping?: boolean
 }>, taxRate: number = 0, shippingRate: number = 0, discountAmount: number = 0): {
   subtotal: number
   tax: number
@@ -258,7 +598,8 @@ export function calculateOrderTotals(items: Array<{
 } {
   const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
   const tax = calculateTax(subtotal, taxRate)
-  const shipping = calculateShipping(subtotal, shippingRate)
+  // Orders made up only of digital goods skip shipping entirely
+  const shipping = orderRequiresShipping(items) ? calculateShipping(subtotal, shippingRate) : 0
   const discount = Math.min(discountAmount, subtotal) // Discount can't exceed subtotal
   const total = subtotal + tax + shipping - discount
   
@@ -470,6 +811,62 @@ export function validateCreditCard(cardNumber: string): boolean {
   return sum % 10 === 0
 }
 
+// CSV and bulk product import/export helpers
+export * from './csv'
+export * from './productImport'
+
+// Facet aggregation helpers
+export * from './facets'
+
+// Full-text search query helpers
+export * from './search'
+
+// Product filter expressions
+export * from './productFilter'
+
+// Cursor and offset pagination helpers
+export * from './pagination'
+
+// Product revision snapshots and diffs
+export * from './revisions'
+
+// Scheduled publish windows
+export * from './publishWindow'
+
+// Smart collection rules
+export * from './collectionRules'
+
+// Category hierarchy helpers
+export * from './categoryTree'
+
+// Bundle pricing and stock
+export * from './bundles'
+
+// Co-purchase and similarity recommendations
+export * from './recommendations'
+
+// Optimistic concurrency (product versions and ETags)
+export * from './concurrency'
+
+// HTTP caching validators and Cache-Control
+export * from './httpCache'
+
+// Sparse fieldsets and selectable includes
+export * from './fieldSelection'
+
+// Google Merchant and Meta catalog feeds
+export * from './productFeeds'
+
+// Storefront sitemaps and schema.org structured data
+export * from './sitemap'
+export * from './structuredData'
+
+// Stock locations and fulfillment rules
+export * from './inventoryLocations'
+
+// Backorder and pre-order policies
+export * from './backorders'
+
 // Export utilities
 export {
   currency,
@@ -0,0 +1,172 @@
+import {
+  FulfillmentAllocation,
+  InventoryLocation,
+  InventoryLocationInput,
+  InventoryLocationType
+} from '../types'
+
+// Location fields the fulfillment rules look at
+export type FulfillmentLocation = Pick<
+  InventoryLocation,
+  'id' | 'name' | 'active' | 'sellable' | 'fulfillmentPriority' | 'shipsTo'
+>
+
+// Stock of a product or variant at one location
+export interface LocationStock {
+  productId: string
+  variantId?: string | null
+  locationId: string
+  quantity: number
+}
+
+// A quantity of a product (or variant) to pick
+export interface FulfillmentLine {
+  productId: string
+  variantId?: string | null
+  quantity: number
+}
+
+export interface FulfillmentPlan {
+  allocations: FulfillmentAllocation[]
+  // Quantities no location had stock for
+  unallocated: FulfillmentLine[]
+}
+
+export function getStockKey(item: { productId: string; variantId?: string | null }): string {
+  return `${item.productId}:${item.variantId || ''}`
+}
+
+// Inactive locations, and ones kept out of sale (e.g. a returns bay), don't
+// count toward availability. Levels loaded without their location count.
+export function isSellableLocation(location?: { active: boolean; sellable: boolean } | null): boolean {
+  return !location || (location.active && location.sellable)
+}
+
+// Stock available to sell across locations
+export function sumSellableStock(levels: Array<{
+  quantity: number
+  location?: { active: boolean; sellable: boolean } | null
+}>): number {
+  return levels
+    .filter(level => isSellableLocation(level.location))
+    .reduce((total, level) => total + level.quantity, 0)
+}
+
+// Locations without a shipsTo list ship everywhere
+export function locationServesCountry(location: FulfillmentLocation, countryCode?: string | null): boolean {
+  if (!countryCode || !location.shipsTo || location.shipsTo.length === 0) {
+    return true
+  }
+  return location.shipsTo.some(code => code.toUpperCase() === countryCode.toUpperCase())
+}
+
+// Locations an order to `countryCode` can be picked from, best first
+export function rankFulfillmentLocations<T extends FulfillmentLocation>(locations: T[], countryCode?: string | null): T[] {
+  return locations
+    .filter(location => location.active && location.sellable && locationServesCountry(location, countryCode))
+    .sort((a, b) => a.fulfillmentPriority - b.fulfillmentPriority || a.name.localeCompare(b.name))
+}
+
+// Pick locations for an order. The highest-priority location that can
+// fill every line ships the whole order; otherwise each line is taken from
+// locations in priority order, splitting it where one runs out.
+export function planFulfillment(
+  lines: FulfillmentLine[],
+  stock: LocationStock[],
+  locations: FulfillmentLocation[],
+  countryCode?: string | null
+): FulfillmentPlan {
+  const ranked = rankFulfillmentLocations(locations, countryCode)
+  const available = new Map<string, number>()
+  for (const level of stock) {
+    available.set(`${level.locationId}|${getStockKey(level)}`, level.quantity)
+  }
+  const availableAt = (locationId: string, line: FulfillmentLine) =>
+    Math.max(0, available.get(`${locationId}|${getStockKey(line)}`) ?? 0)
+
+  // Lines for the same item are checked against the same stock
+  const needed = new Map<string, number>()
+  for (const line of lines) {
+    needed.set(getStockKey(line), (needed.get(getStockKey(line)) ?? 0) + line.quantity)
+  }
+
+  const single = ranked.find(location => lines.every(line =>
+    availableAt(location.id, line) >= (needed.get(getStockKey(line)) ?? 0)
+  ))
+
+  if (single) {
+    return {
+      allocations: lines.map(line => ({
+        productId: line.productId,
+        variantId: line.variantId,
+        locationId: single.id,
+        quantity: line.quantity
+      })),
+      unallocated: []
+    }
+  }
+
+  const allocations: FulfillmentAllocation[] = []
+  const unallocated: FulfillmentLine[] = []
+
+  for (const line of lines) {
+    let remaining = line.quantity
+    for (const location of ranked) {
+      if (remaining === 0) {
+        break
+      }
+      const quantity = Math.min(remaining, availableAt(location.id, line))
+      if (quantity > 0) {
+        allocations.push({ productId: line.productId, variantId: line.variantId, locationId: location.id, quantity })
+        available.set(`${location.id}|${getStockKey(line)}`, availableAt(location.id, line) - quantity)
+        remaining -= quantity
+      }
+    }
+    if (remaining > 0) {
+      unallocated.push({ ...line, quantity: remaining })
+    }
+  }
+
+  return { allocations, unallocated }
+}
+
+// Validate inventory location data; `partial` skips required fields for updates
+export function validateInventoryLocationData(
+  data: Partial<InventoryLocationInput>,
+  partial: boolean = false
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!partial || data.name !== undefined) {
+    if (!data.name || data.name.trim().length === 0) {
+      errors.push('Location name is required')
+    } else if (data.name.length > 100) {
+      errors.push('Location name must be less than 100 characters')
+    }
+  }
+
+  if (!partial || data.code !== undefined) {
+    if (!data.code || !/^[A-Za-z0-9_-]{1,20}$/.test(data.code)) {
+      errors.push('Location code must be 1-20 letters, digits, "-" or "_"')
+    }
+  }
+
+  if (data.type !== undefined && !Object.values(InventoryLocationType).includes(data.type)) {
+    errors.push(`Location type must be one of: ${Object.values(InventoryLocationType).join(', ')}`)
+  }
+
+  if (data.fulfillmentPriority !== undefined && !Number.isInteger(data.fulfillmentPriority)) {
+    errors.push('Fulfillment priority must be an integer')
+  }
+
+  if (data.shipsTo !== undefined && data.shipsTo !== null) {
+    if (!Array.isArray(data.shipsTo) || data.shipsTo.some(code => typeof code !== 'string' || !/^[A-Za-z]{2}$/.test(code))) {
+      errors.push('shipsTo must be a list of two-letter country codes, or null to ship everywhere')
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { PaginatedResponse } from '../types'
+
+export interface CursorPayload {
+  field: string
+  value: string | number | boolean | Date
+  id: string
+}
+
+type Pagination = PaginatedResponse['pagination']
+
+// Values of a Boolean or enum sort field in the order the database sorts
+// them. Prisma has no gt/lt on these types, so keyset conditions list the
+// values past the cursor instead.
+export type CursorSortValues = Array<string | boolean>
+
+// Encode a cursor as an opaque, URL-safe token
+export function encodeCursor(payload: CursorPayload): string {
+  const value = payload.value instanceof Date
+    ? { d: payload.value.toISOString() }
+    : payload.value
+  return Buffer.from(JSON.stringify({ f: payload.field, v: value, i: payload.id })).toString('base64url')
+}
+
+// Decode a cursor token; returns null when it is malformed, was issued for
+// a different sort field or holds a value outside `allowedValues`
+export function decodeCursor(
+  token: string,
+  expectedField: string,
+  allowedValues?: CursorSortValues
+): CursorPayload | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+    if (!decoded || decoded.f !== expectedField || typeof decoded.i !== 'string') {
+      return null
+    }
+
+    const value = decoded.v && typeof decoded.v === 'object' && typeof decoded.v.d === 'string'
+      ? new Date(decoded.v.d)
+      : decoded.v
+    if (!['string', 'number', 'boolean'].includes(typeof value) && !(value instanceof Date)) {
+      return null
+    }
+    if (allowedValues && !allowedValues.includes(value)) {
+      return null
+    }
+
+    return { field: decoded.f, value, id: decoded.i }
+  } catch {
+    return null
+  }
+}
+
+// Build the keyset condition and ordering for a cursor page. Rows are ordered
+// by the sort field with the id as tie-breaker; `before` walks the order in
+// reverse and the page is flipped back in buildCursorPage. Boolean and enum
+// fields pass `sortValues` (see CursorSortValues).
+export function buildCursorQuery(
+  field: string,
+  sortOrder: 'asc' | 'desc',
+  cursor: CursorPayload | undefined,
+  direction: 'after' | 'before',
+  sortValues?: CursorSortValues
+): { where?: any; orderBy: any[] } {
+  const queryOrder = direction === 'after'
+    ? sortOrder
+    : sortOrder === 'asc' ? 'desc' : 'asc'
+  const operator = queryOrder === 'asc' ? 'gt' : 'lt'
+  const orderBy = [{ [field]: queryOrder }, { id: queryOrder }]
+
+  if (!cursor) {
+    return { orderBy }
+  }
+
+  const sameValue = { [field]: cursor.value, id: { [operator]: cursor.id } }
+  if (!sortValues) {
+    return {
+      where: { OR: [{ [field]: { [operator]: cursor.value } }, sameValue] },
+      orderBy
+    }
+  }
+
+  const index = sortValues.indexOf(cursor.value as string | boolean)
+  const beyond = queryOrder === 'asc' ? sortValues.slice(index + 1) : sortValues.slice(0, Math.max(index, 0))
+  return {
+    where: beyond.length > 0 ? { OR: [{ [field]: { in: beyond } }, sameValue] } : sameValue,
+    orderBy
+  }
+}
+
+// Turn rows fetched with `take: limit + 1` into a page plus cursors
+export function buildCursorPage<T extends { id: string }>(
+  rows: T[],
+  options: {
+    field: string
+    limit: number
+    direction: 'after' | 'before'
+    hasCursor: boolean
+  }
+): { data: T[]; pagination: Pagination } {
+  const { field, limit, direction, hasCursor } = options
+  const hasMore = rows.length > limit
+  const data = rows.slice(0, limit)
+  if (direction === 'before') {
+    data.reverse()
+  }
+
+  const first = data[0]
+  const last = data[data.length - 1]
+  const toCursor = (row: T) => encodeCursor({ field, value: (row as any)[field], id: row.id })
+
+  // Paging backwards means there is always a next page to return to
+  const hasNext = Boolean(last) && (direction === 'before' ? hasCursor : hasMore)
+  const hasPrev = Boolean(first) && (direction === 'before' ? hasMore : hasCursor)
+
+  return {
+    data,
+    pagination: {
+      limit,
+      hasNext,
+      hasPrev,
+      nextCursor: hasNext ? toCursor(last!) : null,
+      prevCursor: hasPrev ? toCursor(first!) : null
+    }
+  }
+}
+
+// Offset pagination metadata for requests that pass `page`
+export function buildOffsetPagination(page: number, limit: number, total: number): Pagination {
+  const totalPages = Math.ceil(total / limit)
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1
+  }
+}
\ No newline at end of file
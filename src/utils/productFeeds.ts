@@ -0,0 +1,283 @@
+import {
+  InventoryStatus,
+  Product,
+  ProductFeedChannel,
+  ProductFeedIssue,
+  ProductFeedItem,
+  ProductFeedOptions,
+  ProductImage,
+  ProductStatus,
+  ProductVariant
+} from '../types'
+import { formatWeight, getInventoryStatus } from './index'
+import { mergeBackorderSettings } from './backorders'
+
+export const PRODUCT_FEED_CHANNELS: ProductFeedChannel[] = ['google', 'meta']
+
+// Channel limits on description length and extra images
+export const FEED_DESCRIPTION_MAX_LENGTH = 5000
+export const FEED_MAX_ADDITIONAL_IMAGES = 10
+
+// Feed item fields and the attribute names both channels use for them, in
+// column order for the TSV and CSV feeds
+export const FEED_ATTRIBUTES: Array<[keyof ProductFeedItem, string]> = [
+  ['id', 'id'],
+  ['itemGroupId', 'item_group_id'],
+  ['title', 'title'],
+  ['description', 'description'],
+  ['link', 'link'],
+  ['imageLink', 'image_link'],
+  ['additionalImageLinks', 'additional_image_link'],
+  ['availability', 'availability'],
+  ['condition', 'condition'],
+  ['price', 'price'],
+  ['salePrice', 'sale_price'],
+  ['gtin', 'gtin'],
+  ['mpn', 'mpn'],
+  ['brand', 'brand'],
+  ['productType', 'product_type'],
+  ['shippingWeight', 'shipping_weight']
+]
+
+// Fields each channel rejects an item without
+export const FEED_REQUIRED_FIELDS: Record<ProductFeedChannel, Array<keyof ProductFeedItem>> = {
+  google: ['id', 'title', 'description', 'link', 'imageLink', 'availability', 'price', 'brand'],
+  meta: ['id', 'title', 'description', 'availability', 'condition', 'price', 'link', 'imageLink', 'brand']
+}
+
+// Format an amount the way the channels expect, e.g. "19.99 USD"
+export function formatFeedPrice(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency.toUpperCase()}`
+}
+
+// Resolve a storefront path or stored image URL against the shop's base URL
+export function toAbsoluteUrl(baseUrl: string, path: string): string {
+  if (/^https?:\/\//i.test(path)) {
+    return path
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+}
+
+// Product descriptions may hold HTML; feeds take plain text
+export function toPlainText(html: string | undefined): string {
+  if (!html) {
+    return ''
+  }
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, FEED_DESCRIPTION_MAX_LENGTH)
+}
+
+// The channels show the compare-at price as the regular price and the
+// actual price as the sale price
+function toFeedPricing(price: number, comparePrice: number | undefined, currency: string) {
+  if (comparePrice && comparePrice > price) {
+    return {
+      price: formatFeedPrice(comparePrice, currency),
+      salePrice: formatFeedPrice(price, currency)
+    }
+  }
+  return { price: formatFeedPrice(price, currency) }
+}
+
+function toImageLinks(images: ProductImage[], baseUrl: string) {
+  const links = [...images]
+    .sort((a, b) => a.position - b.position)
+    .map(image => toAbsoluteUrl(baseUrl, image.url))
+    .filter((link, index, all) => all.indexOf(link) === index)
+
+  return {
+    imageLink: links[0],
+    additionalImageLinks: links.slice(1, FEED_MAX_ADDITIONAL_IMAGES + 1)
+  }
+}
+
+function toShippingWeight(product: Product, weight: number | undefined, unit: string): string | undefined {
+  if (product.requiresShipping === false || !weight || weight <= 0) {
+    return undefined
+  }
+  return formatWeight(weight, unit)
+}
+
+function toFeedAvailability(status: InventoryStatus): ProductFeedItem['availability'] {
+  switch (status) {
+    case 'out_of_stock':
+      return 'out of stock'
+    case 'backorder':
+      return 'backorder'
+    case 'preorder':
+      return 'preorder'
+    default:
+      return 'in stock'
+  }
+}
+
+function toFeedItem(product: Product, variant: ProductVariant | undefined, options: ProductFeedOptions): ProductFeedItem {
+  const source = variant || product
+  const status = getInventoryStatus({
+    ...mergeBackorderSettings(product, variant),
+    trackQuantity: source.trackQuantity,
+    quantity: source.quantity,
+    lowStockLevel: product.lowStockLevel,
+    reservedQuantity: source.reservedQuantity
+  }, options.allowBackorders)
+  const productImages = product.images || []
+  const images = variant ? [...(variant.images || []), ...productImages] : productImages
+  const path = `/shop/product/${product.slug}${variant ? `?variant=${variant.id}` : ''}`
+
+  return {
+    id: source.sku || source.id,
+    itemGroupId: variant ? product.sku || product.id : undefined,
+    title: variant ? `${product.name} - ${variant.name}` : product.name,
+    description: toPlainText(product.description) || toPlainText(product.shortDescription),
+    link: toAbsoluteUrl(options.baseUrl, path),
+    ...toImageLinks(images, options.baseUrl),
+    availability: toFeedAvailability(status),
+    condition: 'new',
+    ...toFeedPricing(source.price, source.comparePrice, options.currency),
+    // A GTIN identifies one sellable item, so variants don't inherit the product's
+    gtin: source.barcode || undefined,
+    mpn: source.sku || undefined,
+    brand: options.brand || undefined,
+    productType: product.category?.name,
+    shippingWeight: toShippingWeight(product, variant?.weight ?? product.weight, options.weightUnit)
+  }
+}
+
+// Map products to feed items: one per active variant for products with
+// variants, otherwise one for the product itself
+export function buildFeedItems(products: Product[], options: ProductFeedOptions): Array<{
+  item: ProductFeedItem
+  productId: string
+  variantId?: string
+}> {
+  const entries: Array<{ item: ProductFeedItem; productId: string; variantId?: string }> = []
+
+  for (const product of products) {
+    const variants = (product.variants || []).filter(variant => variant.status === ProductStatus.ACTIVE)
+
+    if (product.hasVariants && variants.length > 0) {
+      for (const variant of variants) {
+        entries.push({ item: toFeedItem(product, variant, options), productId: product.id, variantId: variant.id })
+      }
+    } else {
+      entries.push({ item: toFeedItem(product, undefined, options), productId: product.id })
+    }
+  }
+
+  return entries
+}
+
+// Attribute names of the required fields an item is missing
+export function findMissingFeedFields(item: ProductFeedItem, channel: ProductFeedChannel): string[] {
+  const attributeNames = new Map(FEED_ATTRIBUTES)
+
+  return FEED_REQUIRED_FIELDS[channel]
+    .filter(field => {
+      const value = item[field]
+      return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+    })
+    .map(field => attributeNames.get(field) || field)
+}
+
+// Build a channel's feed, leaving out and reporting items the channel
+// would reject for missing required fields
+export function buildProductFeed(
+  products: Product[],
+  channel: ProductFeedChannel,
+  options: ProductFeedOptions
+): { items: ProductFeedItem[]; issues: ProductFeedIssue[] } {
+  const items: ProductFeedItem[] = []
+  const issues: ProductFeedIssue[] = []
+
+  for (const entry of buildFeedItems(products, options)) {
+    // Meta has no "backorder"; items that can still be ordered are "available for order"
+    if (channel === 'meta' && entry.item.availability === 'backorder') {
+      entry.item.availability = 'available for order'
+    }
+    const missing = findMissingFeedFields(entry.item, channel)
+    if (missing.length > 0) {
+      issues.push({ id: entry.item.id, productId: entry.productId, variantId: entry.variantId, missing })
+    } else {
+      items.push(entry.item)
+    }
+  }
+
+  return { items, issues }
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Serialize items as a Google Merchant RSS 2.0 feed
+export function toGoogleMerchantXML(
+  items: ProductFeedItem[],
+  channel: { title: string; link: string; description: string }
+): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+    '<channel>',
+    `<title>${escapeXML(channel.title)}</title>`,
+    `<link>${escapeXML(channel.link)}</link>`,
+    `<description>${escapeXML(channel.description)}</description>`
+  ]
+
+  for (const item of items) {
+    lines.push('<item>')
+    for (const [field, attribute] of FEED_ATTRIBUTES) {
+      const value = item[field]
+      const values = Array.isArray(value) ? value : value === undefined ? [] : [value]
+      for (const entry of values) {
+        lines.push(`<g:${attribute}>${escapeXML(entry)}</g:${attribute}>`)
+      }
+    }
+    lines.push('</item>')
+  }
+
+  lines.push('</channel>', '</rss>')
+  return lines.join('\n')
+}
+
+// Tabs and line breaks would split a TSV field
+function toTSVField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ')
+}
+
+// Serialize items as a Google Merchant tab-separated feed
+export function toGoogleMerchantTSV(items: ProductFeedItem[]): string {
+  const lines = [FEED_ATTRIBUTES.map(([, attribute]) => attribute).join('\t')]
+
+  for (const item of items) {
+    lines.push(FEED_ATTRIBUTES.map(([field]) => {
+      const value = item[field]
+      return toTSVField(Array.isArray(value) ? value.join(',') : value || '')
+    }).join('\t'))
+  }
+
+  return lines.join('\n')
+}
+
+// Feed items as CSV records keyed by attribute name
+export function feedItemsToCSVRecords(items: ProductFeedItem[]): Array<Record<string, unknown>> {
+  return items.map(item => {
+    const record: Record<string, unknown> = {}
+    for (const [field, attribute] of FEED_ATTRIBUTES) {
+      const value = item[field]
+      record[attribute] = Array.isArray(value) ? value.join(',') : value
+    }
+    return record
+  })
+}
+
+// Column order of the Meta catalog CSV feed
+export const META_CATALOG_CSV_COLUMNS = FEED_ATTRIBUTES.map(([, attribute]) => attribute)
\ No newline at end of file
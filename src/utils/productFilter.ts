@@ -0,0 +1,244 @@
+import {
+  ProductFilterCondition,
+  ProductFilterExpression,
+  ProductFilterOperator,
+  ProductStatus
+} from '../types'
+
+type FilterValueType = 'number' | 'string' | 'boolean' | 'date' | 'status'
+
+interface FilterFieldDefinition {
+  type: FilterValueType
+  operators: ProductFilterOperator[]
+}
+
+const COMPARISON_OPERATORS: ProductFilterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte']
+const SET_OPERATORS: ProductFilterOperator[] = ['eq', 'ne', 'in', 'nin']
+
+// Fields a filter expression may reference, with the operators each accepts
+export const PRODUCT_FILTER_FIELDS: Record<string, FilterFieldDefinition> = {
+  price: { type: 'number', operators: COMPARISON_OPERATORS },
+  comparePrice: { type: 'number', operators: COMPARISON_OPERATORS },
+  quantity: { type: 'number', operators: COMPARISON_OPERATORS },
+  createdAt: { type: 'date', operators: ['gt', 'gte', 'lt', 'lte'] },
+  status: { type: 'status', operators: SET_OPERATORS },
+  featured: { type: 'boolean', operators: ['eq', 'ne'] },
+  inStock: { type: 'boolean', operators: ['eq'] },
+  category: { type: 'string', operators: SET_OPERATORS },
+  collection: { type: 'string', operators: SET_OPERATORS },
+  tag: { type: 'string', operators: SET_OPERATORS },
+  sku: { type: 'string', operators: SET_OPERATORS }
+}
+
+// Custom attributes are variant options, referenced as `attribute.Color`
+const ATTRIBUTE_PREFIX = 'attribute.'
+const ATTRIBUTE_FIELD: FilterFieldDefinition = { type: 'string', operators: SET_OPERATORS }
+
+// Facts the compiler needs that aren't columns
+export interface ProductFilterCompileOptions {
+  // Products whose stock on hand is all held by checkouts (see
+  // getProductsHeldOutOfStock); inStock treats them as out of stock
+  heldOutProductIds?: string[]
+  // Extra conditions a collection must meet to match, e.g. only collections
+  // customers can see (see buildVisibleCollectionWhere)
+  collectionWhere?: any
+}
+
+const MAX_FILTER_DEPTH = 6
+const MAX_FILTER_CONDITIONS = 50
+const MAX_LIST_VALUES = 100
+
+function getFieldDefinition(field: string): FilterFieldDefinition | undefined {
+  if (field.startsWith(ATTRIBUTE_PREFIX)) {
+    return field.length > ATTRIBUTE_PREFIX.length ? ATTRIBUTE_FIELD : undefined
+  }
+  return Object.prototype.hasOwnProperty.call(PRODUCT_FILTER_FIELDS, field)
+    ? PRODUCT_FILTER_FIELDS[field]
+    : undefined
+}
+
+function isValidScalar(value: unknown, type: FilterValueType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && isFinite(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'date':
+      return typeof value === 'string' && !isNaN(Date.parse(value))
+    case 'status':
+      return Object.values(ProductStatus).includes(value as ProductStatus)
+    case 'string':
+      return typeof value === 'string' && value.length > 0 && value.length <= 255
+  }
+}
+
+function isCondition(expression: ProductFilterExpression): expression is ProductFilterCondition {
+  return typeof (expression as ProductFilterCondition).field === 'string'
+}
+
+// Parse a filter passed as a JSON string in the query
+export function parseProductFilter(value: unknown): ProductFilterExpression | undefined {
+  if (value === undefined || value === '') {
+    return undefined
+  }
+  if (typeof value === 'string') {
+    return JSON.parse(value)
+  }
+  return value as ProductFilterExpression
+}
+
+// Validate a filter expression against the field allow-list
+export function validateProductFilter(expression: unknown): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+  let conditionCount = 0
+
+  const visit = (node: any, path: string, depth: number) => {
+    if (depth > MAX_FILTER_DEPTH) {
+      errors.push(`${path}: filter is nested too deeply (max ${MAX_FILTER_DEPTH} levels)`)
+      return
+    }
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      errors.push(`${path}: expected a condition or an and/or/not group`)
+      return
+    }
+
+    const keys = Object.keys(node)
+
+    if (keys.length === 1 && (keys[0] === 'and' || keys[0] === 'or')) {
+      const children = node[keys[0]]
+      if (!Array.isArray(children) || children.length === 0) {
+        errors.push(`${path}.${keys[0]}: expected a non-empty array`)
+        return
+      }
+      children.forEach((child: unknown, index: number) => visit(child, `${path}.${keys[0]}[${index}]`, depth + 1))
+      return
+    }
+
+    if (keys.length === 1 && keys[0] === 'not') {
+      visit(node.not, `${path}.not`, depth + 1)
+      return
+    }
+
+    conditionCount++
+    const { field, op, value } = node
+    const definition = typeof field === 'string' ? getFieldDefinition(field) : undefined
+
+    if (!definition) {
+      errors.push(`${path}: unknown filter field "${field}"`)
+      return
+    }
+    if (!definition.operators.includes(op)) {
+      errors.push(`${path}: operator "${op}" is not allowed for ${field}`)
+      return
+    }
+
+    if (op === 'in' || op === 'nin') {
+      if (!Array.isArray(value) || value.length === 0 || value.length > MAX_LIST_VALUES) {
+        errors.push(`${path}: ${op} expects a list of 1 to ${MAX_LIST_VALUES} values`)
+      } else if (!value.every(item => isValidScalar(item, definition.type))) {
+        errors.push(`${path}: invalid value in list for ${field}`)
+      }
+    } else if (!isValidScalar(value, definition.type)) {
+      errors.push(`${path}: invalid value for ${field}`)
+    }
+  }
+
+  visit(expression, 'filter', 0)
+
+  if (conditionCount > MAX_FILTER_CONDITIONS) {
+    errors.push(`filter has too many conditions (max ${MAX_FILTER_CONDITIONS})`)
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
+// Build the Prisma clause matching a single value for a field
+function compileFieldMatch(field: string, value: any, options: ProductFilterCompileOptions): any {
+  if (field.startsWith(ATTRIBUTE_PREFIX)) {
+    const optionName = field.slice(ATTRIBUTE_PREFIX.length)
+    return {
+      variants: {
+        some: {
+          status: ProductStatus.ACTIVE,
+          OR: [
+            { option1Name: optionName, option1Value: value },
+            { option2Name: optionName, option2Value: value },
+            { option3Name: optionName, option3Value: value }
+          ]
+        }
+      }
+    }
+  }
+
+  switch (field) {
+    case 'category':
+      return { category: { slug: value } }
+    case 'collection':
+      return {
+        collections: {
+          some: {
+            collection: options.collectionWhere ? { AND: [{ slug: value }, options.collectionWhere] } : { slug: value }
+          }
+        }
+      }
+    case 'tag':
+      return { tags: { some: { tag: { slug: value } } } }
+    case 'inStock': {
+      // quantity is the summed sellable stock for products kept per location
+      const heldOut = options.heldOutProductIds ?? []
+      const inStock = { OR: [{ trackQuantity: false }, { trackQuantity: true, quantity: { gt: 0 } }] }
+      const outOfStock = { trackQuantity: true, quantity: { lte: 0 } }
+      if (heldOut.length === 0) {
+        return value ? inStock : outOfStock
+      }
+      return value
+        ? { AND: [inStock, { id: { notIn: heldOut } }] }
+        : { OR: [outOfStock, { id: { in: heldOut } }] }
+    }
+    case 'createdAt':
+      return { createdAt: new Date(value) }
+    default:
+      return { [field]: value }
+  }
+}
+
+// Compile one condition into a Prisma where clause
+function compileCondition({ field, op, value }: ProductFilterCondition, options: ProductFilterCompileOptions): any {
+  const values = Array.isArray(value) ? value : [value]
+
+  switch (op) {
+    case 'eq':
+      return compileFieldMatch(field, value, options)
+    case 'ne':
+      return { NOT: compileFieldMatch(field, value, options) }
+    case 'in':
+      return { OR: values.map(item => compileFieldMatch(field, item, options)) }
+    case 'nin':
+      return { NOT: { OR: values.map(item => compileFieldMatch(field, item, options)) } }
+    default: {
+      // Range operators only apply to scalar columns
+      const operand = field === 'createdAt' ? new Date(value as string) : value
+      return { [field]: { [op]: operand } }
+    }
+  }
+}
+
+// Compile a validated filter expression into a Prisma where clause
+export function compileProductFilter(
+  expression: ProductFilterExpression,
+  options: ProductFilterCompileOptions = {}
+): any {
+  if (isCondition(expression)) {
+    return compileCondition(expression, options)
+  }
+  if ('and' in expression) {
+    return { AND: expression.and.map(child => compileProductFilter(child, options)) }
+  }
+  if ('or' in expression) {
+    return { OR: expression.or.map(child => compileProductFilter(child, options)) }
+  }
+  return { NOT: compileProductFilter(expression.not, options) }
+}
\ No newline at end of file
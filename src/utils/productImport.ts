@@ -0,0 +1,283 @@
+import { Product, ProductCreateInput, ProductImportRow, ProductStatus, ProductVariantInput } from '../types'
+
+// Column order used for CSV import templates and exports. Products with
+// variants span several rows sharing the same product `sku` (or `slug`, for
+// products without one); list columns (tags, collections, images) are
+// pipe-separated.
+export const PRODUCT_CSV_COLUMNS = [
+  'sku',
+  'name',
+  'slug',
+  'description',
+  'shortDescription',
+  'price',
+  'comparePrice',
+  'costPrice',
+  'barcode',
+  'trackQuantity',
+  'quantity',
+  'lowStockLevel',
+  'status',
+  'featured',
+  'metaTitle',
+  'metaDescription',
+  'metaKeywords',
+  'weight',
+  'length',
+  'width',
+  'height',
+  'requiresShipping',
+  'category',
+  'collections',
+  'tags',
+  'images',
+  'variantSku',
+  'variantName',
+  'variantPrice',
+  'variantComparePrice',
+  'variantQuantity',
+  'option1Name',
+  'option1Value',
+  'option2Name',
+  'option2Value',
+  'option3Name',
+  'option3Value'
+]
+
+const LIST_SEPARATOR = '|'
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (!value || !value.trim()) {
+    return undefined
+  }
+  return value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)
+}
+
+function parseNumber(value: string | undefined, column: string, errors: string[]): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined
+  }
+  const parsed = Number(value)
+  if (isNaN(parsed)) {
+    errors.push(`${column} must be a number`)
+    return undefined
+  }
+  return parsed
+}
+
+function parseInteger(value: string | undefined, column: string, errors: string[]): number | undefined {
+  const parsed = parseNumber(value, column, errors)
+  if (parsed !== undefined && !Number.isInteger(parsed)) {
+    errors.push(`${column} must be a whole number`)
+    return undefined
+  }
+  return parsed
+}
+
+function parseBoolean(value: string | undefined, column: string, errors: string[]): boolean | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined
+  }
+  const normalized = value.trim().toLowerCase()
+  if (['true', '1', 'yes', 'y'].includes(normalized)) return true
+  if (['false', '0', 'no', 'n'].includes(normalized)) return false
+  errors.push(`${column} must be true or false`)
+  return undefined
+}
+
+function parseStatus(value: string | undefined, errors: string[]): ProductStatus | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined
+  }
+  const normalized = value.trim().toUpperCase()
+  if (!Object.values(ProductStatus).includes(normalized as ProductStatus)) {
+    errors.push(`status must be one of ${Object.values(ProductStatus).join(', ')}`)
+    return undefined
+  }
+  return normalized as ProductStatus
+}
+
+function optionalString(value: string | undefined): string | undefined {
+  return value && value.trim() ? value.trim() : undefined
+}
+
+// Map parsed CSV records onto import rows. Records sharing a product SKU, or
+// a slug when they have no SKU, are merged into one product, each
+// contributing a variant. Row numbers refer to spreadsheet lines (the header
+// is line 1).
+export function csvRecordsToImportRows(
+  records: Array<Record<string, string>>
+): Array<{ row: number; data: ProductImportRow; errors: string[] }> {
+  const grouped: Array<{ row: number; data: ProductImportRow; errors: string[] }> = []
+  const byKey = new Map<string, { row: number; data: ProductImportRow; errors: string[] }>()
+
+  records.forEach((record, index) => {
+    const row = index + 2
+    const errors: string[] = []
+    const sku = optionalString(record.sku)
+    const slug = optionalString(record.slug)
+    const key = sku ? `sku:${sku}` : slug ? `slug:${slug}` : undefined
+
+    const hasVariant = Boolean(
+      optionalString(record.variantSku) || optionalString(record.option1Value)
+    )
+    const variant: ProductVariantInput | undefined = hasVariant ? {
+      sku: optionalString(record.variantSku),
+      name: optionalString(record.variantName),
+      price: parseNumber(record.variantPrice, 'variantPrice', errors),
+      comparePrice: parseNumber(record.variantComparePrice, 'variantComparePrice', errors),
+      quantity: parseInteger(record.variantQuantity, 'variantQuantity', errors),
+      option1Name: optionalString(record.option1Name),
+      option1Value: optionalString(record.option1Value),
+      option2Name: optionalString(record.option2Name),
+      option2Value: optionalString(record.option2Value),
+      option3Name: optionalString(record.option3Name),
+      option3Value: optionalString(record.option3Value)
+    } : undefined
+
+    const existing = key ? byKey.get(key) : undefined
+    if (existing) {
+      // Continuation line: only the variant columns are read
+      if (variant) {
+        existing.data.variants = [...(existing.data.variants || []), variant]
+      }
+      existing.errors.push(...errors.map(error => `Line ${row}: ${error}`))
+      return
+    }
+
+    const data: ProductImportRow = {
+      sku,
+      name: record.name?.trim() ?? '',
+      slug,
+      description: record.description?.trim() ?? '',
+      shortDescription: optionalString(record.shortDescription),
+      price: parseNumber(record.price, 'price', errors) as number,
+      comparePrice: parseNumber(record.comparePrice, 'comparePrice', errors),
+      costPrice: parseNumber(record.costPrice, 'costPrice', errors),
+      barcode: optionalString(record.barcode),
+      trackQuantity: parseBoolean(record.trackQuantity, 'trackQuantity', errors),
+      quantity: parseInteger(record.quantity, 'quantity', errors),
+      lowStockLevel: parseInteger(record.lowStockLevel, 'lowStockLevel', errors),
+      status: parseStatus(record.status, errors),
+      featured: parseBoolean(record.featured, 'featured', errors),
+      metaTitle: optionalString(record.metaTitle),
+      metaDescription: optionalString(record.metaDescription),
+      metaKeywords: optionalString(record.metaKeywords),
+      weight: parseNumber(record.weight, 'weight', errors),
+      length: parseNumber(record.length, 'length', errors),
+      width: parseNumber(record.width, 'width', errors),
+      height: parseNumber(record.height, 'height', errors),
+      requiresShipping: parseBoolean(record.requiresShipping, 'requiresShipping', errors),
+      category: optionalString(record.category),
+      collections: parseList(record.collections),
+      tags: parseList(record.tags),
+      images: parseList(record.images)?.map((url, position) => ({ url, position })),
+      variants: variant ? [variant] : undefined
+    }
+
+    const entry = { row, data, errors }
+    grouped.push(entry)
+    if (key) {
+      byKey.set(key, entry)
+    }
+  })
+
+  return grouped
+}
+
+// The product fields of an import row, as create input. Relations are named
+// by slug (or tag name) in the row and resolved to ids separately, so they
+// are left out here.
+export function importRowToProductInput(row: ProductImportRow): ProductCreateInput {
+  const { category, collections, tags, ...fields } = row
+  return fields
+}
+
+// Convert a stored product (with relations loaded) into an import row
+export function productToImportRow(product: Product): ProductImportRow {
+  return {
+    sku: product.sku,
+    name: product.name,
+    slug: product.slug,
+    description: product.description,
+    shortDescription: product.shortDescription,
+    price: product.price,
+    comparePrice: product.comparePrice,
+    costPrice: product.costPrice,
+    barcode: product.barcode,
+    trackQuantity: product.trackQuantity,
+    quantity: product.quantity,
+    lowStockLevel: product.lowStockLevel,
+    status: product.status,
+    featured: product.featured,
+    metaTitle: product.metaTitle,
+    metaDescription: product.metaDescription,
+    metaKeywords: product.metaKeywords,
+    weight: product.weight,
+    length: product.length,
+    width: product.width,
+    height: product.height,
+    requiresShipping: product.requiresShipping,
+    category: product.category?.slug,
+    collections: product.collections?.map(item => item.collection.slug),
+    tags: product.tags?.map(item => item.tag.name),
+    images: product.images?.map(image => ({
+      url: image.url,
+      altText: image.altText,
+      position: image.position
+    })),
+    variants: product.variants?.map(variant => ({
+      sku: variant.sku,
+      name: variant.name,
+      price: variant.price,
+      comparePrice: variant.comparePrice,
+      quantity: variant.quantity,
+      option1Name: variant.option1Name,
+      option1Value: variant.option1Value,
+      option2Name: variant.option2Name,
+      option2Value: variant.option2Value,
+      option3Name: variant.option3Name,
+      option3Value: variant.option3Value
+    }))
+  }
+}
+
+// Flatten import rows into CSV records, one line per variant
+export function importRowsToCSVRecords(rows: ProductImportRow[]): Array<Record<string, unknown>> {
+  const records: Array<Record<string, unknown>> = []
+
+  for (const row of rows) {
+    const { variants, collections, tags, images, ...fields } = row
+    const productRecord: Record<string, unknown> = {
+      ...fields,
+      collections: collections?.join(LIST_SEPARATOR),
+      tags: tags?.join(LIST_SEPARATOR),
+      images: images?.map(image => image.url).join(LIST_SEPARATOR)
+    }
+
+    if (!variants || variants.length === 0) {
+      records.push(productRecord)
+      continue
+    }
+
+    variants.forEach((variant, index) => {
+      records.push({
+        // Continuation lines repeat only the SKU and slug that group them
+        ...(index === 0 ? productRecord : { sku: row.sku, slug: row.slug }),
+        variantSku: variant.sku,
+        variantName: variant.name,
+        variantPrice: variant.price,
+        variantComparePrice: variant.comparePrice,
+        variantQuantity: variant.quantity,
+        option1Name: variant.option1Name,
+        option1Value: variant.option1Value,
+        option2Name: variant.option2Name,
+        option2Value: variant.option2Value,
+        option3Name: variant.option3Name,
+        option3Value: variant.option3Value
+      })
+    })
+  }
+
+  return records
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { ProductStatus } from '../types'
+
+// Items with a publish window are only live between `publishAt` and
+// `unpublishAt`; a missing bound leaves that side open.
+export interface PublishWindow {
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+}
+
+// Prisma where clause matching items whose window contains `now`
+export function buildPublishWindowWhere(now: Date = new Date()) {
+  return {
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] }
+    ]
+  }
+}
+
+// Prisma where clause matching products customers can see and buy: active,
+// not archived and inside their publish window
+export function buildVisibleProductWhere(now: Date = new Date()) {
+  return {
+    AND: [
+      { status: ProductStatus.ACTIVE, deletedAt: null },
+      buildPublishWindowWhere(now)
+    ]
+  }
+}
+
+// Prisma where clause matching collections customers can see. The window is
+// checked as well as the scheduler's `published` flag, so a window that
+// closed since the last run already hides the collection.
+export function buildVisibleCollectionWhere(now: Date = new Date()) {
+  return {
+    AND: [{ published: true }, buildPublishWindowWhere(now)]
+  }
+}
+
+// Check whether `now` falls inside an item's publish window
+export function isWithinPublishWindow(item: PublishWindow, now: Date = new Date()): boolean {
+  if (item.publishAt && new Date(item.publishAt) > now) {
+    return false
+  }
+  if (item.unpublishAt && new Date(item.unpublishAt) <= now) {
+    return false
+  }
+  return true
+}
+
+// Validate the bounds of a publish window
+export function validatePublishWindow(window: PublishWindow): string[] {
+  const errors: string[] = []
+  const publishAt = window.publishAt ? new Date(window.publishAt) : undefined
+  const unpublishAt = window.unpublishAt ? new Date(window.unpublishAt) : undefined
+
+  if (publishAt && isNaN(publishAt.getTime())) {
+    errors.push('publishAt must be a valid date')
+  }
+  if (unpublishAt && isNaN(unpublishAt.getTime())) {
+    errors.push('unpublishAt must be a valid date')
+  }
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    errors.push('unpublishAt must be later than publishAt')
+  }
+
+  return errors
+}
+
+// Convert a window bound from request input, keeping null (clear) and
+// undefined (leave unchanged) as they are
+export function toWindowDate(value: Date | string | null | undefined): Date | null | undefined {
+  if (value === null || value === undefined || value === '') {
+    return value === '' ? null : value
+  }
+  return new Date(value)
+}
\ No newline at end of file
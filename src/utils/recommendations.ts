@@ -0,0 +1,132 @@
+import { RecommendationReason } from '../types'
+
+// Recommendations stored per product
+export const MAX_RECOMMENDATIONS = 12
+
+// A shared category counts for this many shared tags
+const SAME_CATEGORY_WEIGHT = 2
+
+export interface RecommendationCandidate {
+  id: string
+  categoryId?: string | null
+  tagIds: string[]
+}
+
+export interface ScoredRecommendation {
+  recommendedId: string
+  reason: RecommendationReason
+  score: number
+}
+
+// Candidates grouped by category and tag, so similar products are found
+// without comparing every pair in the catalog
+export interface SimilarityIndex {
+  products: Map<string, RecommendationCandidate>
+  byCategory: Map<string, string[]>
+  byTag: Map<string, string[]>
+}
+
+function pushToGroup(groups: Map<string, string[]>, key: string, id: string) {
+  const group = groups.get(key)
+  if (group) {
+    group.push(id)
+  } else {
+    groups.set(key, [id])
+  }
+}
+
+// Count how often each pair of products was bought in the same order
+export function buildCoPurchaseCounts(orders: string[][]): Map<string, Map<string, number>> {
+  const counts = new Map<string, Map<string, number>>()
+
+  for (const order of orders) {
+    const productIds = Array.from(new Set(order))
+    for (const productId of productIds) {
+      for (const otherId of productIds) {
+        if (otherId === productId) {
+          continue
+        }
+        const related = counts.get(productId) ?? new Map<string, number>()
+        related.set(otherId, (related.get(otherId) ?? 0) + 1)
+        counts.set(productId, related)
+      }
+    }
+  }
+
+  return counts
+}
+
+export function buildSimilarityIndex(candidates: RecommendationCandidate[]): SimilarityIndex {
+  const index: SimilarityIndex = {
+    products: new Map(),
+    byCategory: new Map(),
+    byTag: new Map()
+  }
+
+  for (const candidate of candidates) {
+    index.products.set(candidate.id, candidate)
+    if (candidate.categoryId) {
+      pushToGroup(index.byCategory, candidate.categoryId, candidate.id)
+    }
+    for (const tagId of candidate.tagIds) {
+      pushToGroup(index.byTag, tagId, candidate.id)
+    }
+  }
+
+  return index
+}
+
+// Score how alike two products are: one point per shared tag, plus a bonus
+// for the same category. Zero means unrelated.
+export function scoreSimilarity(source: RecommendationCandidate, candidate: RecommendationCandidate): number {
+  const tagIds = new Set(source.tagIds)
+  const sharedTags = candidate.tagIds.filter(tagId => tagIds.has(tagId)).length
+  const sameCategory = Boolean(source.categoryId) && source.categoryId === candidate.categoryId
+  return (sameCategory ? SAME_CATEGORY_WEIGHT : 0) + sharedTags
+}
+
+// Rank recommendations for one product: products bought together with it
+// first, then similar products to fill the remaining slots. Only products in
+// the index are recommended.
+export function rankRecommendations(
+  source: RecommendationCandidate,
+  index: SimilarityIndex,
+  coPurchases: Map<string, number> | undefined,
+  limit: number = MAX_RECOMMENDATIONS
+): ScoredRecommendation[] {
+  const byScore = (a: ScoredRecommendation, b: ScoredRecommendation) =>
+    b.score - a.score || a.recommendedId.localeCompare(b.recommendedId)
+
+  const boughtTogether: ScoredRecommendation[] = Array.from(coPurchases ?? [])
+    .filter(([productId]) => productId !== source.id && index.products.has(productId))
+    .map(([productId, count]) => ({
+      recommendedId: productId,
+      reason: RecommendationReason.BOUGHT_TOGETHER,
+      score: count
+    }))
+    .sort(byScore)
+    .slice(0, limit)
+
+  if (boughtTogether.length >= limit) {
+    return boughtTogether
+  }
+
+  const taken = new Set([source.id, ...boughtTogether.map(item => item.recommendedId)])
+  const pool = new Set([
+    ...(source.categoryId ? index.byCategory.get(source.categoryId) ?? [] : []),
+    ...source.tagIds.flatMap(tagId => index.byTag.get(tagId) ?? [])
+  ])
+
+  const similar: ScoredRecommendation[] = []
+  pool.forEach(productId => {
+    if (taken.has(productId)) {
+      return
+    }
+    const score = scoreSimilarity(source, index.products.get(productId)!)
+    if (score > 0) {
+      similar.push({ recommendedId: productId, reason: RecommendationReason.SIMILAR, score })
+    }
+  })
+
+  return [...boughtTogether, ...similar.sort(byScore).slice(0, limit - boughtTogether.length)]
+}
\ No newline at end of file
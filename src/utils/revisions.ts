@@ -0,0 +1,138 @@
+import { ProductSnapshot, ProductRevisionChange } from '../types'
+
+// Scalar product fields captured in a revision snapshot
+export const PRODUCT_SNAPSHOT_FIELDS = [
+  'name',
+  'slug',
+  'slugPinned',
+  'description',
+  'shortDescription',
+  'price',
+  'comparePrice',
+  'costPrice',
+  'sku',
+  'barcode',
+  'trackQuantity',
+  'quantity',
+  'lowStockLevel',
+  'backorderPolicy',
+  'expectedShipDate',
+  'maxBackorderQuantity',
+  'status',
+  'featured',
+  'publishAt',
+  'unpublishAt',
+  'metaTitle',
+  'metaDescription',
+  'metaKeywords',
+  'weight',
+  'length',
+  'width',
+  'height',
+  'requiresShipping',
+  'hasVariants',
+  'type',
+  'bundlePricing',
+  'bundleDiscount',
+  'categoryId'
+] as const
+
+// Variant fields captured alongside the variant id
+const VARIANT_SNAPSHOT_FIELDS = [
+  'name',
+  'sku',
+  'barcode',
+  'price',
+  'comparePrice',
+  'costPrice',
+  'quantity',
+  'trackQuantity',
+  'backorderPolicy',
+  'expectedShipDate',
+  'maxBackorderQuantity',
+  'option1Name',
+  'option1Value',
+  'option2Name',
+  'option2Value',
+  'option3Name',
+  'option3Value',
+  'weight',
+  'length',
+  'width',
+  'height',
+  'status'
+] as const
+
+function toImageSnapshot(image: any) {
+  return {
+    url: image.url,
+    altText: image.altText ?? undefined,
+    position: image.position
+  }
+}
+
+// Build a snapshot from a product loaded with collections, tags, images and
+// variants (with their images)
+export function toProductSnapshot(product: any): ProductSnapshot {
+  const snapshot: any = {}
+  for (const field of PRODUCT_SNAPSHOT_FIELDS) {
+    snapshot[field] = product[field] ?? null
+  }
+
+  snapshot.collectionIds = (product.collections || []).map((item: any) => item.collectionId).sort()
+  snapshot.tagIds = (product.tags || []).map((item: any) => item.tagId).sort()
+  snapshot.images = (product.images || []).map(toImageSnapshot)
+  snapshot.bundleItems = (product.bundleItems || []).map((item: any) => ({
+    productId: item.productId,
+    variantId: item.variantId ?? undefined,
+    quantity: item.quantity
+  }))
+  snapshot.variants = (product.variants || []).map((variant: any) => {
+    const variantSnapshot: any = { id: variant.id }
+    for (const field of VARIANT_SNAPSHOT_FIELDS) {
+      if (variant[field] !== null && variant[field] !== undefined) {
+        variantSnapshot[field] = variant[field]
+      }
+    }
+    variantSnapshot.images = (variant.images || []).map(toImageSnapshot)
+    return variantSnapshot
+  })
+
+  return snapshot as ProductSnapshot
+}
+
+// List the fields that differ between two snapshots. Relations are compared
+// as a whole; variants are compared per variant id.
+export function diffProductSnapshots(
+  before: ProductSnapshot | null,
+  after: ProductSnapshot | null
+): ProductRevisionChange[] {
+  const changes: ProductRevisionChange[] = []
+  const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+  for (const field of [...PRODUCT_SNAPSHOT_FIELDS, 'collectionIds', 'tagIds', 'images', 'bundleItems'] as const) {
+    const beforeValue = before ? before[field] : undefined
+    const afterValue = after ? after[field] : undefined
+    if (!same(beforeValue, afterValue)) {
+      changes.push({ field, before: beforeValue ?? null, after: afterValue ?? null })
+    }
+  }
+
+  const beforeVariants = new Map((before?.variants || []).map(variant => [variant.id, variant]))
+  const afterVariants = new Map((after?.variants || []).map(variant => [variant.id, variant]))
+  const variantIds = new Set([...beforeVariants.keys(), ...afterVariants.keys()])
+
+  variantIds.forEach(variantId => {
+    const beforeVariant = beforeVariants.get(variantId)
+    const afterVariant = afterVariants.get(variantId)
+    if (!same(beforeVariant, afterVariant)) {
+      changes.push({
+        field: `variants.${variantId}`,
+        before: beforeVariant ?? null,
+        after: afterVariant ?? null
+      })
+    }
+  })
+
+  return changes
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+// Upper bound on query terms so a pasted paragraph can't build a huge MATCH
+const MAX_SEARCH_TERMS = 8
+
+// Split a search query into normalized terms (lowercase, accents stripped)
+export function tokenizeSearchQuery(query: string): string[] {
+  const terms = query
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 0)
+
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS)
+}
+
+// Edit distance between two terms, counting adjacent transpositions as one edit
+export function levenshteinDistance(a: string, b: string): number {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const distances: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      distances[i]![j] = Math.min(
+        distances[i - 1]![j]! + 1,
+        distances[i]![j - 1]! + 1,
+        distances[i - 1]![j - 1]! + cost
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i]![j] = Math.min(distances[i]![j]!, distances[i - 2]![j - 2]! + 1)
+      }
+    }
+  }
+
+  return distances[a.length]![b.length]!
+}
+
+// Number of typos tolerated for a term; short terms must match exactly
+export function getMaxTypoDistance(term: string): number {
+  if (term.length < 4) return 0
+  if (term.length < 8) return 1
+  return 2
+}
+
+// Build an FTS5 MATCH expression: every term must match, either as a
+// prefix ("shoe" finds "shoes") or as one of its typo corrections
+export function buildSearchMatchQuery(terms: string[], corrections: string[][] = []): string {
+  const quote = (term: string) => `"${term.replace(/"/g, '""')}"`
+
+  return terms
+    .map((term, index) => {
+      const alternatives = [`${quote(term)}*`, ...(corrections[index] || []).map(quote)]
+      return alternatives.length === 1 ? alternatives[0] : `(${alternatives.join(' OR ')})`
+    })
+    .join(' AND ')
+}
\ No newline at end of file
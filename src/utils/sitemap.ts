@@ -0,0 +1,52 @@
+// Sitemaps are limited to 50,000 URLs each; larger sets are split into
+// numbered pages listed by a sitemap index
+export const SITEMAP_MAX_URLS = 50000
+
+export type SitemapSection = 'products' | 'categories'
+
+export const SITEMAP_SECTIONS: SitemapSection[] = ['products', 'categories']
+
+export interface SitemapEntry {
+  loc: string
+  lastmod?: Date | string | null
+}
+
+// Number of sitemap pages needed for `total` URLs (at least one, so an
+// empty section still resolves)
+export function getSitemapPageCount(total: number, pageSize: number = SITEMAP_MAX_URLS): number {
+  return Math.max(1, Math.ceil(total / pageSize))
+}
+
+function escapeSitemapValue(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function toSitemapElement(tag: 'url' | 'sitemap', entry: SitemapEntry): string {
+  const lastmod = entry.lastmod ? `<lastmod>${new Date(entry.lastmod).toISOString()}</lastmod>` : ''
+  return `<${tag}><loc>${escapeSitemapValue(entry.loc)}</loc>${lastmod}</${tag}>`
+}
+
+// Serialize a page of URLs as a sitemap
+export function toSitemapXML(entries: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map(entry => toSitemapElement('url', entry)),
+    '</urlset>'
+  ].join('\n')
+}
+
+// Serialize a sitemap index pointing at sitemap pages
+export function toSitemapIndexXML(sitemaps: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map(entry => toSitemapElement('sitemap', entry)),
+    '</sitemapindex>'
+  ].join('\n')
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { InventoryStatus, Product, ProductStatus } from '../types'
+import { getInventoryStatus } from './index'
+import { mergeBackorderSettings } from './backorders'
+import { toAbsoluteUrl, toPlainText } from './productFeeds'
+
+export interface ProductJsonLdOptions {
+  baseUrl?: string // Makes the page and image URLs absolute, as search engines prefer
+  currency?: string
+  brand?: string
+  allowBackorders?: boolean // shop_allow_backorders, for items without a backorder policy
+}
+
+function toSchemaAvailability(status: InventoryStatus): string {
+  switch (status) {
+    case 'out_of_stock':
+      return 'https://schema.org/OutOfStock'
+    case 'backorder':
+      return 'https://schema.org/BackOrder'
+    case 'preorder':
+      return 'https://schema.org/PreOrder'
+    default:
+      return 'https://schema.org/InStock'
+  }
+}
+
+// Best availability across variants: in stock beats backorder, which beats
+// pre-order
+function pickVariantStatus(statuses: InventoryStatus[]): InventoryStatus {
+  const ranked: InventoryStatus[] = ['in_stock', 'low_stock', 'backorder', 'preorder']
+  return ranked.find(status => statuses.includes(status)) ?? 'out_of_stock'
+}
+
+function toUrl(path: string, baseUrl?: string): string {
+  return baseUrl ? toAbsoluteUrl(baseUrl, path) : path
+}
+
+function toSchemaPrice(amount: number): string {
+  return amount.toFixed(2)
+}
+
+// schema.org Product data for a product, with an Offer (or an
+// AggregateOffer across active variants) and an AggregateRating when
+// approved reviews are loaded. Embed with `serializeJsonLd`.
+export function buildProductJsonLd(product: Product, options: ProductJsonLdOptions = {}): Record<string, unknown> {
+  const currency = (options.currency || 'USD').toUpperCase()
+  const url = toUrl(`/shop/product/${product.slug}`, options.baseUrl)
+  const variants = (product.variants || []).filter(variant => variant.status === ProductStatus.ACTIVE)
+
+  const data: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.name,
+    description: product.metaDescription || product.shortDescription || toPlainText(product.description),
+    url,
+    image: (product.images || []).map(image => toUrl(image.url, options.baseUrl))
+  }
+
+  if (product.sku) {
+    data.sku = product.sku
+  }
+  if (product.barcode) {
+    data.gtin = product.barcode
+  }
+  if (options.brand) {
+    data.brand = { '@type': 'Brand', name: options.brand }
+  }
+  if (product.category?.name) {
+    data.category = product.category.name
+  }
+
+  if (product.hasVariants && variants.length > 0) {
+    const prices = variants.map(variant => variant.price)
+    const status = pickVariantStatus(variants.map(variant => getInventoryStatus({
+      ...mergeBackorderSettings(product, variant),
+      trackQuantity: variant.trackQuantity,
+      quantity: variant.quantity,
+      lowStockLevel: product.lowStockLevel,
+      reservedQuantity: variant.reservedQuantity
+    }, options.allowBackorders)))
+
+    data.offers = {
+      '@type': 'AggregateOffer',
+      priceCurrency: currency,
+      lowPrice: toSchemaPrice(Math.min(...prices)),
+      highPrice: toSchemaPrice(Math.max(...prices)),
+      offerCount: variants.length,
+      availability: toSchemaAvailability(status),
+      url
+    }
+  } else {
+    data.offers = {
+      '@type': 'Offer',
+      priceCurrency: currency,
+      price: toSchemaPrice(product.price),
+      availability: toSchemaAvailability(getInventoryStatus(product, options.allowBackorders)),
+      itemCondition: 'https://schema.org/NewCondition',
+      url
+    }
+  }
+
+  const reviews = (product.reviews || []).filter(review => review.approved !== false)
+  if (reviews.length > 0) {
+    const total = reviews.reduce((sum, review) => sum + review.rating, 0)
+    data.aggregateRating = {
+      '@type': 'AggregateRating',
+      ratingValue: Math.round((total / reviews.length) * 10) / 10,
+      reviewCount: reviews.length,
+      bestRating: 5,
+      worstRating: 1
+    }
+  }
+
+  return data
+}
+
+// JSON for a <script type="application/ld+json"> tag. Escapes "<" so text
+// such as "</script>" in a description can't end the tag early.
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
\ No newline at end of file
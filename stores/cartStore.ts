@@ -13,6 +13,22 @@ const getCSRFToken = async (): Promise<string> => {
   }
 }
 
+// Error text from a failed cart request, e.g. the stock the server has left
+// for a line, falling back to `fallback`
+const getErrorMessage = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const body = await response.json()
+    const message = body?.message || body?.error
+    const details = Array.isArray(body?.errors) ? body.errors.join('; ') : ''
+    if (message) {
+      return details ? `${message}: ${details}` : message
+    }
+  } catch {
+    // Not a JSON error body
+  }
+  return fallback
+}
+
 // API functions (would typically be in a separate API client)
 const cartApi = {
   async getCart(): Promise<Cart> {
@@ -34,7 +50,8 @@ const cartApi = {
       body: JSON.stringify(item),
     })
     if (!response.ok) {
-      throw new Error('Failed to add item to cart')
+      // 409: the quantity is more than the item's stock and backorder policy allow
+      throw new Error(await getErrorMessage(response, 'Failed to add item to cart'))
     }
     return response.json()
   },
@@ -50,7 +67,7 @@ const cartApi = {
       body: JSON.stringify({ quantity }),
     })
     if (!response.ok) {
-      throw new Error('Failed to update item quantity')
+      throw new Error(await getErrorMessage(response, 'Failed to update item quantity'))
     }
     return response.json()
   },